@@ -3,6 +3,8 @@ import { z } from "zod";
 
 config();
 
+const severitySchema = z.enum(["info", "low", "medium", "high", "critical"]);
+
 const envSchema = z.object({
 	TELEGRAM_BOT_TOKEN: z
 		.string()
@@ -14,7 +16,7 @@ const envSchema = z.object({
 		.string()
 		.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid wallet address format")
 		.describe(
-			"Ethereum wallet address (0x format) to monitor for IQ agent investments on Fraxtal network",
+			"Ethereum wallet address (0x format) to monitor for IQ agent investments on Fraxtal network; seeds the wallets table, more are added with /wallet add",
 		),
 	IQ_API_BASE_URL: z
 		.url()
@@ -54,6 +56,18 @@ const envSchema = z.object({
 		.describe(
 			"Default percentage threshold for price change notifications (default: 2%)",
 		),
+	ALERT_WEBHOOK_URL: z
+		.url()
+		.optional()
+		.describe(
+			"URL that receives every delivered alert as signed, versioned JSON; /webhook set overrides it",
+		),
+	ALERT_WEBHOOK_SECRET: z
+		.string()
+		.optional()
+		.describe(
+			"HMAC-SHA256 secret for the X-IQ-Agents-Signature header of alert webhooks (default: generated and kept in the database)",
+		),
 	NODE_ENV: z
 		.enum(["development", "production", "test"])
 		.default("development")
@@ -72,6 +86,71 @@ const envSchema = z.object({
 		.describe(
 			"Single authorized Telegram user ID who can interact with the bot (empty = allow all users)",
 		),
+	TELEGRAM_MIN_SEVERITY: severitySchema
+		.default("info")
+		.describe(
+			"Lowest alert severity sent to the Telegram chat (info = everything, including digests and summaries); /channel telegram <severity> overrides it",
+		),
+	DISCORD_WEBHOOK_URL: z
+		.url()
+		.optional()
+		.describe(
+			"Discord webhook URL that receives alerts as the discord channel",
+		),
+	DISCORD_MIN_SEVERITY: severitySchema
+		.default("info")
+		.describe("Lowest alert severity sent to the Discord webhook"),
+	SLACK_WEBHOOK_URL: z
+		.url()
+		.optional()
+		.describe(
+			"Slack incoming webhook URL that receives alerts as the slack channel",
+		),
+	SLACK_MIN_SEVERITY: severitySchema
+		.default("info")
+		.describe("Lowest alert severity sent to the Slack webhook"),
+	WEBHOOK_URL: z
+		.url()
+		.optional()
+		.describe(
+			"Generic webhook URL that receives the alert text as JSON ({ text, severity, timestamp }); ALERT_WEBHOOK_URL sends structured, signed alerts",
+		),
+	WEBHOOK_MIN_SEVERITY: severitySchema
+		.default("info")
+		.describe("Lowest alert severity sent to the generic webhook"),
+	SMTP_HOST: z
+		.string()
+		.optional()
+		.describe("SMTP server used by email channels (empty = email disabled)"),
+	SMTP_PORT: z
+		.string()
+		.optional()
+		.default("587")
+		.transform(Number)
+		.describe("SMTP server port (default: 587)"),
+	SMTP_SECURE: z
+		.string()
+		.optional()
+		.default("false")
+		.transform((val) => val === "true")
+		.describe(
+			"Use TLS from the start of the SMTP connection, usually with port 465 (default: false, STARTTLS is used when offered)",
+		),
+	SMTP_USER: z.string().optional().describe("SMTP username"),
+	SMTP_PASS: z.string().optional().describe("SMTP password"),
+	SMTP_FROM: z
+		.string()
+		.optional()
+		.describe("Sender address for alert emails (default: SMTP_USER)"),
+	EMAIL_TO: z
+		.string()
+		.optional()
+		.describe(
+			"Comma-separated recipients of the email channel; needs SMTP_HOST",
+		),
+	EMAIL_MIN_SEVERITY: severitySchema
+		.default("info")
+		.describe("Lowest alert severity sent to the email channel"),
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
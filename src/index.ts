@@ -1,14 +1,76 @@
 import dedent from "dedent";
 import { type Context, Markup, Telegraf } from "telegraf";
+import type { Convenience } from "telegraf/types";
 import { env } from "./env";
 import { agentsApi } from "./services/agents";
-import { database } from "./services/database";
+import {
+	type AlertEscalation,
+	AlertEscalator,
+} from "./services/alert-escalator";
+import { AlertGovernor, type GovernedAlert } from "./services/alert-governor";
+import { alertRules } from "./services/alert-rules";
+import {
+	ALERT_TEMPLATE_TYPES,
+	alertTemplates,
+} from "./services/alert-templates";
+import {
+	ALERT_WEBHOOK_VERSION,
+	AlertWebhook,
+	SIGNATURE_HEADER,
+} from "./services/alert-webhook";
+import { allocation } from "./services/allocation";
+import { benchmark } from "./services/benchmark";
+import { costBasis } from "./services/cost-basis";
+import {
+	type AlertQuery,
+	type AlertRecord,
+	database,
+	type OutboxMessage,
+} from "./services/database";
+import {
+	DIGEST_SECTIONS,
+	DigestScheduler,
+	type DigestSection,
+	WEEKDAYS,
+} from "./services/digest-scheduler";
 import {
 	type HoldingsAlert,
 	HoldingsWatcher,
 } from "./services/holdings-watcher";
-import { type IQPriceAlert, IQPriceWatcher } from "./services/iq-price-watcher";
+import {
+	IQ_TOKEN_CONTRACT,
+	IQ_TOKEN_NAME,
+	type IQPriceAlert,
+	IQPriceWatcher,
+} from "./services/iq-price-watcher";
+import { metricAlerts } from "./services/metric-alerts";
+import {
+	isValidClockTime,
+	isValidTimezone,
+	NotificationScheduler,
+} from "./services/notification-scheduler";
+import {
+	NOTIFICATION_SEVERITIES,
+	type Notification,
+	type NotificationSeverity,
+	Notifier,
+} from "./services/notifier";
+import { priceTargets } from "./services/price-targets";
 import { type PriceAlert, PriceWatcher } from "./services/price-watcher";
+import { TelegramOutbox } from "./services/telegram-outbox";
+import { trailingAlerts } from "./services/trailing-alerts";
+import { formatDuration, parseDuration } from "./utils/duration";
+import {
+	bold,
+	code,
+	dedentHtml,
+	html,
+	type MessagePart,
+	Rendered,
+	render,
+	sendRendered,
+} from "./utils/render";
+import { RULE_FIELDS } from "./utils/rule-expression";
 
 interface BotContext extends Context {
 	// Add any custom context properties here
@@ -19,6 +81,13 @@ class IQAgentsTelegramBot {
 	private holdingsWatcher: HoldingsWatcher;
 	private priceWatcher: PriceWatcher;
 	private iqPriceWatcher: IQPriceWatcher;
+	private alertGovernor: AlertGovernor;
+	private notificationScheduler: NotificationScheduler;
+	private alertEscalator: AlertEscalator;
+	private digestScheduler: DigestScheduler;
+	private notifier: Notifier;
+	private alertWebhook: AlertWebhook;
+	private outbox: TelegramOutbox;
 	private userChatId: number | null = null;
 
 	constructor() {
@@ -26,6 +95,18 @@ class IQAgentsTelegramBot {
 		this.holdingsWatcher = new HoldingsWatcher();
 		this.priceWatcher = new PriceWatcher();
 		this.iqPriceWatcher = new IQPriceWatcher();
+		this.alertGovernor = new AlertGovernor();
+		this.notificationScheduler = new NotificationScheduler();
+		this.alertEscalator = new AlertEscalator(this.notificationScheduler);
+		this.digestScheduler = new DigestScheduler(this.holdingsWatcher);
+		this.notifier = new Notifier((notification) =>
+			this.sendToChat(notification),
+		);
+		this.alertWebhook = new AlertWebhook();
+		this.outbox = new TelegramOutbox(
+			(chatId, message) => this.sendOutboxMessage(chatId, message),
+			() => this.userChatId,
+		);
 
 		this.setupMiddleware();
 		this.setupCommands();
@@ -49,9 +130,9 @@ class IQAgentsTelegramBot {
 
 			// Check if user is the authorized user
 			if (!userId || userId !== env.AUTHORIZED_USER_ID) {
-				ctx.reply(
-					"🚫 *Access Denied*\n\nThis bot is restricted to a single authorized user.",
-					{ parse_mode: "Markdown" },
+				this.replyRendered(
+					ctx,
+					html`🚫 ${bold("Access Denied")}\n\nThis bot is restricted to a single authorized user.`,
 				);
 				return;
 			}
@@ -72,32 +153,32 @@ class IQAgentsTelegramBot {
 			const username = ctx.from?.username;
 			const firstName = ctx.from?.first_name;
 
-			ctx.reply(
-				dedent`
-					👤 *Your Telegram Info:*
+			this.replyRendered(
+				ctx,
+				dedentHtml`
+					👤 ${bold("Your Telegram Info:")}
 
-					**User ID:** \`${userId}\`
-					**Username:** ${username ? `@${username}` : "Not set"}
-					**Name:** ${firstName || "Not set"}
+					${bold("User ID:")} ${code(userId ?? "Unknown")}
+					${bold("Username:")} ${username ? `@${username}` : "Not set"}
+					${bold("Name:")} ${firstName || "Not set"}
 
-					💡 Use your User ID in the \`AUTHORIZED_USER_ID\` environment variable to restrict bot access to only you.
+					💡 Use your User ID in the ${code("AUTHORIZED_USER_ID")} environment variable to restrict bot access to only you.
 				`,
-				{ parse_mode: "Markdown" },
 			);
 		});
 
 		// Start command
 		this.bot.command("start", (ctx) => {
-			ctx.reply(
-				dedent`
-					🤖 *Welcome to IQ Agents Watcher!*
+			this.replyRendered(
+				ctx,
+				dedentHtml`
+					🤖 ${bold("Welcome to IQ Agents Watcher!")}
 
 					I'll help you monitor your IQ Agent investments and get notified about important changes.
 
 					Use /help to see all available commands.
 				`,
 				{
-					parse_mode: "Markdown",
 					...Markup.inlineKeyboard([
 						[Markup.button.callback("📊 Portfolio Status", "portfolio_status")],
 						[Markup.button.callback("⚙️ Settings", "settings")],
@@ -109,16 +190,16 @@ class IQAgentsTelegramBot {
 
 		// Help command with menu
 		this.bot.command("help", (ctx) => {
-			ctx.reply(
-				dedent`
-					🤖 *IQ Agents Watcher Bot - Help Menu*
+			this.replyRendered(
+				ctx,
+				dedentHtml`
+					🤖 ${bold("IQ Agents Watcher Bot - Help Menu")}
 
 					Welcome! I'll help you monitor your IQ Agent investments and get notified about important changes.
 
 					Choose a category below to learn more:
 				`,
 				{
-					parse_mode: "Markdown",
 					...Markup.inlineKeyboard([
 						[
 							Markup.button.callback(
@@ -145,45 +226,507 @@ class IQAgentsTelegramBot {
 		this.bot.command("portfolio", async (ctx) => {
 			try {
 				const loading = await ctx.reply("📊 Loading your portfolio...");
-				const { value, holdings } =
-					await this.holdingsWatcher.getCurrentHoldings();
+				const wallets = await this.holdingsWatcher.getWalletHoldings();
+				const holdings = this.holdingsWatcher.mergeHoldings(wallets);
+				const value = agentsApi.calculateHoldingsValue(holdings);
 
 				if (holdings.length === 0) {
 					await ctx.telegram.editMessageText(
 						ctx.chat?.id,
 						loading.message_id,
 						undefined,
-						"📊 No holdings found for your wallet address.",
+						wallets.length > 1
+							? "📊 No holdings found in any of your wallets."
+							: "📊 No holdings found for your wallet address.",
 					);
 					return;
 				}
 
-				let message = "💰 *Your Portfolio*\n\n";
-				message += `💵 Total Value: *${agentsApi.formatCurrency(value)}*\n\n`;
-				message += "📊 Holdings:\n";
+				const pnl = costBasis.calculatePnl(holdings);
+				const message: MessagePart[] = [html`💰 ${bold("Your Portfolio")}\n\n`];
+				message.push(
+					html`💵 Total Value: ${bold(agentsApi.formatCurrency(value))}${wallets.length > 1 ? ` across ${wallets.length} wallets` : ""}\n`,
+				);
+				if (pnl.totalCost > 0) {
+					message.push(
+						`💹 Unrealized P&L: ${costBasis.formatPnl(pnl.pnl, pnl.pnlPercentage)}\n`,
+					);
+					if (pnl.uncoveredValue > 0) {
+						message.push(
+							`   ℹ️ ${agentsApi.formatCurrency(pnl.uncoveredValue)} has no cost basis yet\n`,
+						);
+					}
+				}
+				message.push("\n");
+
+				if (wallets.length > 1) {
+					wallets.forEach((entry) => {
+						message.push(
+							html`👛 ${bold(entry.wallet.label)} (${this.formatAddress(entry.wallet.address)}): ${agentsApi.formatCurrency(entry.value)}\n`,
+						);
+						entry.holdings.forEach((holding) => {
+							const tokenValue =
+								parseFloat(holding.tokenAmount) * holding.currentPriceInUsd;
+							message.push(
+								`   • ${holding.name}: ${agentsApi.formatCurrency(tokenValue)}\n`,
+							);
+						});
+						message.push("\n");
+					});
+					message.push("📊 Combined Holdings:\n");
+				} else {
+					message.push("📊 Holdings:\n");
+				}
 
-				holdings.forEach((holding, index) => {
-					const tokenValue =
-						parseFloat(holding.tokenAmount) * holding.currentPriceInUsd;
-					message += `${index + 1}. *${holding.name}*\n`;
-					message += `   📊 Amount: ${agentsApi.formatTokenAmount(holding.tokenAmount)}\n`;
-					message += `   💰 Price: ${agentsApi.formatCurrency(holding.currentPriceInUsd)}\n`;
-					message += `   💵 Value: ${agentsApi.formatCurrency(tokenValue)}\n\n`;
+				pnl.holdings.forEach((entry, index) => {
+					const { holding } = entry;
+					message.push(html`${index + 1}. ${bold(holding.name)}\n`);
+					message.push(
+						`   📊 Amount: ${agentsApi.formatTokenAmount(holding.tokenAmount)}\n`,
+					);
+					message.push(
+						`   💰 Price: ${agentsApi.formatCurrency(holding.currentPriceInUsd)}\n`,
+					);
+					message.push(
+						`   💵 Value: ${agentsApi.formatCurrency(entry.value)}\n`,
+					);
+					if (entry.costBasis && entry.pnl !== null) {
+						message.push(
+							`   🧾 Cost Basis: ${agentsApi.formatCurrency(entry.costBasis.averageCost)}${entry.costBasis.source === "inferred" ? " (inferred)" : ""}\n`,
+						);
+						message.push(
+							`   💹 P&L: ${costBasis.formatPnl(entry.pnl, entry.pnlPercentage)}\n`,
+						);
+					}
+					message.push("\n");
 				});
 
-				await ctx.telegram.editMessageText(
-					ctx.chat?.id,
-					loading.message_id,
-					undefined,
-					message,
-					{ parse_mode: "Markdown" },
-				);
+				await this.editRendered(ctx, loading.message_id, message);
 			} catch (error) {
 				console.error("Error fetching portfolio:", error);
 				ctx.reply("❌ Error fetching portfolio. Please try again.");
 			}
 		});
 
+		// Portfolio value history from stored snapshots
+		this.bot.command("portfolio_history", (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const period = args[1] ?? "7d";
+			const periodMs = parseDuration(period);
+			if (periodMs === null) {
+				ctx.reply(
+					"❌ Usage: /portfolio_history [1d|7d|30d] [wallet]\nExample: /portfolio_history 30d treasury",
+				);
+				return;
+			}
+
+			const wallet = args[2] ? database.getWallet(args[2]) : null;
+			if (args[2] && !wallet) {
+				ctx.reply(
+					`❌ No wallet matching ${args[2]}. Use /wallet list to see wallets.`,
+				);
+				return;
+			}
+
+			const history = this.holdingsWatcher.getValueHistory(
+				Date.now() - periodMs,
+				wallet?.address,
+			);
+			if (history.length === 0) {
+				ctx.reply(
+					"📈 No portfolio snapshots in this period yet. Snapshots are recorded on every holdings check.",
+				);
+				return;
+			}
+
+			const first = history[0]!;
+			const last = history[history.length - 1]!;
+			const high = history.reduce((max, point) =>
+				point.value > max.value ? point : max,
+			);
+			const low = history.reduce((min, point) =>
+				point.value < min.value ? point : min,
+			);
+			const change = last.value - first.value;
+			const changePercentage = agentsApi.calculatePercentageChange(
+				first.value,
+				last.value,
+			);
+
+			const message: MessagePart[] = [
+				html`📈 ${bold(`Portfolio History (${period})`)}${wallet ? ` · ${wallet.label}` : ""}\n\n`,
+			];
+			message.push(`💵 Current: ${agentsApi.formatCurrency(last.value)}\n`);
+			message.push(`📊 Start: ${agentsApi.formatCurrency(first.value)}\n`);
+			message.push(
+				`🔄 Change: ${change > 0 ? "+" : ""}${agentsApi.formatCurrency(change)} (${changePercentage.toFixed(2)}%)\n`,
+			);
+			message.push(
+				`⬆️ High: ${agentsApi.formatCurrency(high.value)} - ${new Date(high.timestamp).toLocaleString()}\n`,
+			);
+			message.push(
+				`⬇️ Low: ${agentsApi.formatCurrency(low.value)} - ${new Date(low.timestamp).toLocaleString()}\n`,
+			);
+			message.push(`📸 Snapshots: ${history.length}\n\n`);
+
+			// Evenly spaced sample so long periods still fit in one message
+			const samples = Math.min(history.length, 12);
+			for (let i = 0; i < samples; i++) {
+				const index =
+					samples === 1
+						? 0
+						: Math.round((i * (history.length - 1)) / (samples - 1));
+				const point = history[index]!;
+				message.push(
+					`${agentsApi.formatCurrency(point.value)} - ${new Date(point.timestamp).toLocaleString()}\n`,
+				);
+			}
+
+			this.replyRendered(ctx, message);
+		});
+
+		// Portfolio performance compared with simply holding IQ
+		this.bot.command("performance", (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const period = args[1] ?? "7d";
+			const periodMs = parseDuration(period);
+			if (periodMs === null) {
+				ctx.reply(
+					"❌ Usage: /performance [1d|7d|30d|90d] [wallet]\nExample: /performance 30d treasury",
+				);
+				return;
+			}
+
+			const wallet = args[2] ? database.getWallet(args[2]) : null;
+			if (args[2] && !wallet) {
+				ctx.reply(
+					`❌ No wallet matching ${args[2]}. Use /wallet list to see wallets.`,
+				);
+				return;
+			}
+
+			const report = benchmark.calculate(
+				this.holdingsWatcher.getValueHistory(
+					Date.now() - periodMs,
+					wallet?.address,
+				),
+			);
+			if (!report) {
+				ctx.reply(
+					"📊 Not enough history yet. The report needs portfolio snapshots and IQ prices from the same period.",
+				);
+				return;
+			}
+
+			const { start, end } = report;
+			const sign = (value: number) => (value > 0 ? "+" : "");
+			const formatIq = (amount: number) =>
+				`${amount < 0 ? "-" : ""}${agentsApi.formatTokenAmount(Math.abs(amount).toString())} IQ`;
+			const iqChange = end.value / end.iqPrice - start.value / start.iqPrice;
+
+			const message: MessagePart[] = [
+				html`📊 ${bold(`Performance vs Holding IQ (${period})`)}${wallet ? ` · ${wallet.label}` : ""}\n`,
+			];
+			message.push(
+				`📅 ${new Date(start.timestamp).toLocaleString()} → ${new Date(end.timestamp).toLocaleString()}\n`,
+			);
+			if (report.skippedSnapshots > 0) {
+				message.push(
+					`⚠️ ${report.skippedSnapshots} snapshot(s) left out for lack of a recent IQ price\n`,
+				);
+			}
+			message.push("\n");
+
+			message.push(html`${bold("Portfolio:")}\n`);
+			message.push(
+				`💵 ${agentsApi.formatUsd(start.value)} → ${agentsApi.formatUsd(end.value)} (${sign(report.portfolioReturn)}${report.portfolioReturn.toFixed(2)}%)\n`,
+			);
+			message.push(
+				`🪙 ${formatIq(report.startValueInIq)} → ${formatIq(report.endValueInIq)} (${sign(iqChange)}${formatIq(iqChange)})\n\n`,
+			);
+
+			message.push(html`${bold("Holding IQ instead:")}\n`);
+			message.push(
+				`💵 ${agentsApi.formatUsd(start.benchmarkValue)} → ${agentsApi.formatUsd(end.benchmarkValue)} (${sign(report.benchmarkReturn)}${report.benchmarkReturn.toFixed(2)}%)\n`,
+			);
+			message.push(
+				`💱 IQ price: ${agentsApi.formatUsd(start.iqPrice)} → ${agentsApi.formatUsd(end.iqPrice)}\n\n`,
+			);
+
+			const difference = end.value - end.benchmarkValue;
+			message.push(
+				report.excessReturn >= 0
+					? `🏆 Beat IQ by ${report.excessReturn.toFixed(2)} points (${sign(difference)}${agentsApi.formatUsd(difference)})\n\n`
+					: `📉 Trailed IQ by ${Math.abs(report.excessReturn).toFixed(2)} points (${agentsApi.formatUsd(difference)})\n\n`,
+			);
+
+			message.push(html`${bold("Portfolio vs IQ position:")}\n`);
+			for (const point of report.points) {
+				message.push(
+					`${agentsApi.formatUsd(point.value)} vs ${agentsApi.formatUsd(point.benchmarkValue)} - ${new Date(point.timestamp).toLocaleString()}\n`,
+				);
+			}
+
+			message.push(
+				"\nℹ️ Deposits and withdrawals count as performance, so compare periods without transfers.",
+			);
+
+			this.replyRendered(ctx, message);
+		});
+
+		// Portfolio weights per agent and category, with concentration warnings
+		this.bot.command("allocation", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+
+			if (args[1]?.toLowerCase() === "limit") {
+				const value = args[2]?.toLowerCase();
+				const limit = value === "off" ? 0 : parseFloat(value ?? "");
+				if (Number.isNaN(limit) || limit < 0 || limit > 100) {
+					ctx.reply(
+						"❌ Usage: /allocation limit <percentage|off>\nExample: /allocation limit 40",
+					);
+					return;
+				}
+
+				this.holdingsWatcher.updateConfig({ concentrationLimit: limit });
+				ctx.reply(
+					limit > 0
+						? `✅ Concentration limit set to ${limit}%\n⚖️ You'll be alerted when one agent drifts above ${limit}% of the portfolio`
+						: "✅ Concentration alerts disabled.",
+				);
+				return;
+			}
+
+			if (args[1]) {
+				ctx.reply(
+					"❌ Usage: /allocation or /allocation limit <percentage|off>\nExample: /allocation limit 40",
+				);
+				return;
+			}
+
+			try {
+				const { holdings } = await this.holdingsWatcher.getCurrentHoldings();
+				const limit =
+					this.holdingsWatcher.getStatus().config.concentrationLimit;
+				const report = await allocation.calculateAllocation(holdings, limit);
+
+				if (report.totalValue <= 0) {
+					ctx.reply("⚖️ No holdings to allocate yet.");
+					return;
+				}
+
+				const flag = (weight: number) =>
+					limit > 0 && weight > limit ? " ⚠️" : "";
+				const message: MessagePart[] = [
+					html`⚖️ ${bold("Portfolio Allocation")}\n\n`,
+				];
+				message.push(
+					`💵 Total: ${agentsApi.formatCurrency(report.totalValue)}\n`,
+				);
+				message.push(
+					`🚧 Concentration limit: ${limit > 0 ? `${limit}%` : "Off"}\n\n`,
+				);
+
+				message.push(html`${bold("By agent:")}\n`);
+				for (const entry of report.agents) {
+					message.push(
+						`• ${entry.name}: ${entry.weight.toFixed(2)}% (${agentsApi.formatCurrency(entry.value)})${flag(entry.weight)}\n`,
+					);
+				}
+
+				message.push(html`\n${bold("By category:")}\n`);
+				for (const entry of report.categories) {
+					message.push(
+						`• ${entry.name}: ${entry.weight.toFixed(2)}% (${agentsApi.formatCurrency(entry.value)})${flag(entry.weight)}\n`,
+					);
+				}
+
+				if (report.concentrated.length > 0) {
+					message.push(
+						`\n⚠️ Above the ${limit}% limit: ${report.concentrated.map((entry) => entry.name).join(", ")}\n`,
+					);
+					message.push("Consider rebalancing your portfolio!");
+				} else if (limit > 0) {
+					message.push(`\n✅ No agent or category above the ${limit}% limit`);
+				}
+
+				this.replyRendered(ctx, message);
+			} catch (error) {
+				console.error("Error fetching allocation:", error);
+				ctx.reply("❌ Error fetching allocation. Please try again later.");
+			}
+		});
+
+		// Target weights and the trades that restore them (advice only, nothing is executed)
+		this.bot.command("rebalance", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase() ?? "plan";
+			const usage = dedent`
+				❌ Usage:
+				/rebalance [plan]
+				/rebalance target <address> <weight%>
+				/rebalance category <name> <weight%>
+				/rebalance remove <address|category>
+				/rebalance drift <points|off>
+
+				Example: /rebalance target 0x... 25
+			`;
+
+			if (action === "target" || action === "category") {
+				const weight = parseFloat(args[args.length - 1] ?? "");
+				const name = args.slice(2, -1).join(" ");
+				if (!name || Number.isNaN(weight) || weight < 0 || weight > 100) {
+					ctx.reply(usage);
+					return;
+				}
+
+				let target = name;
+				let targetName = name;
+				if (action === "target") {
+					try {
+						const agentInfo = await agentsApi.getAgentInfo(name);
+						target = agentInfo.tokenContract || name;
+						targetName = agentInfo.name;
+					} catch (error) {
+						console.error("Error fetching agent info:", error);
+						ctx.reply(
+							"❌ Could not find that agent. Please check the address.",
+						);
+						return;
+					}
+				}
+
+				const kind = action === "target" ? "token" : "category";
+				const allocated = allocation
+					.getTargets()
+					.filter(
+						(existing) =>
+							existing.kind === kind &&
+							existing.target.toLowerCase() !== target.toLowerCase(),
+					)
+					.reduce((sum, existing) => sum + existing.weight, 0);
+				if (allocated + weight > 100) {
+					ctx.reply(
+						`❌ ${kind === "token" ? "Token" : "Category"} targets would add up to ${allocated + weight}%. Keep them at or below 100%.`,
+					);
+					return;
+				}
+
+				allocation.setTarget(target, kind, targetName, weight);
+				ctx.reply(
+					`✅ Target for ${targetName} set to ${weight}% of the portfolio\n🎯 Use /rebalance to see the trades that get there`,
+				);
+				return;
+			}
+
+			if (action === "remove" && args[2]) {
+				const target = args.slice(2).join(" ");
+				if (!allocation.removeTarget(target)) {
+					ctx.reply(
+						`❌ No target for ${target}. Use /rebalance to see your targets.`,
+					);
+					return;
+				}
+
+				ctx.reply(`✅ Target for ${target} removed`);
+				return;
+			}
+
+			if (action === "drift" && args[2]) {
+				const value = args[2].toLowerCase();
+				const threshold = value === "off" ? 0 : parseFloat(value);
+				if (Number.isNaN(threshold) || threshold < 0 || threshold > 100) {
+					ctx.reply(usage);
+					return;
+				}
+
+				this.holdingsWatcher.updateConfig({
+					rebalanceDriftThreshold: threshold,
+				});
+				ctx.reply(
+					threshold > 0
+						? `✅ Drift alerts fire when a weight is more than ${threshold} points off its target`
+						: "✅ Drift alerts disabled.",
+				);
+				return;
+			}
+
+			if (action !== "plan") {
+				ctx.reply(usage);
+				return;
+			}
+
+			const targets = allocation.getTargets();
+			if (targets.length === 0) {
+				ctx.reply(
+					"🎯 No target allocation set. Use /rebalance target <address> <weight%> or /rebalance category <name> <weight%>.",
+				);
+				return;
+			}
+
+			try {
+				const loading = await ctx.reply("🔄 Calculating rebalancing trades...");
+				const { holdings } = await this.holdingsWatcher.getCurrentHoldings();
+				const plan = await allocation.calculateRebalance(holdings, targets);
+				const threshold =
+					this.holdingsWatcher.getStatus().config.rebalanceDriftThreshold;
+
+				const message: MessagePart[] = [
+					html`🎯 ${bold("Rebalancing Plan")}\n\n`,
+				];
+				message.push(
+					`💵 Total: ${agentsApi.formatCurrency(plan.totalValue)}${Math.abs(plan.netCash) >= 0.01 ? ` → ${agentsApi.formatCurrency(plan.totalAfterTrades)} after trades` : ""}\n`,
+				);
+				message.push(
+					`🚧 Drift limit: ${threshold > 0 ? `${threshold} points` : "Off"}\n\n`,
+				);
+
+				message.push(html`${bold("Targets:")}\n`);
+				for (const { target, currentWeight, drift } of plan.drifts) {
+					const flag = threshold > 0 && Math.abs(drift) > threshold ? " ⚠️" : "";
+					message.push(
+						`• ${target.name}${target.kind === "category" ? " (category)" : ""}: ${currentWeight.toFixed(2)}% → ${target.weight}% (${drift > 0 ? "+" : ""}${drift.toFixed(2)} pts)${flag}\n`,
+					);
+				}
+
+				message.push(html`\n${bold("Trades:")}\n`);
+				if (plan.trades.length === 0) {
+					message.push("✅ Already on target\n");
+				}
+				for (const trade of plan.trades) {
+					const amount = trade.amount.toLocaleString("en-US", {
+						maximumFractionDigits: 4,
+					});
+					message.push(
+						`${trade.side === "sell" ? "🔴 Sell" : "🟢 Buy"} ${amount} ${trade.name} ≈ ${agentsApi.formatCurrency(trade.value)} @ ${agentsApi.formatCurrency(trade.price)}\n`,
+					);
+				}
+
+				if (plan.trades.length > 0) {
+					message.push(
+						plan.netCash >= 0
+							? `\n💵 Net proceeds: ${agentsApi.formatCurrency(plan.netCash)}\n`
+							: `\n💵 Extra cash needed: ${agentsApi.formatCurrency(-plan.netCash)}\n`,
+					);
+				}
+				if (plan.unfilled.length > 0) {
+					message.push(
+						`⚠️ No untargeted holdings to trade in: ${plan.unfilled.join(", ")}\n`,
+					);
+				}
+				message.push(
+					"\nℹ️ Advice only, nothing is executed. Holdings without a target are left as they are.",
+				);
+
+				await this.editRendered(ctx, loading.message_id, message);
+			} catch (error) {
+				console.error("Error calculating rebalance:", error);
+				ctx.reply(
+					"❌ Error calculating rebalancing trades. Please try again later.",
+				);
+			}
+		});
+
 		// Set threshold command
 		this.bot.command("set_threshold", (ctx) => {
 			const args = ctx.message.text.split(" ");
@@ -260,64 +803,217 @@ class IQAgentsTelegramBot {
 			const iqStatus = this.iqPriceWatcher.getStatus();
 			const trackedTokens = this.priceWatcher.getTrackedTokens();
 
-			let message = "⚙️ *Current Configuration:*\n\n";
-
-			message += "*Holdings Monitoring:*\n";
-			message += `💰 USD Threshold: ${agentsApi.formatCurrency(holdingsStatus.config.thresholdUsd)}\n`;
-			message += `📊 Change Threshold: ${holdingsStatus.config.significantChangePercentage}%\n`;
-			message += `⏰ Check Interval: ${holdingsStatus.config.checkInterval}s\n`;
-			message += `🔄 Status: ${holdingsStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n\n`;
-
-			message += "*Price Monitoring:*\n";
-			message += `👁️ Tracked Tokens: ${priceStatus.trackedTokensCount}\n`;
-			message += `🔄 Status: ${priceStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n\n`;
-
-			message += "*IQ Token Monitoring:*\n";
-			message += `📊 Minor: ${iqStatus.config.minorThreshold}%, Major: ${iqStatus.config.majorThreshold}%, Critical: ${iqStatus.config.criticalThreshold}%\n`;
-			message += `⏰ Check Interval: ${iqStatus.config.checkInterval}s\n`;
-			message += `🔔 Alerts: ${
-				[
-					iqStatus.config.enableMinorAlerts ? "Minor" : "",
-					iqStatus.config.enableMajorAlerts ? "Major" : "",
-					iqStatus.config.enableCriticalAlerts ? "Critical" : "",
-				]
-					.filter(Boolean)
-					.join(", ") || "None"
-			}\n`;
-			message += `🔄 Status: ${iqStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n\n`;
+			const message: MessagePart[] = [
+				html`⚙️ ${bold("Current Configuration:")}\n\n`,
+			];
+
+			message.push(html`${bold("Holdings Monitoring:")}\n`);
+			message.push(
+				`💰 USD Threshold: ${agentsApi.formatUsd(holdingsStatus.config.thresholdUsd)}\n`,
+			);
+			message.push(
+				`📊 Change Threshold: ${holdingsStatus.config.significantChangePercentage}%\n`,
+			);
+			message.push(
+				`⏰ Check Interval: ${holdingsStatus.config.checkInterval}s\n`,
+			);
+			message.push(`👛 Wallets: ${database.getWallets().length}\n`);
+			message.push(
+				`⚖️ Concentration Limit: ${holdingsStatus.config.concentrationLimit > 0 ? `${holdingsStatus.config.concentrationLimit}%` : "Off"}\n`,
+			);
+			message.push(
+				`🎯 Allocation Targets: ${allocation.getTargets().length}, drift limit ${holdingsStatus.config.rebalanceDriftThreshold > 0 ? `${holdingsStatus.config.rebalanceDriftThreshold} points` : "Off"}\n`,
+			);
+			message.push(
+				`🔄 Status: ${holdingsStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n\n`,
+			);
+
+			message.push(html`${bold("Price Monitoring:")}\n`);
+			message.push(`👁️ Tracked Tokens: ${priceStatus.trackedTokensCount}\n`);
+			message.push(
+				`🔄 Status: ${priceStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n\n`,
+			);
+
+			message.push(html`${bold("IQ Token Monitoring:")}\n`);
+			message.push(
+				`📊 Minor: ${iqStatus.config.minorThreshold}%, Major: ${iqStatus.config.majorThreshold}%, Critical: ${iqStatus.config.criticalThreshold}%\n`,
+			);
+			message.push(`⏰ Check Interval: ${iqStatus.config.checkInterval}s\n`);
+			message.push(
+				`🔔 Alerts: ${
+					[
+						iqStatus.config.enableMinorAlerts ? "Minor" : "",
+						iqStatus.config.enableMajorAlerts ? "Major" : "",
+						iqStatus.config.enableCriticalAlerts ? "Critical" : "",
+					]
+						.filter(Boolean)
+						.join(", ") || "None"
+				}\n`,
+			);
+			message.push(
+				`🔄 Status: ${iqStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n\n`,
+			);
+
+			const scheduleStatus = this.notificationScheduler.getStatus();
+			message.push(html`${bold("Notifications:")}\n`);
+			message.push(
+				`🌙 Quiet Hours: ${scheduleStatus.config.enabled ? `${scheduleStatus.config.start}-${scheduleStatus.config.end} (${scheduleStatus.config.timezone})` : "Off"}\n`,
+			);
+			message.push(
+				`😴 Snoozed: ${scheduleStatus.snoozes.map((snooze) => (snooze.target === IQ_TOKEN_CONTRACT ? "IQ" : snooze.target)).join(", ") || "None"}\n`,
+			);
+			message.push(`📰 Digest: ${this.formatDigestSchedule()}\n`);
+			message.push(
+				`💱 Display Currency: ${agentsApi.getDisplayCurrency().toUpperCase()}\n`,
+			);
+			message.push(
+				`📣 Channels: ${this.notifier
+					.getChannels()
+					.map((channel) => `${channel.name} (${channel.minSeverity}+)`)
+					.join(", ")}\n`,
+			);
+			const webhookUrl = this.alertWebhook.getStatus().config.url;
+			message.push(
+				`🪝 Alert Webhook: ${webhookUrl ? this.formatChannelTarget(webhookUrl) : "Off"}\n`,
+			);
+			message.push(
+				`📝 Custom Templates: ${ALERT_TEMPLATE_TYPES.filter((type) => alertTemplates.isCustom(type)).join(", ") || "None"}\n\n`,
+			);
+
+			const governorStatus = this.alertGovernor.getStatus();
+			message.push(html`${bold("Alert Governor:")}\n`);
+			message.push(
+				`⏳ Cooldown: ${governorStatus.config.cooldownMinutes}m, 📏 Re-arm band: ${governorStatus.config.rearmBandPercentage}%, 🧹 Duplicates: ${governorStatus.config.dedupMinutes}m\n\n`,
+			);
 
 			if (trackedTokens.length > 0) {
-				message += "*Tracked Tokens Configuration:*\n";
+				message.push(html`${bold("Tracked Tokens Configuration:")}\n`);
 				trackedTokens.slice(0, 5).forEach((token, index) => {
-					message += `${index + 1}. *${token.tokenName}*\n`;
-					message += `   📊 Minor: ${token.config.thresholds.minor}%, Major: ${token.config.thresholds.major}%, Critical: ${token.config.thresholds.critical}%\n`;
-					message += `   🔔 Alerts: ${
-						[
-							token.config.enableMinorAlerts ? "Minor" : "",
-							token.config.enableMajorAlerts ? "Major" : "",
-							token.config.enableCriticalAlerts ? "Critical" : "",
-						]
-							.filter(Boolean)
-							.join(", ") || "None"
-					}\n`;
-					message += `   ⏰ Interval: ${token.config.checkInterval}s\n\n`;
+					message.push(html`${index + 1}. ${bold(token.tokenName)}\n`);
+					message.push(
+						`   📊 Minor: ${token.config.thresholds.minor}%, Major: ${token.config.thresholds.major}%, Critical: ${token.config.thresholds.critical}%\n`,
+					);
+					message.push(
+						`   🔔 Alerts: ${
+							[
+								token.config.enableMinorAlerts ? "Minor" : "",
+								token.config.enableMajorAlerts ? "Major" : "",
+								token.config.enableCriticalAlerts ? "Critical" : "",
+							]
+								.filter(Boolean)
+								.join(", ") || "None"
+						}\n`,
+					);
+					message.push(
+						`   ⏱️ Windows: ${token.config.alertWindows.join(", ") || "Last poll"}\n`,
+					);
+					if (token.config.adaptiveMode) {
+						message.push(
+							`   📐 Adaptive: ${token.config.sigmaThreshold}σ over ${token.config.volatilityWindow} checks\n`,
+						);
+					}
+					if (token.config.alertBasis === "agent") {
+						message.push(`   🧮 Basis: agent price in IQ\n`);
+					}
+					message.push(`   ⏰ Interval: ${token.config.checkInterval}s\n\n`);
 				});
 				if (trackedTokens.length > 5) {
-					message += `   ... and ${trackedTokens.length - 5} more tokens\n\n`;
+					message.push(
+						`   ... and ${trackedTokens.length - 5} more tokens\n\n`,
+					);
 				}
 			}
 
-			message += "*Configuration Commands:*\n";
-			message += `💰 /set_threshold <amount> - Set USD threshold\n`;
-			message += `📊 /set_change_threshold <percentage> - Set change threshold\n`;
-			message += `⏰ /set_interval <seconds> - Set monitoring interval\n`;
-			message += `🎯 /watch_config <address> <threshold> [interval] - Configure token watching\n`;
-			message += `🔧 /watch_advanced <address> <minor%> <major%> <critical%> [interval] - Advanced token configuration\n`;
-			message += `🔔 /alert_config <address> <minor:on/off> <major:on/off> <critical:on/off> - Configure alert types\n`;
-			message += `🪙 /iq_config <minor%> <major%> <critical%> [interval] - Configure IQ monitoring\n`;
-			message += `🔔 /iq_alerts <minor:on/off> <major:on/off> <critical:on/off> - Configure IQ alerts\n`;
+			message.push(html`${bold("Configuration Commands:")}\n`);
+			message.push(`💰 /set_threshold <amount> - Set USD threshold\n`);
+			message.push(
+				`📊 /set_change_threshold <percentage> - Set change threshold\n`,
+			);
+			message.push(`⏰ /set_interval <seconds> - Set monitoring interval\n`);
+			message.push(`👛 /wallet add|remove|list - Manage monitored wallets\n`);
+			message.push(
+				`🧾 /cost_basis list|set|remove|export - Manage cost basis for P&L\n`,
+			);
+			message.push(
+				`📈 /portfolio_history [1d|7d|30d] [wallet] - Portfolio value over time\n`,
+			);
+			message.push(
+				`📊 /performance [1d|7d|30d|90d] [wallet] - Portfolio performance vs holding IQ\n`,
+			);
+			message.push(
+				`⚖️ /allocation limit <percentage|off> - Alert when one agent exceeds this share of the portfolio\n`,
+			);
+			message.push(
+				`🎯 /rebalance target|category|remove|drift - Target weights and rebalancing trades\n`,
+			);
+			message.push(
+				`🎯 /watch_config <address> <threshold> [interval] - Configure token watching\n`,
+			);
+			message.push(
+				`🔧 /watch_advanced <address> <minor%> <major%> <critical%> [interval] - Advanced token configuration\n`,
+			);
+			message.push(
+				`🔔 /alert_config <address> <minor:on/off> <major:on/off> <critical:on/off> - Configure alert types\n`,
+			);
+			message.push(
+				`⏱️ /watch_windows <address> <15m,1h,24h|off> - Alert on change over rolling windows\n`,
+			);
+			message.push(
+				`📐 /watch_adaptive <address> <sigma|off> [samples] - Volatility-adjusted thresholds\n`,
+			);
+			message.push(
+				`🧮 /alert_basis <address> <usd|agent> - Alert on the USD move or the agent-specific move only\n`,
+			);
+			message.push(
+				`🎯 /target <address|iq> <above|below> <price> [once|rearm] - Set a price target\n`,
+			);
+			message.push(
+				`📉 /trailing <address> <drawdown|rebound|both> <percentage> [lookback] - Trailing-stop alerts\n`,
+			);
+			message.push(
+				`🤖 /trailing_auto <percentage|off> - Auto-arm trailing alerts for held tokens\n`,
+			);
+			message.push(
+				`📊 /metric_alert <address> <metric> <condition> <value> [window] - Alert on market cap, holders or inferences\n`,
+			);
+			message.push(
+				`🧩 /rule add <name> <address|all> <expression> - Define a custom alert rule\n`,
+			);
+			message.push(
+				`🪙 /iq_config <minor%> <major%> <critical%> [interval] - Configure IQ monitoring\n`,
+			);
+			message.push(
+				`🔔 /iq_alerts <minor:on/off> <major:on/off> <critical:on/off> - Configure IQ alerts\n`,
+			);
+			message.push(
+				`🔇 /alert_governor <cooldown_min> <rearm_band%> [dedup_min] - Configure alert flood control\n`,
+			);
+			message.push(
+				`🌙 /quiet_hours <start> <end> [timezone] - Hold non-critical alerts overnight\n`,
+			);
+			message.push(
+				`📰 /digest on|off|time|daily|weekly|sections|now - Scheduled portfolio digest\n`,
+			);
+			message.push(
+				`💱 /currency <usd|iq|both> - Show values in USD, IQ or both\n`,
+			);
+			message.push(
+				`📣 /channel add|remove|severity|test - Send alerts to Discord, Slack, email or a webhook\n`,
+			);
+			message.push(
+				`🪝 /webhook set|off|secret|test|log - Signed JSON webhook with the full alert objects\n`,
+			);
+			message.push(
+				`📝 /template set|preview|reset <type> - Customize alert messages with placeholders\n`,
+			);
+			message.push(
+				`🚨 /ack_config <minutes> <max_reminders> - Escalate unacknowledged critical alerts\n`,
+			);
+			message.push(
+				`😴 /snooze <token|iq|all> <duration> - Temporarily mute alerts\n`,
+			);
 
-			ctx.reply(message, { parse_mode: "Markdown" });
+			this.replyRendered(ctx, message);
 		});
 
 		// Enhanced watch command with configuration options
@@ -504,164 +1200,1629 @@ class IQAgentsTelegramBot {
 			}
 		});
 
-		// IQ price monitoring commands
-		this.bot.command("start_iq", async (ctx) => {
-			try {
-				await this.iqPriceWatcher.start();
-				ctx.reply("✅ IQ token price monitoring started!");
-			} catch (error) {
-				console.error("Error starting IQ price watcher:", error);
-				ctx.reply("❌ Error starting IQ price monitoring.");
-			}
-		});
+		// Configure rolling time windows for a token
+		this.bot.command("watch_windows", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 3) {
+				ctx.reply(
+					"❌ Usage: /watch_windows <token_address> <windows|off>\nExample: /watch_windows 0x... 15m,1h,24h",
+				);
+				return;
+			}
+
+			const tokenAddress = args[1]!;
+			const windows =
+				args[2]!.toLowerCase() === "off"
+					? []
+					: args[2]!.split(",").map((window) => window.trim().toLowerCase());
+
+			const invalid = windows.filter((window) => {
+				const ms = parseDuration(window);
+				return ms === null || ms < 60 * 1000 || ms > 30 * 24 * 60 * 60 * 1000;
+			});
+			if (invalid.length > 0) {
+				ctx.reply(
+					`❌ Invalid window(s): ${invalid.join(", ")}\nUse durations between 1m and 30d, e.g. 15m, 1h, 24h, 7d.`,
+				);
+				return;
+			}
 
-		this.bot.command("stop_iq", async (ctx) => {
 			try {
-				await this.iqPriceWatcher.stop();
-				ctx.reply("⏹️ IQ token price monitoring stopped!");
+				this.priceWatcher.updateTokenWindows(tokenAddress, windows);
+				ctx.reply(
+					windows.length > 0
+						? `✅ Alert windows updated!\n⏱️ Windows: ${windows.join(", ")}\n📊 Tier thresholds now apply to the change over each window.`
+						: "✅ Alert windows cleared. Alerts compare against the previous check again.",
+				);
 			} catch (error) {
-				console.error("Error stopping IQ price watcher:", error);
-				ctx.reply("❌ Error stopping IQ price monitoring.");
+				console.error("Error configuring alert windows:", error);
+				ctx.reply(
+					"❌ Error configuring alert windows. Please check the token address.",
+				);
 			}
 		});
 
-		// Configure IQ price thresholds
-		this.bot.command("iq_config", (ctx) => {
+		this.bot.command("watch_adaptive", (ctx) => {
 			const args = ctx.message.text.split(" ");
-			if (args.length < 4) {
+			if (args.length < 3) {
 				ctx.reply(
-					"❌ Usage: /iq_config <minor%> <major%> <critical%> [interval_seconds]\nExample: /iq_config 2 10 20 60",
+					"❌ Usage: /watch_adaptive <token_address> <sigma|off> [samples]\nExample: /watch_adaptive 0x... 3 50",
 				);
 				return;
 			}
 
-			const minorThreshold = parseFloat(args[1]!);
-			const majorThreshold = parseFloat(args[2]!);
-			const criticalThreshold = parseFloat(args[3]!);
-			const interval = args[4] ? parseInt(args[4]) : undefined;
+			const tokenAddress = args[1]!;
+			const tracked = this.priceWatcher.getTokenStatus(tokenAddress);
+			if (!tracked) {
+				ctx.reply(
+					"❌ This token is not being watched. Use /watch <token_address> first.",
+				);
+				return;
+			}
 
-			if (
-				Number.isNaN(minorThreshold) ||
-				minorThreshold <= 0 ||
-				minorThreshold > 100
-			) {
+			if (args[2]!.toLowerCase() === "off") {
+				this.priceWatcher.updateTokenAdaptive(tokenAddress, {
+					adaptiveMode: false,
+					sigmaThreshold: tracked.config.sigmaThreshold,
+					volatilityWindow: tracked.config.volatilityWindow,
+				});
 				ctx.reply(
-					"❌ Please provide a valid minor threshold percentage between 0-100.",
+					`✅ Adaptive mode turned off for ${tracked.config.tokenName}. Fixed percentage thresholds apply again.`,
 				);
 				return;
 			}
 
+			const sigmaThreshold = parseFloat(args[2]!);
+			const volatilityWindow = args[3]
+				? parseInt(args[3])
+				: tracked.config.volatilityWindow;
+
+			if (Number.isNaN(sigmaThreshold) || sigmaThreshold <= 0) {
+				ctx.reply("❌ Please provide a valid sigma threshold, e.g. 3.");
+				return;
+			}
+
 			if (
-				Number.isNaN(majorThreshold) ||
-				majorThreshold <= minorThreshold ||
-				majorThreshold > 100
+				Number.isNaN(volatilityWindow) ||
+				volatilityWindow < 10 ||
+				volatilityWindow > 1000
 			) {
+				ctx.reply("❌ Samples must be between 10 and 1000 price checks.");
+				return;
+			}
+
+			this.priceWatcher.updateTokenAdaptive(tokenAddress, {
+				adaptiveMode: true,
+				sigmaThreshold,
+				volatilityWindow,
+			});
+			ctx.reply(
+				`✅ Adaptive mode enabled for ${tracked.config.tokenName}!\n📐 Alert when a move exceeds ${sigmaThreshold}σ of the last ${volatilityWindow} price checks\n🟡 ${sigmaThreshold}σ medium · 🟠 ${sigmaThreshold * 1.5}σ high · 🔴 ${sigmaThreshold * 2}σ critical\n\nℹ️ Fixed thresholds are used until at least 10 checks of history exist.`,
+			);
+		});
+
+		this.bot.command("alert_basis", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			const basis = args[2]?.toLowerCase();
+			if (args.length < 3 || (basis !== "usd" && basis !== "agent")) {
 				ctx.reply(
-					"❌ Please provide a valid major threshold percentage greater than minor threshold.",
+					"❌ Usage: /alert_basis <token_address> <usd|agent>\nExample: /alert_basis 0x... agent",
 				);
 				return;
 			}
 
-			if (
-				Number.isNaN(criticalThreshold) ||
-				criticalThreshold <= majorThreshold ||
-				criticalThreshold > 100
-			) {
+			const tokenAddress = args[1]!;
+			const tracked = this.priceWatcher.getTokenStatus(tokenAddress);
+			if (!tracked) {
 				ctx.reply(
-					"❌ Please provide a valid critical threshold percentage greater than major threshold.",
+					"❌ This token is not being watched. Use /watch <token_address> first.",
 				);
 				return;
 			}
 
-			if (
-				interval &&
-				(Number.isNaN(interval) || interval < 30 || interval > 3600)
-			) {
+			this.priceWatcher.updateTokenAlertBasis(tokenAddress, basis);
+			ctx.reply(
+				basis === "agent"
+					? `✅ ${tracked.config.tokenName} now alerts on its own price in IQ only.\n🧮 Moves caused by the IQ/USD rate are shown in alerts but no longer trigger them.\n\nℹ️ Alerts start once IQ-denominated history has been recorded.`
+					: `✅ ${tracked.config.tokenName} alerts on the full USD price move again.`,
+			);
+		});
+
+		// Absolute price targets
+		this.bot.command("target", async (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 4) {
 				ctx.reply(
-					"❌ Please provide a valid interval between 30-3600 seconds.",
+					"❌ Usage: /target <token_address|iq> <above|below> <price_usd> [once|rearm]\nExample: /target 0x... above 0.0042 rearm",
 				);
 				return;
 			}
 
-			const config: any = {
-				minorThreshold,
-				majorThreshold,
-				criticalThreshold,
-			};
+			const isIQ = args[1]!.toLowerCase() === "iq";
+			const tokenAddress = isIQ ? IQ_TOKEN_CONTRACT : args[1]!;
+			const direction = args[2]!.toLowerCase();
+			const targetPrice = parseFloat(args[3]!);
+			const mode = (args[4] || "once").toLowerCase();
 
-			if (interval) {
-				config.checkInterval = interval;
+			if (direction !== "above" && direction !== "below") {
+				ctx.reply("❌ Direction must be either above or below.");
+				return;
 			}
 
-			this.iqPriceWatcher.updateConfig(config);
+			if (Number.isNaN(targetPrice) || targetPrice <= 0) {
+				ctx.reply("❌ Please provide a valid target price in USD.");
+				return;
+			}
 
-			const timeStr = interval
-				? interval >= 60
-					? `${Math.floor(interval / 60)}m`
-					: `${interval}s`
-				: "unchanged";
+			if (mode !== "once" && mode !== "rearm") {
+				ctx.reply("❌ Mode must be either once or rearm.");
+				return;
+			}
+
+			const tracked = isIQ
+				? null
+				: this.priceWatcher.getTokenStatus(tokenAddress);
+			if (!isIQ && !tracked) {
+				ctx.reply(
+					"❌ This token is not being watched. Use /watch <token_address> first.",
+				);
+				return;
+			}
+
+			try {
+				const currentPrice = isIQ
+					? await this.iqPriceWatcher.getCurrentIQPrice()
+					: await this.priceWatcher.getCurrentPrice(tokenAddress);
+				const target = priceTargets.addTarget(
+					tokenAddress,
+					isIQ ? IQ_TOKEN_NAME : tracked!.config.tokenName,
+					direction,
+					targetPrice,
+					currentPrice,
+					mode === "rearm",
+				);
+
+				// The IQ price is always shown in USD
+				const formatPrice = (price: number) =>
+					isIQ ? agentsApi.formatUsd(price) : agentsApi.formatCurrency(price);
+				ctx.reply(
+					`✅ Price target #${target.id} set for ${target.tokenName}\n🎯 Alert when price goes ${direction} ${formatPrice(targetPrice)}\n💰 Current price: ${formatPrice(currentPrice)}\n🔁 Mode: ${mode === "rearm" ? "Re-arms after price crosses back" : "Fires once"}${target.isArmed ? "" : "\n⏳ Price is already past the target; it arms once price crosses back."}`,
+				);
+			} catch (error) {
+				console.error("Error adding price target:", error);
+				ctx.reply("❌ Error adding price target. Please try again.");
+			}
+		});
+
+		this.bot.command("targets", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			const filter = args[1]
+				? args[1].toLowerCase() === "iq"
+					? IQ_TOKEN_CONTRACT
+					: args[1]
+				: undefined;
+			const targets = priceTargets.getTargets(filter);
+
+			if (targets.length === 0) {
+				ctx.reply("🎯 No active price targets.");
+				return;
+			}
+
+			const message: MessagePart[] = [
+				html`🎯 ${bold("Active Price Targets:")}\n\n`,
+			];
+			targets.forEach((target) => {
+				message.push(
+					html`#${target.id!} ${bold(target.tokenName)} ${target.direction} ${target.tokenContract === IQ_TOKEN_CONTRACT ? agentsApi.formatUsd(target.targetPrice) : agentsApi.formatCurrency(target.targetPrice)}\n`,
+				);
+				message.push(
+					`   ${target.isArmed ? "🟢 Armed" : "⏳ Waiting to re-arm"} · ${target.rearm ? "🔁 Re-arming" : "1️⃣ Once"}\n`,
+				);
+				if (target.lastTriggeredAt) {
+					message.push(
+						`   ⏰ Last hit: ${new Date(target.lastTriggeredAt).toLocaleString()}\n`,
+					);
+				}
+				message.push("\n");
+			});
+
+			this.replyRendered(ctx, message);
+		});
+
+		this.bot.command("untarget", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				ctx.reply("❌ Usage: /untarget <target_id>\nExample: /untarget 3");
+				return;
+			}
+
+			const id = parseInt(args[1]!.replace("#", ""));
+			if (Number.isNaN(id)) {
+				ctx.reply("❌ Please provide a valid target ID from /targets.");
+				return;
+			}
+
+			if (priceTargets.removeTarget(id)) {
+				ctx.reply(`✅ Price target #${id} removed`);
+			} else {
+				ctx.reply(`❌ No active price target with ID #${id}.`);
+			}
+		});
+
+		// Drawdown-from-peak and rebound-from-trough alerts
+		this.bot.command("trailing", async (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 4) {
+				ctx.reply(
+					"❌ Usage: /trailing <token_address> <drawdown|rebound|both> <percentage> [lookback]\nExample: /trailing 0x... drawdown 15\nExample: /trailing 0x... both 10 7d",
+				);
+				return;
+			}
+
+			const tokenAddress = args[1]!;
+			const kind = args[2]!.toLowerCase();
+			const percentage = parseFloat(args[3]!);
+			const lookback = args[4] || null;
+
+			if (kind !== "drawdown" && kind !== "rebound" && kind !== "both") {
+				ctx.reply("❌ Type must be drawdown, rebound or both.");
+				return;
+			}
+
+			if (Number.isNaN(percentage) || percentage <= 0 || percentage >= 100) {
+				ctx.reply("❌ Percentage must be between 0 and 100.");
+				return;
+			}
+
+			if (lookback && parseDuration(lookback) === null) {
+				ctx.reply("❌ Please provide a valid lookback, e.g. 24h or 7d.");
+				return;
+			}
+
+			const tracked = this.priceWatcher.getTokenStatus(tokenAddress);
+			const holding = tracked
+				? undefined
+				: (
+						await this.holdingsWatcher.getCurrentHoldings().catch(() => null)
+					)?.holdings.find((h) => h.tokenContract === tokenAddress);
+			if (!tracked && !holding) {
+				ctx.reply(
+					"❌ This token is neither watched nor held. Use /watch <token_address> first.",
+				);
+				return;
+			}
+
+			// Only watched tokens have price history to look back over
+			if (lookback && !tracked) {
+				ctx.reply(
+					"❌ A lookback needs price history. Use /watch <token_address> first, or leave out the lookback to track the peak from now on.",
+				);
+				return;
+			}
+
+			try {
+				const tokenName = tracked ? tracked.config.tokenName : holding!.name;
+				const currentPrice = tracked
+					? await this.priceWatcher.getCurrentPrice(tokenAddress)
+					: holding!.currentPriceInUsd;
+				const kinds =
+					kind === "both"
+						? (["drawdown", "rebound"] as const)
+						: ([kind] as const);
+
+				let message = `✅ Trailing alerts set for ${tokenName}\n💰 Current price: ${agentsApi.formatCurrency(currentPrice)}\n\n`;
+				for (const alertKind of kinds) {
+					const alert = trailingAlerts.addAlert(
+						tokenAddress,
+						tokenName,
+						alertKind,
+						percentage,
+						lookback,
+						currentPrice,
+					);
+					message += `#${alert.id} ${alertKind === "drawdown" ? `📉 Alert when price drops ${percentage}% below its peak` : `📈 Alert when price rises ${percentage}% above its trough`} ${lookback ? `over the last ${lookback}` : "since now"}\n`;
+				}
+
+				ctx.reply(message);
+			} catch (error) {
+				console.error("Error adding trailing alert:", error);
+				ctx.reply("❌ Error adding trailing alert. Please try again.");
+			}
+		});
+
+		this.bot.command("trailing_alerts", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			const alerts = trailingAlerts.getAlerts(args[1]);
+
+			if (alerts.length === 0) {
+				ctx.reply("📉 No active trailing alerts.");
+				return;
+			}
+
+			const message: MessagePart[] = [
+				html`📉 ${bold("Active Trailing Alerts:")}\n\n`,
+			];
+			alerts.forEach((alert) => {
+				message.push(
+					html`#${alert.id!} ${bold(alert.tokenName)} ${alert.kind} ${alert.percentage}%${alert.autoArmed ? " (auto)" : ""}\n`,
+				);
+				message.push(
+					`   ${alert.kind === "drawdown" ? "🏔️ Peak" : "🕳️ Trough"}: ${alert.lookback ? `over last ${alert.lookback}` : agentsApi.formatCurrency(alert.extremePrice)} · ${alert.isArmed ? "🟢 Armed" : "⏳ Waiting to re-arm"}\n`,
+				);
+				if (alert.lastTriggeredAt) {
+					message.push(
+						`   ⏰ Last hit: ${new Date(alert.lastTriggeredAt).toLocaleString()}\n`,
+					);
+				}
+				message.push("\n");
+			});
+
+			this.replyRendered(ctx, message);
+		});
+
+		this.bot.command("untrailing", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				ctx.reply("❌ Usage: /untrailing <alert_id>\nExample: /untrailing 3");
+				return;
+			}
+
+			const id = parseInt(args[1]!.replace("#", ""));
+			if (Number.isNaN(id)) {
+				ctx.reply("❌ Please provide a valid alert ID from /trailing_alerts.");
+				return;
+			}
+
+			if (trailingAlerts.removeAlert(id)) {
+				ctx.reply(`✅ Trailing alert #${id} removed`);
+			} else {
+				ctx.reply(`❌ No active trailing alert with ID #${id}.`);
+			}
+		});
+
+		this.bot.command("trailing_auto", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				const current =
+					this.holdingsWatcher.getStatus().config.trailingAutoArmPercentage;
+				ctx.reply(
+					`❌ Usage: /trailing_auto <percentage|off>\nExample: /trailing_auto 15\n\n📉 Currently: ${current > 0 ? `${current}% drawdown and rebound alerts for every held token` : "off"}`,
+				);
+				return;
+			}
+
+			if (args[1]!.toLowerCase() === "off") {
+				this.holdingsWatcher.updateConfig({ trailingAutoArmPercentage: 0 });
+				ctx.reply("✅ Auto-armed trailing alerts turned off and removed.");
+				return;
+			}
+
+			const percentage = parseFloat(args[1]!);
+			if (Number.isNaN(percentage) || percentage <= 0 || percentage >= 100) {
+				ctx.reply("❌ Percentage must be between 0 and 100.");
+				return;
+			}
+
+			this.holdingsWatcher.updateConfig({
+				trailingAutoArmPercentage: percentage,
+			});
 			ctx.reply(
-				`✅ IQ price monitoring configured!\n📊 Minor: ${minorThreshold}%, Major: ${majorThreshold}%, Critical: ${criticalThreshold}%\n⏰ Interval: ${timeStr}`,
+				`✅ Every token in your wallet will get ${percentage}% drawdown and rebound alerts on the next holdings check.`,
 			);
 		});
 
-		// Configure IQ price alerts
-		this.bot.command("iq_alerts", (ctx) => {
+		// Market cap, holders and inference alerts
+		this.bot.command("metric_alert", async (ctx) => {
 			const args = ctx.message.text.split(" ");
 			if (args.length < 4) {
 				ctx.reply(
-					"❌ Usage: /iq_alerts <minor:on/off> <major:on/off> <critical:on/off>\nExample: /iq_alerts on off on",
+					dedent`
+						❌ Usage:
+						/metric_alert <token_address> <mcap|holders|inferences|change24h> <above|below> <value>
+						/metric_alert <token_address> <metric> <rise|drop> <amount> <window>
+						/metric_alert <token_address> <metric> stall <window>
+
+						Examples:
+						/metric_alert 0x... mcap above 1000000
+						/metric_alert 0x... holders rise 50 1d
+						/metric_alert 0x... inferences stall 24h
+					`,
 				);
 				return;
 			}
 
-			const minorEnabled = args[1]!.toLowerCase() === "on";
-			const majorEnabled = args[2]!.toLowerCase() === "on";
-			const criticalEnabled = args[3]!.toLowerCase() === "on";
+			const tokenAddress = args[1]!;
+			const metric = metricAlerts.parseMetric(args[2]!);
+			const condition = args[3]!.toLowerCase();
 
-			this.iqPriceWatcher.updateConfig({
-				enableMinorAlerts: minorEnabled,
-				enableMajorAlerts: majorEnabled,
-				enableCriticalAlerts: criticalEnabled,
-			});
+			if (!metric) {
+				ctx.reply(
+					"❌ Metric must be one of mcap, holders, inferences or change24h.",
+				);
+				return;
+			}
 
-			const enabledAlerts: string[] = [];
-			if (minorEnabled) enabledAlerts.push("Minor");
-			if (majorEnabled) enabledAlerts.push("Major");
-			if (criticalEnabled) enabledAlerts.push("Critical");
+			if (
+				condition !== "above" &&
+				condition !== "below" &&
+				condition !== "rise" &&
+				condition !== "drop" &&
+				condition !== "stall"
+			) {
+				ctx.reply("❌ Condition must be above, below, rise, drop or stall.");
+				return;
+			}
+
+			const value = condition === "stall" ? 0 : parseFloat(args[4] || "");
+			const lookback =
+				condition === "stall"
+					? args[4]
+					: condition === "rise" || condition === "drop"
+						? args[5]
+						: undefined;
+
+			if (
+				Number.isNaN(value) ||
+				(condition !== "stall" &&
+					condition !== "above" &&
+					condition !== "below" &&
+					value <= 0)
+			) {
+				ctx.reply("❌ Please provide a valid value.");
+				return;
+			}
+
+			if (
+				(condition === "rise" ||
+					condition === "drop" ||
+					condition === "stall") &&
+				(!lookback || parseDuration(lookback) === null)
+			) {
+				ctx.reply("❌ Please provide a valid window, e.g. 1h, 24h or 7d.");
+				return;
+			}
+
+			const tracked = this.priceWatcher.getTokenStatus(tokenAddress);
+			if (!tracked) {
+				ctx.reply(
+					"❌ This token is not being watched. Use /watch <token_address> first.",
+				);
+				return;
+			}
+
+			try {
+				const stats = await agentsApi.getAgentStats(tokenAddress);
+				const alert = metricAlerts.addAlert(
+					tokenAddress,
+					tracked.config.tokenName,
+					metric,
+					condition,
+					value,
+					lookback || null,
+					stats,
+				);
+
+				ctx.reply(
+					`✅ Metric alert #${alert.id} set for ${alert.tokenName}\n🎯 Alert when ${metricAlerts.describeCondition(alert)}\n📊 Current value: ${metricAlerts.formatValue(metric, stats[metric])}${alert.isArmed ? "" : "\n⏳ The level is already crossed; it arms once the metric crosses back."}`,
+				);
+			} catch (error) {
+				console.error("Error adding metric alert:", error);
+				ctx.reply("❌ Error adding metric alert. Please try again.");
+			}
+		});
+
+		this.bot.command("metric_alerts", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			const alerts = metricAlerts.getAlerts(args[1]);
+
+			if (alerts.length === 0) {
+				ctx.reply("📊 No active metric alerts.");
+				return;
+			}
+
+			const message: MessagePart[] = [
+				html`📊 ${bold("Active Metric Alerts:")}\n\n`,
+			];
+			alerts.forEach((alert) => {
+				message.push(
+					html`#${alert.id!} ${bold(alert.tokenName)} ${metricAlerts.describeCondition(alert)}\n`,
+				);
+				message.push(
+					`   ${alert.isArmed ? "🟢 Armed" : "⏳ Waiting to re-arm"}\n`,
+				);
+				if (alert.lastTriggeredAt) {
+					message.push(
+						`   ⏰ Last hit: ${new Date(alert.lastTriggeredAt).toLocaleString()}\n`,
+					);
+				}
+				message.push("\n");
+			});
+
+			this.replyRendered(ctx, message);
+		});
+
+		this.bot.command("unmetric_alert", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				ctx.reply(
+					"❌ Usage: /unmetric_alert <alert_id>\nExample: /unmetric_alert 3",
+				);
+				return;
+			}
+
+			const id = parseInt(args[1]!.replace("#", ""));
+			if (Number.isNaN(id)) {
+				ctx.reply("❌ Please provide a valid alert ID from /metric_alerts.");
+				return;
+			}
+
+			if (metricAlerts.removeAlert(id)) {
+				ctx.reply(`✅ Metric alert #${id} removed`);
+			} else {
+				ctx.reply(`❌ No active metric alert with ID #${id}.`);
+			}
+		});
+
+		// User-defined alert rules
+		this.bot.command("rule", (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase();
+			const usage = dedent`
+				❌ Usage:
+				/rule add <name> <token_address|all> [low|medium|high|critical] <expression>
+				/rule list
+				/rule remove <name>
+				/rule test <name> [lookback, e.g. 7d]
+
+				Example: /rule add breakout all high pct_change(currentPriceInUSD, 1h) > 5 AND change(holdersCount, 1d) >= 20
+			`;
+
+			if (action === "list") {
+				const rules = alertRules.getRules();
+				if (rules.length === 0) {
+					ctx.reply("🧩 No alert rules defined. Use /rule add to create one.");
+					return;
+				}
+
+				const message: MessagePart[] = [html`🧩 ${bold("Alert Rules:")}\n\n`];
+				rules.forEach((rule) => {
+					const scope = rule.tokenContract
+						? this.priceWatcher.getTokenStatus(rule.tokenContract)?.config
+								.tokenName || rule.tokenContract
+						: "All watched tokens";
+					message.push(
+						html`${code(rule.name)} (${rule.severity}) · ${scope}\n`,
+					);
+					message.push(html`   📐 ${code(rule.expression)}\n`);
+					if (rule.lastTriggeredAt) {
+						message.push(
+							`   ⏰ Last fired: ${new Date(rule.lastTriggeredAt).toLocaleString()}\n`,
+						);
+					}
+					message.push("\n");
+				});
+
+				this.replyRendered(ctx, message);
+				return;
+			}
+
+			if (action === "remove" && args[2]) {
+				if (alertRules.removeRule(args[2])) {
+					ctx.reply(`✅ Rule ${args[2]} removed`);
+				} else {
+					ctx.reply(
+						`❌ No rule named ${args[2]}. Use /rule list to see rules.`,
+					);
+				}
+				return;
+			}
+
+			if (action === "test" && args[2]) {
+				const rule = alertRules.getRule(args[2]);
+				if (!rule) {
+					ctx.reply(
+						`❌ No rule named ${args[2]}. Use /rule list to see rules.`,
+					);
+					return;
+				}
+
+				const lookbackMs = args[3]
+					? parseDuration(args[3])
+					: 24 * 60 * 60 * 1000;
+				if (lookbackMs === null) {
+					ctx.reply("❌ Invalid lookback. Use e.g. 12h, 7d or 2w.");
+					return;
+				}
+
+				const tokens = this.priceWatcher
+					.getTrackedTokens()
+					.filter(
+						(token) =>
+							!rule.tokenContract || token.tokenContract === rule.tokenContract,
+					);
+				if (tokens.length === 0) {
+					ctx.reply(
+						"❌ None of the tokens this rule applies to are being watched.",
+					);
+					return;
+				}
+
+				const message: MessagePart[] = [
+					html`🧪 ${bold("Rule test:")} ${code(rule.name)}\n📐 ${code(rule.expression)}\n⏱️ Lookback: ${formatDuration(lookbackMs)}\n\n`,
+				];
+				for (const token of tokens) {
+					const result = alertRules.test(
+						rule,
+						token.tokenContract,
+						token.tokenName,
+						lookbackMs,
+					);
+					message.push(
+						html`${bold(result.tokenName)}: ${result.matches.length} trigger${result.matches.length === 1 ? "" : "s"} over ${result.pointsEvaluated} price points\n`,
+					);
+					result.matches.slice(-5).forEach((timestamp) => {
+						message.push(`   ⏰ ${new Date(timestamp).toLocaleString()}\n`);
+					});
+					message.push(
+						`   ${result.currentlyMatching ? "✅ Matches now" : "❌ Not matching now"}\n`,
+					);
+					if (result.unresolvedOperands.length > 0) {
+						message.push(
+							html`   ⚠️ No stored values for ${code(result.unresolvedOperands.join(", "))}, so they never matched\n`,
+						);
+					}
+					message.push("\n");
+				}
+				message.push("ℹ️ Nothing was sent; this only replays stored history.");
+
+				this.replyRendered(ctx, message);
+				return;
+			}
+
+			if (action !== "add" || args.length < 5) {
+				ctx.reply(usage);
+				return;
+			}
+
+			const name = args[2]!;
+			const scope = args[3]!;
+			const severities = ["low", "medium", "high", "critical"] as const;
+			const severity = severities.find(
+				(level) => level === args[4]!.toLowerCase(),
+			);
+			const expression = args.slice(severity ? 5 : 4).join(" ");
+
+			if (!/^[a-z0-9_-]+$/i.test(name)) {
+				ctx.reply(
+					"❌ Rule names may only contain letters, numbers, dashes and underscores.",
+				);
+				return;
+			}
+
+			const tokenContract = scope.toLowerCase() === "all" ? null : scope;
+			if (tokenContract && !this.priceWatcher.getTokenStatus(tokenContract)) {
+				ctx.reply(
+					"❌ This token is not being watched. Use /watch <token_address> first.",
+				);
+				return;
+			}
+
+			if (!expression) {
+				ctx.reply(usage);
+				return;
+			}
+
+			try {
+				const rule = alertRules.addRule(
+					name,
+					tokenContract,
+					expression,
+					severity,
+				);
+				this.replyRendered(
+					ctx,
+					html`✅ Rule ${code(rule.name)} added (${rule.severity})\n📐 ${code(rule.expression)}\n🎯 Applies to: ${tokenContract ? this.priceWatcher.getTokenStatus(tokenContract)!.config.tokenName : "all watched tokens"}\n\nUse /rule test ${rule.name} to replay it against stored history.`,
+				);
+			} catch (error) {
+				ctx.reply(
+					`❌ Invalid rule: ${error instanceof Error ? error.message : String(error)}\n\nFields: ${RULE_FIELDS.join(", ")}\nFunctions: change(field, window), pct_change(field, window), abs(value)\nOperators: > >= < <= == != AND OR NOT`,
+				);
+			}
+		});
+
+		// IQ price monitoring commands
+		this.bot.command("start_iq", async (ctx) => {
+			try {
+				await this.iqPriceWatcher.start();
+				ctx.reply("✅ IQ token price monitoring started!");
+			} catch (error) {
+				console.error("Error starting IQ price watcher:", error);
+				ctx.reply("❌ Error starting IQ price monitoring.");
+			}
+		});
+
+		this.bot.command("stop_iq", async (ctx) => {
+			try {
+				await this.iqPriceWatcher.stop();
+				ctx.reply("⏹️ IQ token price monitoring stopped!");
+			} catch (error) {
+				console.error("Error stopping IQ price watcher:", error);
+				ctx.reply("❌ Error stopping IQ price monitoring.");
+			}
+		});
+
+		// Configure IQ price thresholds
+		this.bot.command("iq_config", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 4) {
+				ctx.reply(
+					"❌ Usage: /iq_config <minor%> <major%> <critical%> [interval_seconds]\nExample: /iq_config 2 10 20 60",
+				);
+				return;
+			}
+
+			const minorThreshold = parseFloat(args[1]!);
+			const majorThreshold = parseFloat(args[2]!);
+			const criticalThreshold = parseFloat(args[3]!);
+			const interval = args[4] ? parseInt(args[4]) : undefined;
+
+			if (
+				Number.isNaN(minorThreshold) ||
+				minorThreshold <= 0 ||
+				minorThreshold > 100
+			) {
+				ctx.reply(
+					"❌ Please provide a valid minor threshold percentage between 0-100.",
+				);
+				return;
+			}
+
+			if (
+				Number.isNaN(majorThreshold) ||
+				majorThreshold <= minorThreshold ||
+				majorThreshold > 100
+			) {
+				ctx.reply(
+					"❌ Please provide a valid major threshold percentage greater than minor threshold.",
+				);
+				return;
+			}
+
+			if (
+				Number.isNaN(criticalThreshold) ||
+				criticalThreshold <= majorThreshold ||
+				criticalThreshold > 100
+			) {
+				ctx.reply(
+					"❌ Please provide a valid critical threshold percentage greater than major threshold.",
+				);
+				return;
+			}
+
+			if (
+				interval &&
+				(Number.isNaN(interval) || interval < 30 || interval > 3600)
+			) {
+				ctx.reply(
+					"❌ Please provide a valid interval between 30-3600 seconds.",
+				);
+				return;
+			}
+
+			const config: any = {
+				minorThreshold,
+				majorThreshold,
+				criticalThreshold,
+			};
+
+			if (interval) {
+				config.checkInterval = interval;
+			}
+
+			this.iqPriceWatcher.updateConfig(config);
+
+			const timeStr = interval
+				? interval >= 60
+					? `${Math.floor(interval / 60)}m`
+					: `${interval}s`
+				: "unchanged";
+			ctx.reply(
+				`✅ IQ price monitoring configured!\n📊 Minor: ${minorThreshold}%, Major: ${majorThreshold}%, Critical: ${criticalThreshold}%\n⏰ Interval: ${timeStr}`,
+			);
+		});
+
+		// Configure IQ price alerts
+		this.bot.command("iq_alerts", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 4) {
+				ctx.reply(
+					"❌ Usage: /iq_alerts <minor:on/off> <major:on/off> <critical:on/off>\nExample: /iq_alerts on off on",
+				);
+				return;
+			}
+
+			const minorEnabled = args[1]!.toLowerCase() === "on";
+			const majorEnabled = args[2]!.toLowerCase() === "on";
+			const criticalEnabled = args[3]!.toLowerCase() === "on";
+
+			this.iqPriceWatcher.updateConfig({
+				enableMinorAlerts: minorEnabled,
+				enableMajorAlerts: majorEnabled,
+				enableCriticalAlerts: criticalEnabled,
+			});
+
+			const enabledAlerts: string[] = [];
+			if (minorEnabled) enabledAlerts.push("Minor");
+			if (majorEnabled) enabledAlerts.push("Major");
+			if (criticalEnabled) enabledAlerts.push("Critical");
+
+			ctx.reply(
+				`✅ IQ price alerts configured!\n📊 Enabled: ${enabledAlerts.join(", ") || "None"}\n🔇 Disabled: ${["Minor", "Major", "Critical"].filter((type) => !enabledAlerts.includes(type)).join(", ") || "None"}`,
+			);
+		});
+
+		// IQ price status
+		this.bot.command("iq_status", (ctx) => {
+			const iqStatus = this.iqPriceWatcher.getStatus();
+
+			const message: MessagePart[] = [
+				html`🪙 ${bold("IQ Token Price Monitoring Status:")}\n\n`,
+			];
+			message.push(
+				`🔄 Status: ${iqStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`,
+			);
+			message.push(
+				`💰 Last Price: ${iqStatus.lastKnownPrice > 0 ? agentsApi.formatUsd(iqStatus.lastKnownPrice) : "Unknown"}\n`,
+			);
+			message.push(
+				`⏰ Last Check: ${iqStatus.lastCheckTime.toLocaleString()}\n\n`,
+			);
+
+			message.push(html`${bold("Thresholds:")}\n`);
+			message.push(`📊 Minor: ${iqStatus.config.minorThreshold}%\n`);
+			message.push(`📊 Major: ${iqStatus.config.majorThreshold}%\n`);
+			message.push(`📊 Critical: ${iqStatus.config.criticalThreshold}%\n`);
+			message.push(`⏰ Interval: ${iqStatus.config.checkInterval}s\n\n`);
+
+			message.push(html`${bold("Alerts:")}\n`);
+			message.push(
+				`🔔 Minor: ${iqStatus.config.enableMinorAlerts ? "✅ Enabled" : "❌ Disabled"}\n`,
+			);
+			message.push(
+				`🔔 Major: ${iqStatus.config.enableMajorAlerts ? "✅ Enabled" : "❌ Disabled"}\n`,
+			);
+			message.push(
+				`🔔 Critical: ${iqStatus.config.enableCriticalAlerts ? "✅ Enabled" : "❌ Disabled"}\n\n`,
+			);
+
+			message.push(html`${bold("Available Commands:")}\n`);
+			message.push(`▶️ /start_iq - Start IQ price monitoring\n`);
+			message.push(`⏹️ /stop_iq - Stop IQ price monitoring\n`);
+			message.push(
+				`⚙️ /iq_config <minor%> <major%> <critical%> [interval] - Configure thresholds\n`,
+			);
+			message.push(
+				`🔔 /iq_alerts <minor:on/off> <major:on/off> <critical:on/off> - Configure alerts\n`,
+			);
+
+			this.replyRendered(ctx, message);
+		});
+
+		// Configure alert cooldown, re-arm band and deduplication
+		this.bot.command("alert_governor", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 3) {
+				const { config } = this.alertGovernor.getStatus();
+				ctx.reply(
+					`🔇 Alert governor\n⏳ Cooldown: ${config.cooldownMinutes}m per token and tier\n📏 Re-arm band: ${config.rearmBandPercentage}%\n🧹 Duplicate window: ${config.dedupMinutes}m\n\n❌ Usage: /alert_governor <cooldown_minutes> <rearm_band_%> [dedup_minutes]\nExample: /alert_governor 15 1 60`,
+				);
+				return;
+			}
+
+			const cooldownMinutes = parseFloat(args[1]!);
+			const rearmBandPercentage = parseFloat(args[2]!);
+			const dedupMinutes = args[3] ? parseFloat(args[3]) : undefined;
+
+			if (
+				Number.isNaN(cooldownMinutes) ||
+				cooldownMinutes < 0 ||
+				cooldownMinutes > 1440
+			) {
+				ctx.reply("❌ Please provide a valid cooldown between 0-1440 minutes.");
+				return;
+			}
+
+			if (
+				Number.isNaN(rearmBandPercentage) ||
+				rearmBandPercentage < 0 ||
+				rearmBandPercentage > 100
+			) {
+				ctx.reply("❌ Please provide a valid re-arm band between 0-100%.");
+				return;
+			}
+
+			if (
+				dedupMinutes !== undefined &&
+				(Number.isNaN(dedupMinutes) || dedupMinutes < 0 || dedupMinutes > 1440)
+			) {
+				ctx.reply(
+					"❌ Please provide a valid duplicate window between 0-1440 minutes.",
+				);
+				return;
+			}
+
+			this.alertGovernor.updateConfig({
+				cooldownMinutes,
+				rearmBandPercentage,
+				...(dedupMinutes !== undefined ? { dedupMinutes } : {}),
+			});
+
+			const { config } = this.alertGovernor.getStatus();
+			ctx.reply(
+				`✅ Alert governor configured!\n⏳ Cooldown: ${config.cooldownMinutes}m\n📏 Re-arm band: ${config.rearmBandPercentage}%\n🧹 Duplicate window: ${config.dedupMinutes}m`,
+			);
+		});
+
+		// Acknowledge critical alerts so they stop escalating
+		this.bot.command("ack", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				ctx.reply(
+					"❌ Usage: /ack <alert_id|all>\nExample: /ack 42\n💡 Use /alerts unacked to see open alerts",
+				);
+				return;
+			}
+
+			if (args[1]!.toLowerCase() === "all") {
+				const count = this.alertEscalator.acknowledgeAll();
+				ctx.reply(`✅ Acknowledged ${count} open alert(s)`);
+				return;
+			}
+
+			const alertId = parseInt(args[1]!.replace("#", ""));
+			if (Number.isNaN(alertId)) {
+				ctx.reply("❌ Please provide a valid alert ID.");
+				return;
+			}
+
+			ctx.reply(
+				this.alertEscalator.acknowledge(alertId)
+					? `✅ Alert #${alertId} acknowledged`
+					: `💡 Alert #${alertId} is not open.`,
+			);
+		});
+
+		this.bot.command("ack_config", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 3) {
+				const { config } = this.alertEscalator.getStatus();
+				ctx.reply(
+					`🚨 Critical alert escalation\n⏰ Re-send after: ${config.escalationMinutes}m\n🔁 Max reminders: ${config.maxEscalations}\n\n❌ Usage: /ack_config <minutes> <max_reminders>\nExample: /ack_config 10 3`,
+				);
+				return;
+			}
+
+			const escalationMinutes = parseFloat(args[1]!);
+			const maxEscalations = parseInt(args[2]!);
+
+			if (
+				Number.isNaN(escalationMinutes) ||
+				escalationMinutes < 1 ||
+				escalationMinutes > 1440
+			) {
+				ctx.reply("❌ Please provide a valid delay between 1-1440 minutes.");
+				return;
+			}
+
+			if (
+				Number.isNaN(maxEscalations) ||
+				maxEscalations < 0 ||
+				maxEscalations > 10
+			) {
+				ctx.reply("❌ Please provide a valid reminder count between 0-10.");
+				return;
+			}
+
+			this.alertEscalator.updateConfig({ escalationMinutes, maxEscalations });
+			ctx.reply(
+				`✅ Escalation configured!\n⏰ Unacknowledged critical alerts are re-sent every ${escalationMinutes}m\n🔁 Up to ${maxEscalations} reminder(s)`,
+			);
+		});
+
+		// Quiet hours: only critical price alerts are delivered, the rest arrive as a summary
+		this.bot.command("quiet_hours", (ctx) => {
+			const args = ctx.message.text.split(" ");
+
+			if (args.length < 2) {
+				const status = this.notificationScheduler.getStatus();
+				ctx.reply(
+					`🌙 Quiet hours: ${status.config.enabled ? `${status.config.start}-${status.config.end} (${status.config.timezone})` : "Off"}\n🔕 Active now: ${status.isQuietTime ? "Yes" : "No"}\n📥 Queued notifications: ${status.queuedCount}\n\n❌ Usage: /quiet_hours <start HH:MM> <end HH:MM> [timezone] or /quiet_hours off\nExample: /quiet_hours 23:00 07:00 Europe/Berlin`,
+				);
+				return;
+			}
+
+			if (args[1]!.toLowerCase() === "off") {
+				this.notificationScheduler.updateConfig({ enabled: false });
+				ctx.reply("✅ Quiet hours disabled. All alerts will be delivered.");
+				return;
+			}
+
+			const start = args[1]!;
+			const end = args[2];
+			const timezone =
+				args[3] || this.notificationScheduler.getStatus().config.timezone;
+
+			if (!end || !isValidClockTime(start) || !isValidClockTime(end)) {
+				ctx.reply(
+					"❌ Please provide start and end times in 24h HH:MM format, e.g. 23:00 07:00.",
+				);
+				return;
+			}
+
+			if (start === end) {
+				ctx.reply("❌ Start and end times must be different.");
+				return;
+			}
+
+			if (!isValidTimezone(timezone)) {
+				ctx.reply(
+					"❌ Unknown timezone. Use an IANA name such as UTC, Europe/Berlin or America/New_York.",
+				);
+				return;
+			}
+
+			this.notificationScheduler.updateConfig({
+				enabled: true,
+				start,
+				end,
+				timezone,
+			});
+			ctx.reply(
+				`✅ Quiet hours set to ${start}-${end} (${timezone})\n🔴 Critical price alerts still come through\n📥 Everything else is delivered as one summary when quiet hours end`,
+			);
+		});
+
+		// Display currency for portfolio values, prices and alerts
+		this.bot.command("currency", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const currency = args[1]?.toLowerCase();
+
+			if (currency !== "usd" && currency !== "iq" && currency !== "both") {
+				ctx.reply(
+					`💱 Display currency: ${agentsApi.getDisplayCurrency().toUpperCase()}\n\n❌ Usage: /currency <usd|iq|both>\nExample: /currency both`,
+				);
+				return;
+			}
+
+			agentsApi.setDisplayCurrency(currency);
+			if (currency !== "usd") {
+				try {
+					// Make sure there is an IQ/USD price to convert with right away
+					await agentsApi.getPrices();
+				} catch (error) {
+					console.error("Error fetching IQ price:", error);
+				}
+			}
+
+			ctx.reply(
+				`✅ Display currency set to ${currency.toUpperCase()}\n💵 Example: ${agentsApi.formatCurrency(1000)}`,
+			);
+		});
+
+		// Notification channels beyond the Telegram chat
+		this.bot.command("channel", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase() ?? "list";
+			const usage = dedent`
+				❌ Usage:
+				/channel list
+				/channel add <name> <discord|slack|email|webhook> <url|emails> [severity]
+				/channel remove <name>
+				/channel severity <name> <severity>
+				/channel test <name>
+
+				Severities: ${NOTIFICATION_SEVERITIES.join(", ")}
+				Example: /channel add ops slack https://hooks.slack.com/services/... critical
+			`;
+
+			if (action === "list") {
+				let message = "📣 Notification channels:\n\n";
+				for (const channel of this.notifier.getChannels()) {
+					message += `• ${channel.name} (${channel.kind}): ${channel.minSeverity} and above\n`;
+					if (channel.target) {
+						message += `   🎯 ${this.formatChannelTarget(channel.target)}`;
+						message += channel.source === "env" ? " (environment)\n" : "\n";
+					}
+				}
+				ctx.reply(`${message}\n${usage}`);
+				return;
+			}
+
+			if (action === "add" && args[4]) {
+				const name = args[2]!;
+				const kind = args[3]!.toLowerCase();
+				const target = args[4];
+				const severity = args[5]?.toLowerCase() ?? "info";
+
+				if (
+					kind !== "discord" &&
+					kind !== "slack" &&
+					kind !== "email" &&
+					kind !== "webhook"
+				) {
+					ctx.reply(
+						"❌ Channel type must be discord, slack, email or webhook.",
+					);
+					return;
+				}
+
+				if (!this.notifier.isSeverity(severity)) {
+					ctx.reply(
+						`❌ Unknown severity. Use one of: ${NOTIFICATION_SEVERITIES.join(", ")}`,
+					);
+					return;
+				}
+
+				if (kind === "email") {
+					if (!/^[^\s@,]+@[^\s@,]+(,[^\s@,]+@[^\s@,]+)*$/.test(target)) {
+						ctx.reply("❌ Please provide comma-separated email addresses.");
+						return;
+					}
+				} else if (!URL.canParse(target) || !target.startsWith("http")) {
+					ctx.reply("❌ Please provide a valid webhook URL.");
+					return;
+				}
+
+				try {
+					const channel = this.notifier.addChannel(
+						name,
+						kind,
+						target,
+						severity,
+					);
+					ctx.reply(
+						`✅ ${channel.name} (${channel.kind}) receives ${severity} alerts and above.\n💡 Try it with /channel test ${channel.name}`,
+					);
+				} catch (error) {
+					ctx.reply(
+						`❌ ${error instanceof Error ? error.message : "Failed to add channel."}`,
+					);
+				}
+				return;
+			}
+
+			if (action === "remove" && args[2]) {
+				const channel = this.notifier.getChannel(args[2]);
+				if (channel && channel.source !== "database") {
+					ctx.reply(
+						`❌ ${channel.name} is configured in the environment and can't be removed here.`,
+					);
+					return;
+				}
+
+				ctx.reply(
+					this.notifier.removeChannel(args[2])
+						? `✅ Removed channel ${args[2]}.`
+						: `❌ Channel ${args[2]} not found.`,
+				);
+				return;
+			}
+
+			if (action === "severity" && args[3]) {
+				const severity = args[3].toLowerCase();
+				if (!this.notifier.isSeverity(severity)) {
+					ctx.reply(
+						`❌ Unknown severity. Use one of: ${NOTIFICATION_SEVERITIES.join(", ")}`,
+					);
+					return;
+				}
+
+				const channel = this.notifier.getChannel(args[2]!);
+				if (channel?.source === "env") {
+					ctx.reply(
+						`❌ ${channel.name} is configured in the environment; set ${channel.name.toUpperCase()}_MIN_SEVERITY instead.`,
+					);
+					return;
+				}
+
+				ctx.reply(
+					this.notifier.setMinSeverity(args[2]!, severity)
+						? `✅ ${channel?.name} now receives ${severity} alerts and above.`
+						: `❌ Channel ${args[2]} not found.`,
+				);
+				return;
+			}
+
+			if (action === "test" && args[2]) {
+				try {
+					await this.notifier.test(args[2]);
+					ctx.reply(`✅ Test notification sent to ${args[2]}.`);
+				} catch (error) {
+					ctx.reply(
+						`❌ Test failed: ${error instanceof Error ? error.message : error}`,
+					);
+				}
+				return;
+			}
+
+			ctx.reply(usage);
+		});
+
+		// Signed JSON webhook carrying the full alert objects
+		this.bot.command("webhook", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase() ?? "status";
+			const usage = dedent`
+				❌ Usage:
+				/webhook set <url>
+				/webhook off
+				/webhook secret [rotate]
+				/webhook test
+				/webhook log [limit]
+
+				Example: /webhook set http://localhost:8080/alerts
+			`;
+
+			if (action === "status") {
+				const { config, pendingRetries } = this.alertWebhook.getStatus();
+				let message = `🪝 Alert webhook: ${config.url ? this.formatChannelTarget(config.url) : "Off"}\n`;
+				message += `📦 Payload version: ${ALERT_WEBHOOK_VERSION}, signed in ${SIGNATURE_HEADER}\n`;
+				message += `🔁 Attempts: up to ${config.maxAttempts}, ${pendingRetries} retr${pendingRetries === 1 ? "y" : "ies"} pending\n`;
+				ctx.reply(`${message}\n${usage}`);
+				return;
+			}
+
+			if (action === "set" && args[2]) {
+				if (!URL.canParse(args[2]) || !args[2].startsWith("http")) {
+					ctx.reply("❌ Please provide a valid http(s) URL.");
+					return;
+				}
+
+				this.alertWebhook.updateConfig({ url: args[2] });
+				ctx.reply(
+					`✅ Alerts are now posted to ${this.formatChannelTarget(args[2])}.\n💡 Check the signature with /webhook secret, then send a sample with /webhook test`,
+				);
+				return;
+			}
+
+			if (action === "off") {
+				this.alertWebhook.updateConfig({ url: null });
+				ctx.reply("✅ Alert webhook disabled.");
+				return;
+			}
+
+			if (action === "secret") {
+				if (args[2]?.toLowerCase() === "rotate") {
+					if (env.ALERT_WEBHOOK_SECRET) {
+						ctx.reply(
+							"❌ The secret comes from ALERT_WEBHOOK_SECRET; change it in the environment instead.",
+						);
+						return;
+					}
+					this.alertWebhook.updateConfig({
+						secret: AlertWebhook.generateSecret(),
+					});
+				}
+
+				this.replyRendered(
+					ctx,
+					html`🔑 Webhook secret: ${code(this.alertWebhook.getSecret())}\n\nReceivers compare ${SIGNATURE_HEADER} with sha256=<HMAC-SHA256 of the raw body, hex>.`,
+				);
+				return;
+			}
+
+			if (action === "test") {
+				if (!this.alertWebhook.getStatus().config.url) {
+					ctx.reply("❌ No webhook set. Use /webhook set <url> first.");
+					return;
+				}
+
+				// A single attempt, so a dead endpoint doesn't hold the reply through every retry
+				ctx.reply("🪝 Sending a sample price alert...");
+				const delivered = await this.alertWebhook.deliver(
+					"price",
+					{
+						type: "price_increase",
+						severity: "low",
+						message: "🧪 Sample alert from /webhook test",
+						tokenContract: IQ_TOKEN_CONTRACT,
+						tokenName: IQ_TOKEN_NAME,
+						currentPrice: 0.0051,
+						previousPrice: 0.005,
+						change: 0.0001,
+						changePercentage: 2,
+						threshold: 2,
+						timestamp: new Date(),
+					},
+					{ retry: false },
+				);
+				ctx.reply(
+					delivered?.success
+						? `✅ Delivered (HTTP ${delivered.statusCode}, ${delivered.latencyMs}ms).`
+						: `❌ Delivery failed after ${delivered?.latencyMs ?? 0}ms: ${delivered?.error ?? "unknown error"}`,
+				);
+				return;
+			}
+
+			if (action === "log") {
+				const limit = args[2] ? parseInt(args[2], 10) : 10;
+				if (Number.isNaN(limit) || limit <= 0) {
+					ctx.reply("❌ Please provide a positive number of entries.");
+					return;
+				}
+
+				const deliveries = database.getWebhookDeliveries(limit);
+				if (deliveries.length === 0) {
+					ctx.reply("🪝 No webhook deliveries yet.");
+					return;
+				}
+
+				let message = "🪝 Recent webhook deliveries:\n\n";
+				for (const delivery of deliveries) {
+					message += `${delivery.success ? "✅" : "❌"} ${new Date(delivery.createdAt).toLocaleString()} ${delivery.event}`;
+					message += delivery.alertId !== null ? ` #${delivery.alertId}` : "";
+					message += ` - attempt ${delivery.attempt}, ${delivery.statusCode ?? delivery.error}, ${delivery.latencyMs}ms\n`;
+				}
+				ctx.reply(message);
+				return;
+			}
+
+			ctx.reply(usage);
+		});
+
+		// Alert message templates with {placeholders}
+		this.bot.command("template", (ctx) => {
+			// Templates can span several lines, so only the action and type are split off
+			const [, action = "list", typeArg, template] =
+				ctx.message.text.match(
+					/^\S+(?:\s+(\S+))?(?:\s+(\S+))?(?:\s+([\s\S]+))?$/,
+				) ?? [];
+			const usage = dedent`
+				❌ Usage:
+				/template list
+				/template set <type> <template>
+				/template preview <type>
+				/template reset <type>
+
+				Types: ${ALERT_TEMPLATE_TYPES.join(", ")}
+				Example: /template set price 🚨 {tokenName} moved {changePercentage} ({severity})
+				Put the template on the lines after /template set <type> to keep line breaks.
+			`;
+
+			if (action.toLowerCase() === "list") {
+				let message = "📝 Alert templates:\n\n";
+				for (const type of ALERT_TEMPLATE_TYPES) {
+					message += `• ${type}: ${alertTemplates.getDescription(type)} (${alertTemplates.isCustom(type) ? "custom" : "default"})\n`;
+				}
+				ctx.reply(`${message}\n${usage}`);
+				return;
+			}
+
+			const type = typeArg?.toLowerCase() ?? "";
+			if (!alertTemplates.isType(type)) {
+				ctx.reply(usage);
+				return;
+			}
+
+			switch (action.toLowerCase()) {
+				case "set": {
+					if (!template?.trim()) {
+						const placeholders = Object.entries(
+							alertTemplates.getPlaceholders(type),
+						).map(
+							([name, placeholder]) =>
+								`• {${name}} - ${placeholder.description}\n`,
+						);
+						this.replyRendered(ctx, [
+							html`📝 ${bold(`Current ${type} template:`)}\n`,
+							code(alertTemplates.getTemplate(type)),
+							html`\n\n${bold("Placeholders:")}\n`,
+							...placeholders,
+							`\nSend /template set ${type} followed by the new template.`,
+						]);
+						return;
+					}
+
+					try {
+						alertTemplates.setTemplate(type, template.trim());
+						ctx.reply(
+							`✅ Updated the ${type} template. Preview with sample data:\n\n${alertTemplates.preview(type)}`,
+						);
+					} catch (error) {
+						ctx.reply(
+							`❌ ${error instanceof Error ? error.message : "Failed to set template."}`,
+						);
+					}
+					return;
+				}
+				case "preview":
+					ctx.reply(
+						`👀 ${type} alert with sample data:\n\n${alertTemplates.preview(type)}`,
+					);
+					return;
+				case "reset":
+					ctx.reply(
+						alertTemplates.resetTemplate(type)
+							? `✅ ${type} alerts use the default template again.`
+							: `ℹ️ ${type} alerts already use the default template.`,
+					);
+					return;
+			}
+
+			ctx.reply(usage);
+		});
+
+		// Scheduled portfolio digest
+		this.bot.command("digest", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase() ?? "status";
+			const usage = dedent`
+				❌ Usage:
+				/digest on|off
+				/digest time <HH:MM> [timezone]
+				/digest daily
+				/digest weekly [mon..sun]
+				/digest sections <${DIGEST_SECTIONS.join(",")}>
+				/digest now
+
+				Example: /digest time 08:00 Europe/Berlin
+			`;
+
+			if (action === "status") {
+				const { config, lastSentAt } = this.digestScheduler.getStatus();
+				const lastSent = lastSentAt
+					? new Date(lastSentAt).toLocaleString()
+					: "Not since start";
+				ctx.reply(
+					`📰 Digest: ${this.formatDigestSchedule()}\n🧩 Sections: ${config.sections.join(", ")}\n⏰ Last sent: ${lastSent}\n\n${usage}`,
+				);
+				return;
+			}
+
+			if (action === "on" || action === "off") {
+				this.digestScheduler.updateConfig({ enabled: action === "on" });
+				ctx.reply(
+					action === "on"
+						? `✅ Digest enabled: ${this.formatDigestSchedule()}`
+						: "✅ Digest disabled.",
+				);
+				return;
+			}
+
+			if (action === "time" && args[2]) {
+				const time = args[2];
+				const timezone =
+					args[3] || this.digestScheduler.getStatus().config.timezone;
+
+				if (!isValidClockTime(time)) {
+					ctx.reply(
+						"❌ Please provide the time in 24h HH:MM format, e.g. 08:00.",
+					);
+					return;
+				}
+
+				if (!isValidTimezone(timezone)) {
+					ctx.reply(
+						"❌ Unknown timezone. Use an IANA name such as UTC, Europe/Berlin or America/New_York.",
+					);
+					return;
+				}
+
+				this.digestScheduler.updateConfig({ enabled: true, time, timezone });
+				ctx.reply(`✅ Digest scheduled: ${this.formatDigestSchedule()}`);
+				return;
+			}
+
+			if (action === "daily") {
+				this.digestScheduler.updateConfig({ frequency: "daily" });
+				ctx.reply(`✅ Digest set to daily: ${this.formatDigestSchedule()}`);
+				return;
+			}
+
+			if (action === "weekly") {
+				const weekday = args[2]
+					? WEEKDAYS.indexOf(args[2].toLowerCase().slice(0, 3))
+					: this.digestScheduler.getStatus().config.weekday;
+				if (weekday === -1) {
+					ctx.reply(`❌ Unknown weekday. Use one of: ${WEEKDAYS.join(", ")}`);
+					return;
+				}
+
+				this.digestScheduler.updateConfig({ frequency: "weekly", weekday });
+				ctx.reply(`✅ Digest set to weekly: ${this.formatDigestSchedule()}`);
+				return;
+			}
+
+			if (action === "sections" && args[2]) {
+				const sections = args[2]
+					.toLowerCase()
+					.split(",")
+					.filter((section) => section !== "");
+				const unknown = sections.filter(
+					(section) => !DIGEST_SECTIONS.includes(section as DigestSection),
+				);
+				if (sections.length === 0 || unknown.length > 0) {
+					ctx.reply(
+						`❌ Unknown section(s): ${unknown.join(", ") || "none given"}\nAvailable: ${DIGEST_SECTIONS.join(", ")}`,
+					);
+					return;
+				}
+
+				this.digestScheduler.updateConfig({
+					sections: [...new Set(sections)] as DigestSection[],
+				});
+				ctx.reply(`✅ Digest sections: ${sections.join(", ")}`);
+				return;
+			}
+
+			if (action === "now") {
+				try {
+					// Sent like a scheduled digest, so every channel gets it and it counts as the last one
+					await this.digestScheduler.sendNow();
+				} catch (error) {
+					console.error("Error building digest:", error);
+					ctx.reply("❌ Error building digest. Please try again later.");
+				}
+				return;
+			}
+
+			ctx.reply(usage);
+		});
+
+		// Snooze alerts for a token or the whole bot
+		this.bot.command("snooze", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 3) {
+				const snoozes = this.notificationScheduler.getSnoozes();
+				let message =
+					"❌ Usage: /snooze <token_address|iq|all> <duration>\nExample: /snooze all 2h\n";
+				if (snoozes.length > 0) {
+					message += "\n😴 Active snoozes:\n";
+					snoozes.forEach((snooze) => {
+						message += `• ${snooze.target === IQ_TOKEN_CONTRACT ? "IQ" : snooze.target} - ${formatDuration(snooze.until - Date.now())} left\n`;
+					});
+				}
+				ctx.reply(message);
+				return;
+			}
+
+			const target = this.resolveSnoozeTarget(args[1]!);
+			if (!target) {
+				ctx.reply("❌ Unknown target. Use a watched token address, iq or all.");
+				return;
+			}
+
+			const durationMs = parseDuration(args[2]!);
+			if (
+				durationMs === null ||
+				durationMs < 60 * 1000 ||
+				durationMs > 30 * 24 * 60 * 60 * 1000
+			) {
+				ctx.reply(
+					"❌ Please provide a duration between 1m and 30d, e.g. 30m, 2h, 1d.",
+				);
+				return;
+			}
 
+			const snooze = this.notificationScheduler.snooze(target, durationMs);
 			ctx.reply(
-				`✅ IQ price alerts configured!\n📊 Enabled: ${enabledAlerts.join(", ") || "None"}\n🔇 Disabled: ${["Minor", "Major", "Critical"].filter((type) => !enabledAlerts.includes(type)).join(", ") || "None"}`,
+				`😴 ${target === "all" ? "All alerts" : `Alerts for ${args[1]}`} snoozed for ${formatDuration(durationMs)}\n⏰ Until: ${new Date(snooze.until).toLocaleString()}\n💡 Use /unsnooze ${args[1]} to resume early`,
 			);
 		});
 
-		// IQ price status
-		this.bot.command("iq_status", (ctx) => {
-			const iqStatus = this.iqPriceWatcher.getStatus();
-
-			let message = "🪙 *IQ Token Price Monitoring Status:*\n\n";
-			message += `🔄 Status: ${iqStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`;
-			message += `💰 Last Price: ${iqStatus.lastKnownPrice > 0 ? agentsApi.formatCurrency(iqStatus.lastKnownPrice) : "Unknown"}\n`;
-			message += `⏰ Last Check: ${iqStatus.lastCheckTime.toLocaleString()}\n\n`;
-
-			message += `*Thresholds:*\n`;
-			message += `📊 Minor: ${iqStatus.config.minorThreshold}%\n`;
-			message += `📊 Major: ${iqStatus.config.majorThreshold}%\n`;
-			message += `📊 Critical: ${iqStatus.config.criticalThreshold}%\n`;
-			message += `⏰ Interval: ${iqStatus.config.checkInterval}s\n\n`;
-
-			message += `*Alerts:*\n`;
-			message += `🔔 Minor: ${iqStatus.config.enableMinorAlerts ? "✅ Enabled" : "❌ Disabled"}\n`;
-			message += `🔔 Major: ${iqStatus.config.enableMajorAlerts ? "✅ Enabled" : "❌ Disabled"}\n`;
-			message += `🔔 Critical: ${iqStatus.config.enableCriticalAlerts ? "✅ Enabled" : "❌ Disabled"}\n\n`;
-
-			message += `*Available Commands:*\n`;
-			message += `▶️ /start_iq - Start IQ price monitoring\n`;
-			message += `⏹️ /stop_iq - Stop IQ price monitoring\n`;
-			message += `⚙️ /iq_config <minor%> <major%> <critical%> [interval] - Configure thresholds\n`;
-			message += `🔔 /iq_alerts <minor:on/off> <major:on/off> <critical:on/off> - Configure alerts\n`;
+		this.bot.command("unsnooze", (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				ctx.reply("❌ Usage: /unsnooze <token_address|iq|all>");
+				return;
+			}
 
-			ctx.reply(message, { parse_mode: "Markdown" });
+			const target = this.resolveSnoozeTarget(args[1]!);
+			if (target && this.notificationScheduler.unsnooze(target)) {
+				ctx.reply(`🔔 Alerts resumed for ${args[1]}`);
+			} else {
+				ctx.reply(`💡 ${args[1]} is not snoozed.`);
+			}
 		});
 
 		// Holdings monitoring commands
@@ -685,6 +2846,232 @@ class IQAgentsTelegramBot {
 			}
 		});
 
+		// Wallet management
+		this.bot.command("wallet", (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase();
+			const usage = dedent`
+				❌ Usage:
+				/wallet add <address> <label> [threshold_usd] [change_%]
+				/wallet remove <address|label>
+				/wallet list
+
+				Example: /wallet add 0x... treasury 50000 5
+			`;
+
+			if (action === "list") {
+				const wallets = database.getWallets();
+				if (wallets.length === 0) {
+					ctx.reply("👛 No wallets monitored. Use /wallet add to add one.");
+					return;
+				}
+
+				const states = this.holdingsWatcher.getStatus().wallets;
+				const message: MessagePart[] = [
+					html`👛 ${bold("Monitored Wallets:")}\n\n`,
+				];
+				wallets.forEach((wallet, index) => {
+					const { thresholdUsd, significantChangePercentage } =
+						this.holdingsWatcher.getWalletThresholds(wallet);
+					const state = states.find(
+						(entry) => entry.address === wallet.address,
+					);
+					message.push(
+						html`${index + 1}. ${bold(wallet.label)} · ${code(wallet.address)}\n`,
+					);
+					message.push(
+						`   🎯 Threshold: ${agentsApi.formatCurrency(thresholdUsd)}${wallet.thresholdUsd === null ? " (default)" : ""}\n`,
+					);
+					message.push(
+						`   📊 Change: ${significantChangePercentage}%${wallet.significantChangePercentage === null ? " (default)" : ""}\n`,
+					);
+					if (state) {
+						message.push(
+							`   💵 Last Known Value: ${agentsApi.formatCurrency(state.lastKnownValue)}\n`,
+						);
+					}
+					message.push("\n");
+				});
+
+				this.replyRendered(ctx, message);
+				return;
+			}
+
+			if (action === "remove" && args[2]) {
+				const wallet = database.getWallet(args[2]);
+				if (!wallet || !database.removeWallet(wallet.id!)) {
+					ctx.reply(
+						`❌ No wallet matching ${args[2]}. Use /wallet list to see wallets.`,
+					);
+					return;
+				}
+
+				this.holdingsWatcher.resetWallet(wallet.address);
+				ctx.reply(`✅ Wallet ${wallet.label} removed`);
+				return;
+			}
+
+			if (action === "add" && args.length >= 4) {
+				const address = args[2]!;
+				const label = args[3]!;
+				const thresholdUsd = args[4] ? parseFloat(args[4]) : null;
+				const changePercentage = args[5] ? parseFloat(args[5]) : null;
+
+				if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+					ctx.reply("❌ Please provide a valid wallet address (0x...).");
+					return;
+				}
+
+				const labelOwner = database.getWallet(label);
+				if (
+					/^0x/i.test(label) ||
+					(labelOwner &&
+						labelOwner.address.toLowerCase() !== address.toLowerCase())
+				) {
+					ctx.reply("❌ Please choose a unique label that is not an address.");
+					return;
+				}
+
+				if (
+					thresholdUsd !== null &&
+					(Number.isNaN(thresholdUsd) || thresholdUsd <= 0)
+				) {
+					ctx.reply("❌ Please provide a valid threshold amount.");
+					return;
+				}
+
+				if (
+					changePercentage !== null &&
+					(Number.isNaN(changePercentage) ||
+						changePercentage <= 0 ||
+						changePercentage > 100)
+				) {
+					ctx.reply("❌ Please provide a valid percentage between 0-100.");
+					return;
+				}
+
+				database.addWallet({
+					address,
+					label,
+					thresholdUsd,
+					significantChangePercentage: changePercentage,
+					isActive: true,
+					createdAt: Date.now(),
+				});
+				this.holdingsWatcher.resetWallet(address);
+
+				const holdingsStatus = this.holdingsWatcher.getStatus();
+				ctx.reply(
+					`✅ Wallet ${label} added!\n👛 ${address}\n🎯 Threshold: ${agentsApi.formatCurrency(thresholdUsd ?? holdingsStatus.config.thresholdUsd)}\n📊 Change: ${changePercentage ?? holdingsStatus.config.significantChangePercentage}%\n\n${holdingsStatus.isRunning ? "It will be checked on the next holdings check." : "Use /start_holdings to start monitoring."}`,
+				);
+				return;
+			}
+
+			ctx.reply(usage);
+		});
+
+		// Cost basis management
+		this.bot.command("cost_basis", async (ctx) => {
+			const args = ctx.message.text.split(" ").filter((arg) => arg !== "");
+			const action = args[1]?.toLowerCase() ?? "list";
+			const usage = dedent`
+				❌ Usage:
+				/cost_basis list
+				/cost_basis set <token_address> <price_usd> [amount]
+				/cost_basis remove <token_address>
+				/cost_basis export
+
+				Example: /cost_basis set 0x... 0.0025
+			`;
+
+			if (action === "list") {
+				const bases = costBasis.getCostBases().filter((b) => b.amount > 0);
+				if (bases.length === 0) {
+					ctx.reply(
+						"🧾 No cost basis recorded yet. It is inferred on the next holdings check, or use /cost_basis set.",
+					);
+					return;
+				}
+
+				const message: MessagePart[] = [html`🧾 ${bold("Cost Basis:")}\n\n`];
+				bases.forEach((basis) => {
+					message.push(
+						html`${bold(basis.tokenName)} · ${agentsApi.formatCurrency(basis.averageCost)}${basis.source === "inferred" ? " (inferred)" : ""}\n`,
+					);
+					message.push(
+						`   📊 Amount: ${agentsApi.formatTokenAmount(basis.amount.toString())} · 💵 Cost: ${agentsApi.formatCurrency(basis.averageCost * basis.amount)}\n`,
+					);
+					message.push(html`   🔗 ${code(basis.tokenContract)}\n\n`);
+				});
+
+				this.replyRendered(ctx, message);
+				return;
+			}
+
+			if (action === "export") {
+				await ctx.replyWithDocument({
+					source: Buffer.from(costBasis.toCsv()),
+					filename: "cost-basis.csv",
+				});
+				return;
+			}
+
+			if (action === "remove" && args[2]) {
+				if (costBasis.removeCostBasis(args[2])) {
+					ctx.reply(
+						"✅ Cost basis removed. It will be inferred again from the price at the next holdings check.",
+					);
+				} else {
+					ctx.reply(`❌ No cost basis recorded for ${args[2]}.`);
+				}
+				return;
+			}
+
+			if (action === "set" && args.length >= 4) {
+				const tokenAddress = args[2]!;
+				const averageCost = parseFloat(args[3]!);
+				const amount = args[4] ? parseFloat(args[4]) : null;
+
+				if (Number.isNaN(averageCost) || averageCost < 0) {
+					ctx.reply("❌ Please provide a valid price in USD.");
+					return;
+				}
+
+				if (amount !== null && (Number.isNaN(amount) || amount < 0)) {
+					ctx.reply("❌ Please provide a valid token amount.");
+					return;
+				}
+
+				try {
+					const existing = costBasis.getCostBasis(tokenAddress);
+					const holding = (
+						await this.holdingsWatcher.getCurrentHoldings()
+					).holdings.find((h) => h.tokenContract === tokenAddress);
+					if (!holding && !existing) {
+						ctx.reply("❌ This token is not held in any monitored wallet.");
+						return;
+					}
+
+					const basis = costBasis.setCostBasis(
+						tokenAddress,
+						holding?.name ?? existing!.tokenName,
+						averageCost,
+						amount ??
+							(holding ? parseFloat(holding.tokenAmount) : existing!.amount),
+					);
+					ctx.reply(
+						`✅ Cost basis for ${basis.tokenName} set to ${agentsApi.formatCurrency(averageCost)} per token\n📊 Amount: ${agentsApi.formatTokenAmount(basis.amount.toString())}\n💵 Total cost: ${agentsApi.formatCurrency(averageCost * basis.amount)}`,
+					);
+				} catch (error) {
+					console.error("Error setting cost basis:", error);
+					ctx.reply("❌ Error setting cost basis. Please try again.");
+				}
+				return;
+			}
+
+			ctx.reply(usage);
+		});
+
 		// Watch token command
 		this.bot.command("watch", async (ctx) => {
 			const args = ctx.message.text.split(" ");
@@ -741,14 +3128,29 @@ class IQAgentsTelegramBot {
 				return;
 			}
 
-			let message = "👁️ *Watched Tokens:*\n\n";
+			const message: MessagePart[] = [html`👁️ ${bold("Watched Tokens:")}\n\n`];
 			trackedTokens.forEach((token, index) => {
-				message += `${index + 1}. *${token.tokenName}*\n`;
-				message += `   📊 Last Price: ${agentsApi.formatCurrency(token.lastPrice)}\n`;
-				message += `   ⏰ Last Check: ${token.lastCheckTime.toLocaleString()}\n\n`;
+				message.push(html`${index + 1}. ${bold(token.tokenName)}\n`);
+				message.push(
+					`   📊 Last Price: ${agentsApi.formatCurrency(token.lastPrice, token.lastPriceInIq > 0 ? token.lastPriceInIq : undefined)}\n`,
+				);
+				if (token.config.alertWindows.length > 0) {
+					message.push(
+						`   ⏱️ Windows: ${token.config.alertWindows.join(", ")}\n`,
+					);
+				}
+				if (token.config.adaptiveMode) {
+					message.push(`   📐 Adaptive: ${token.config.sigmaThreshold}σ\n`);
+				}
+				if (token.config.alertBasis === "agent") {
+					message.push(`   🧮 Basis: agent price in IQ\n`);
+				}
+				message.push(
+					`   ⏰ Last Check: ${token.lastCheckTime.toLocaleString()}\n\n`,
+				);
 			});
 
-			ctx.reply(message, { parse_mode: "Markdown" });
+			this.replyRendered(ctx, message);
 		});
 
 		// Price monitoring commands
@@ -802,22 +3204,22 @@ class IQAgentsTelegramBot {
 					inferences: "Inferences",
 				};
 
-				let message = `📈 *Top ${limit} Agents by ${sortLabels[sortBy]}:*\n\n`;
+				const message: MessagePart[] = [
+					html`📈 ${bold(`Top ${limit} Agents by ${sortLabels[sortBy]}:`)}\n\n`,
+				];
 				topAgents.agents.forEach((agent, index) => {
-					message += `${index + 1}. *${agent.name}* (${agent.ticker})\n`;
-					message += `   💰 Price: ${agentsApi.formatCurrency(agent.currentPriceInUSD)}\n`;
-					message += `   👥 Holders: ${agent.holdersCount}\n`;
-					message += `   🧠 Inferences: ${agent.inferenceCount}\n`;
-					message += `   📄 Contract: \`${agent.tokenContract}\`\n\n`;
+					message.push(
+						html`${index + 1}. ${bold(agent.name)} (${agent.ticker})\n`,
+					);
+					message.push(
+						`   💰 Price: ${agentsApi.formatCurrency(agent.currentPriceInUSD, agent.currentPriceInIq)}\n`,
+					);
+					message.push(`   👥 Holders: ${agent.holdersCount}\n`);
+					message.push(`   🧠 Inferences: ${agent.inferenceCount}\n`);
+					message.push(html`   📄 Contract: ${code(agent.tokenContract)}\n\n`);
 				});
 
-				await ctx.telegram.editMessageText(
-					ctx.chat?.id,
-					loading.message_id,
-					undefined,
-					message,
-					{ parse_mode: "Markdown" },
-				);
+				await this.editRendered(ctx, loading.message_id, message);
 			} catch (error) {
 				console.error("Error fetching top agents:", error);
 				ctx.reply("❌ Error fetching top agents.");
@@ -831,21 +3233,15 @@ class IQAgentsTelegramBot {
 				const pricesData = await agentsApi.getPrices();
 				const iqPrice = pricesData.everipedia.usd;
 
-				const message = dedent`
-					🪙 *IQ Token Price*
+				const message = dedentHtml`
+					🪙 ${bold("IQ Token Price")}
 
-					💰 Current Price: *${agentsApi.formatCurrency(iqPrice)}*
-					📊 Symbol: *IQ (Everipedia)*
+					💰 Current Price: ${bold(agentsApi.formatUsd(iqPrice))}
+					📊 Symbol: ${bold("IQ (Everipedia)")}
 					🕐 Updated: ${new Date().toLocaleString()}
 				`;
 
-				await ctx.telegram.editMessageText(
-					ctx.chat?.id,
-					loading.message_id,
-					undefined,
-					message,
-					{ parse_mode: "Markdown" },
-				);
+				await this.editRendered(ctx, loading.message_id, message);
 			} catch (error) {
 				console.error("Error fetching IQ price:", error);
 				ctx.reply("❌ Error fetching IQ token price.");
@@ -865,25 +3261,19 @@ class IQAgentsTelegramBot {
 				const loading = await ctx.reply("📊 Loading agent stats...");
 				const agentStats = await agentsApi.getAgentStats(tokenAddress);
 
-				const message = dedent`
-					📊 *Agent Statistics*
+				const message = dedentHtml`
+					📊 ${bold("Agent Statistics")}
 
-					💰 Price in USD: *${agentsApi.formatCurrency(agentStats.currentPriceInUSD)}*
-					🪙 Price in IQ: *${agentStats.currentPriceInIq}*
-					📈 Market Cap: *${agentsApi.formatCurrency(agentStats.marketCap)}*
-					📊 24h Change: *${agentStats.changeIn24h.toFixed(2)}%*
-					👥 Holders: *${agentStats.holdersCount}*
-					🧠 Inferences: *${agentStats.inferenceCount}*
-					📂 Category: *${agentStats.category}*
+					💰 Price in USD: ${bold(agentsApi.formatCurrency(agentStats.currentPriceInUSD))}
+					🪙 Price in IQ: ${bold(agentStats.currentPriceInIq)}
+					📈 Market Cap: ${bold(agentsApi.formatCurrency(agentStats.marketCap))}
+					📊 24h Change: ${bold(`${agentStats.changeIn24h.toFixed(2)}%`)}
+					👥 Holders: ${bold(agentStats.holdersCount)}
+					🧠 Inferences: ${bold(agentStats.inferenceCount)}
+					📂 Category: ${bold(agentStats.category)}
 				`;
 
-				await ctx.telegram.editMessageText(
-					ctx.chat?.id,
-					loading.message_id,
-					undefined,
-					message,
-					{ parse_mode: "Markdown" },
-				);
+				await this.editRendered(ctx, loading.message_id, message);
 			} catch (error) {
 				console.error("Error fetching agent stats:", error);
 				ctx.reply("❌ Error fetching agent statistics.");
@@ -901,23 +3291,16 @@ class IQAgentsTelegramBot {
 			const tokenAddress = args[1]!;
 			try {
 				const loading = await ctx.reply("💰 Loading current price...");
-				const currentPrice =
-					await this.priceWatcher.getCurrentPrice(tokenAddress);
+				const stats = await agentsApi.getAgentStats(tokenAddress);
 
-				const message = dedent`
-					💰 *Current Price*
+				const message = dedentHtml`
+					💰 ${bold("Current Price")}
 
-					📊 Price: *${agentsApi.formatCurrency(currentPrice)}*
+					📊 Price: ${bold(agentsApi.formatCurrency(stats.currentPriceInUSD, stats.currentPriceInIq))}
 					🕐 Updated: ${new Date().toLocaleString()}
 				`;
 
-				await ctx.telegram.editMessageText(
-					ctx.chat?.id,
-					loading.message_id,
-					undefined,
-					message,
-					{ parse_mode: "Markdown" },
-				);
+				await this.editRendered(ctx, loading.message_id, message);
 			} catch (error) {
 				console.error("Error fetching current price:", error);
 				ctx.reply("❌ Error fetching current price.");
@@ -937,21 +3320,21 @@ class IQAgentsTelegramBot {
 				const loading = await ctx.reply("ℹ️ Loading agent info...");
 				const agentInfo = await agentsApi.getAgentInfo(tokenAddress);
 
-				let message = `ℹ️ *${agentInfo.name}* (${agentInfo.ticker})\n\n`;
-				message += `📊 Category: ${agentInfo.category}\n`;
-				message += `👥 Holders: ${agentInfo.holdersCount}\n`;
-				message += `🧠 Inferences: ${agentInfo.inferenceCount}\n`;
-				message += `💰 Price in IQ: ${agentInfo.currentPriceInIq}\n`;
-				message += `📅 Created: ${new Date(agentInfo.createdAt).toLocaleDateString()}\n\n`;
-				message += `📝 Bio: ${agentInfo.bio.slice(0, 500)}${agentInfo.bio.length > 500 ? "..." : ""}`;
-
-				await ctx.telegram.editMessageText(
-					ctx.chat?.id,
-					loading.message_id,
-					undefined,
-					message,
-					{ parse_mode: "Markdown" },
+				const message: MessagePart[] = [
+					html`ℹ️ ${bold(agentInfo.name)} (${agentInfo.ticker})\n\n`,
+				];
+				message.push(`📊 Category: ${agentInfo.category}\n`);
+				message.push(`👥 Holders: ${agentInfo.holdersCount}\n`);
+				message.push(`🧠 Inferences: ${agentInfo.inferenceCount}\n`);
+				message.push(`💰 Price in IQ: ${agentInfo.currentPriceInIq}\n`);
+				message.push(
+					`📅 Created: ${new Date(agentInfo.createdAt).toLocaleDateString()}\n\n`,
 				);
+				message.push(
+					`📝 Bio: ${agentInfo.bio.slice(0, 500)}${agentInfo.bio.length > 500 ? "..." : ""}`,
+				);
+
+				await this.editRendered(ctx, loading.message_id, message);
 			} catch (error) {
 				console.error("Error fetching agent info:", error);
 				ctx.reply("❌ Error fetching agent info.");
@@ -965,28 +3348,65 @@ class IQAgentsTelegramBot {
 			const iqStatus = this.iqPriceWatcher.getStatus();
 			const dbStats = database.getStats();
 
-			let message = "📊 *System Status:*\n\n";
-			message += `💰 Holdings Watcher: ${holdingsStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`;
-			message += `📈 Price Watcher: ${priceStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`;
-			message += `🪙 IQ Price Watcher: ${iqStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`;
-			message += `👁️ Tracked Tokens: ${priceStatus.trackedTokensCount}\n\n`;
+			const message: MessagePart[] = [html`📊 ${bold("System Status:")}\n\n`];
+			message.push(
+				`💰 Holdings Watcher: ${holdingsStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`,
+			);
+			message.push(
+				`📈 Price Watcher: ${priceStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`,
+			);
+			message.push(
+				`🪙 IQ Price Watcher: ${iqStatus.isRunning ? "✅ Running" : "⏹️ Stopped"}\n`,
+			);
+			message.push(`👁️ Tracked Tokens: ${priceStatus.trackedTokensCount}\n\n`);
 
 			if (holdingsStatus.isRunning) {
-				message += `🎯 Holdings Threshold: ${agentsApi.formatCurrency(holdingsStatus.config.thresholdUsd)}\n`;
-				message += `💵 Last Known Value: ${agentsApi.formatCurrency(holdingsStatus.lastKnownValue)}\n`;
+				message.push(
+					`🎯 Holdings Threshold: ${agentsApi.formatCurrency(holdingsStatus.config.thresholdUsd)}\n`,
+				);
+				message.push(
+					`💵 Last Known Value: ${agentsApi.formatCurrency(holdingsStatus.lastKnownValue)}\n`,
+				);
+				if (holdingsStatus.wallets.length > 1) {
+					message.push(`👛 Wallets: ${holdingsStatus.wallets.length}\n`);
+				}
 			}
 
 			if (iqStatus.isRunning) {
-				message += `💰 IQ Price: ${iqStatus.lastKnownPrice > 0 ? agentsApi.formatCurrency(iqStatus.lastKnownPrice) : "Unknown"}\n`;
-				message += `📊 IQ Thresholds: ${iqStatus.config.minorThreshold}%/${iqStatus.config.majorThreshold}%/${iqStatus.config.criticalThreshold}%\n`;
+				message.push(
+					`💰 IQ Price: ${iqStatus.lastKnownPrice > 0 ? agentsApi.formatUsd(iqStatus.lastKnownPrice) : "Unknown"}\n`,
+				);
+				message.push(
+					`📊 IQ Thresholds: ${iqStatus.config.minorThreshold}%/${iqStatus.config.majorThreshold}%/${iqStatus.config.criticalThreshold}%\n`,
+				);
 			}
 
-			message += `\n*Database Stats:*\n`;
-			message += `📊 Price Records: ${dbStats.totalPriceRecords}\n`;
-			message += `🚨 Total Alerts: ${dbStats.totalAlerts}\n`;
-			message += `👁️ Watched Tokens: ${dbStats.activeWatchedTokens}/${dbStats.totalWatchedTokens}\n`;
+			message.push(html`\n${bold("Database Stats:")}\n`);
+			message.push(`📊 Price Records: ${dbStats.totalPriceRecords}\n`);
+			message.push(`🚨 Total Alerts: ${dbStats.totalAlerts}\n`);
+			message.push(`🔇 Suppressed Alerts: ${dbStats.suppressedAlerts}\n`);
+			message.push(
+				`⏳ Unacknowledged Critical: ${this.alertEscalator.getStatus().unacknowledgedCount}\n`,
+			);
+			message.push(
+				`👁️ Watched Tokens: ${dbStats.activeWatchedTokens}/${dbStats.totalWatchedTokens}\n`,
+			);
+
+			const outboxStatus = this.outbox.getStatus();
+			message.push(`📬 Outbox: ${outboxStatus.pending} pending`);
+			message.push(
+				outboxStatus.oldestPendingAt !== null
+					? ` (oldest ${formatDuration(Date.now() - outboxStatus.oldestPendingAt)} ago)`
+					: "",
+			);
+			message.push(`, ${outboxStatus.failed} failed\n`);
+			if (outboxStatus.pausedUntil !== null) {
+				message.push(
+					`⏳ Rate limited for ${formatDuration(outboxStatus.pausedUntil - Date.now())}\n`,
+				);
+			}
 
-			ctx.reply(message, { parse_mode: "Markdown" });
+			this.replyRendered(ctx, message);
 		});
 
 		// Price history command
@@ -1010,40 +3430,161 @@ class IQAgentsTelegramBot {
 				}
 
 				const tokenName = priceHistory[0]?.tokenName || "Unknown Token";
-				let message = `📊 *Price History for ${tokenName}:*\n\n`;
+				const message: MessagePart[] = [
+					html`📊 ${bold(`Price History for ${tokenName}:`)}\n\n`,
+				];
 
 				priceHistory.forEach((record, index) => {
 					const date = new Date(record.timestamp).toLocaleString();
-					message += `${index + 1}. ${agentsApi.formatCurrency(record.price)} - ${date}\n`;
+					message.push(
+						`${index + 1}. ${agentsApi.formatCurrency(record.price)} - ${date}\n`,
+					);
 				});
 
-				ctx.reply(message, { parse_mode: "Markdown" });
+				this.replyRendered(ctx, message);
 			} catch (error) {
 				console.error("Error fetching price history:", error);
 				ctx.reply("❌ Error fetching price history.");
 			}
 		});
 
+		// Market cap, holders and inference time series
+		this.bot.command("metrics", async (ctx) => {
+			const args = ctx.message.text.split(" ");
+			if (args.length < 2) {
+				ctx.reply(
+					"❌ Usage: /metrics <token_address> [limit]\nExample: /metrics 0x... 10",
+				);
+				return;
+			}
+
+			const tokenContract = args[1]!;
+			const limit = args[2] ? parseInt(args[2]) : 10;
+
+			try {
+				const history = database
+					.getPriceHistory(tokenContract, limit)
+					.filter((record) => record.holdersCount != null);
+				if (history.length === 0) {
+					ctx.reply(
+						"📊 No metric history found for this token. Metrics are recorded while it is on your watchlist.",
+					);
+					return;
+				}
+
+				const tokenName = history[0]?.tokenName || "Unknown Token";
+				const message: MessagePart[] = [
+					html`📊 ${bold(`Metric History for ${tokenName}:`)}\n\n`,
+				];
+
+				history.forEach((record, index) => {
+					const date = new Date(record.timestamp).toLocaleString();
+					message.push(`${index + 1}. ${date}\n`);
+					message.push(
+						`   📈 ${agentsApi.formatCurrency(record.marketCap ?? 0)} · 👥 ${record.holdersCount} · 🧠 ${record.inferenceCount}\n`,
+					);
+				});
+
+				this.replyRendered(ctx, message);
+			} catch (error) {
+				console.error("Error fetching metric history:", error);
+				ctx.reply("❌ Error fetching metric history.");
+			}
+		});
+
 		// Alerts history command
 		this.bot.command("alerts", async (ctx) => {
-			const limit = 10;
+			const args = ctx.message.text.split(" ").slice(1);
+			const query: AlertQuery = { status: "delivered", limit: 10 };
+
+			for (const arg of args) {
+				const [key, rawValue] = arg.split("=");
+				const option = key!.toLowerCase();
+				const value = rawValue ?? "";
+
+				if (option === "muted") {
+					query.status = "suppressed";
+				} else if (option === "unacked") {
+					query.status = "unacknowledged";
+				} else if (option === "token") {
+					query.tokenContract =
+						value.toLowerCase() === "iq" ? IQ_TOKEN_CONTRACT : value;
+				} else if (
+					option === "severity" &&
+					["low", "medium", "high", "critical"].includes(value)
+				) {
+					query.severity = value as NonNullable<AlertQuery["severity"]>;
+				} else if (
+					option === "type" &&
+					["price", "iq_price", "holdings"].includes(value)
+				) {
+					query.type = value as AlertRecord["type"];
+				} else if (
+					(option === "since" || option === "until") &&
+					this.parseTimeArgument(value, option === "until") !== null
+				) {
+					query[option === "since" ? "from" : "to"] = this.parseTimeArgument(
+						value,
+						option === "until",
+					)!;
+				} else if (option === "limit" && parseInt(value) > 0) {
+					query.limit = Math.min(parseInt(value), 50);
+				} else {
+					ctx.reply(
+						"❌ Usage: /alerts [muted|unacked] [token=<address|iq>] [severity=low|medium|high|critical] [type=price|iq_price|holdings] [since=<24h|YYYY-MM-DD>] [until=<YYYY-MM-DD>] [limit=N]\nExample: /alerts token=0x... severity=critical since=7d",
+					);
+					return;
+				}
+			}
+
+			const filter = query.status!;
 			try {
-				const recentAlerts = database.getRecentAlerts(limit);
+				const recentAlerts = database.getAlerts(query);
 				if (recentAlerts.length === 0) {
-					ctx.reply("📊 No recent alerts found.");
+					ctx.reply(
+						{
+							delivered: "📊 No recent alerts found.",
+							suppressed: "🔇 No suppressed alerts found.",
+							unacknowledged: "✅ No unacknowledged alerts.",
+						}[filter],
+					);
 					return;
 				}
 
-				let message = `🚨 *Recent Alerts:*\n\n`;
+				const message: MessagePart[] = [
+					{
+						delivered: html`🚨 ${bold("Recent Alerts:")}\n\n`,
+						suppressed: html`🔇 ${bold("Suppressed Alerts:")}\n\n`,
+						unacknowledged: html`🚨 ${bold("Unacknowledged Alerts:")}\n\n`,
+					}[filter],
+				];
 
 				recentAlerts.forEach((alert, index) => {
 					const date = new Date(alert.timestamp).toLocaleString();
 					const type = alert.type === "price" ? "💰" : "📊";
-					message += `${index + 1}. ${type} ${alert.message.slice(0, 100)}...\n`;
-					message += `   📅 ${date}\n\n`;
+					message.push(
+						`${index + 1}. ${type} ${alert.message.slice(0, 100)}...\n`,
+					);
+					if (alert.severity && alert.changePercentage !== undefined) {
+						message.push(
+							`   🏷️ ${alert.severity} · ${alert.tier} · ${alert.changePercentage.toFixed(2)}%\n`,
+						);
+					}
+					message.push(`   📅 ${date}\n`);
+					if (alert.requiresAck) {
+						message.push(
+							alert.acknowledgedAt
+								? `   ✅ Acknowledged ${new Date(alert.acknowledgedAt).toLocaleString()}\n`
+								: `   ⏳ Open #${alert.id} · ${alert.escalationCount} reminder(s) · /ack ${alert.id}\n`,
+						);
+					}
+					if (alert.suppressionReason) {
+						message.push(`   🔇 Reason: ${alert.suppressionReason}\n`);
+					}
+					message.push("\n");
 				});
 
-				ctx.reply(message, { parse_mode: "Markdown" });
+				this.replyRendered(ctx, message);
 			} catch (error) {
 				console.error("Error fetching alerts:", error);
 				ctx.reply("❌ Error fetching recent alerts.");
@@ -1055,35 +3596,56 @@ class IQAgentsTelegramBot {
 			const preferences = database.getAllPreferences();
 			const holdingsStatus = this.holdingsWatcher.getStatus();
 
-			let message = `⚙️ *Current Settings:*\n\n`;
+			const message: MessagePart[] = [html`⚙️ ${bold("Current Settings:")}\n\n`];
 
-			message += `*Holdings Configuration:*\n`;
-			message += `💰 USD Threshold: ${agentsApi.formatCurrency(holdingsStatus.config.thresholdUsd)}\n`;
-			message += `📊 Change Threshold: ${holdingsStatus.config.significantChangePercentage}%\n`;
-			message += `⏰ Check Interval: ${holdingsStatus.config.checkInterval}s\n\n`;
+			message.push(html`${bold("Holdings Configuration:")}\n`);
+			message.push(
+				`💰 USD Threshold: ${agentsApi.formatUsd(holdingsStatus.config.thresholdUsd)}\n`,
+			);
+			message.push(
+				`📊 Change Threshold: ${holdingsStatus.config.significantChangePercentage}%\n`,
+			);
+			message.push(
+				`⏰ Check Interval: ${holdingsStatus.config.checkInterval}s\n\n`,
+			);
 
 			if (preferences.length > 0) {
-				message += `*Stored Preferences:*\n`;
+				message.push(html`${bold("Stored Preferences:")}\n`);
 				preferences.forEach((pref) => {
+					// The signing secret is only shown on request, through /webhook secret
 					const value =
 						pref.key === "holdings_threshold"
-							? agentsApi.formatCurrency(parseFloat(pref.value))
-							: pref.value;
-					message += `${pref.key}: ${value}\n`;
+							? agentsApi.formatUsd(parseFloat(pref.value))
+							: pref.key === "alert_webhook_secret"
+								? "*** (see /webhook secret)"
+								: pref.value.length > 60
+									? `${pref.value.slice(0, 60)}...`
+									: pref.value;
+					message.push(`${pref.key}: ${value}\n`);
 				});
-				message += "\n";
+				message.push("\n");
 			}
 
-			message += `*Configuration Commands:*\n`;
-			message += `💰 /set_threshold <amount> - Set USD threshold for portfolio alerts\n`;
-			message += `📊 /set_change_threshold <percentage> - Set percentage change threshold\n`;
-			message += `⏰ /set_interval <seconds> - Set monitoring interval\n`;
-			message += `🎯 /watch_config <address> <threshold> [interval] - Configure token monitoring\n`;
-			message += `⚙️ /config - View complete configuration overview\n`;
-			message += `📊 /history <token> [limit] - View price history\n`;
-			message += `🚨 /alerts - View recent alerts\n`;
+			message.push(html`${bold("Configuration Commands:")}\n`);
+			message.push(
+				`💰 /set_threshold <amount> - Set USD threshold for portfolio alerts\n`,
+			);
+			message.push(
+				`📊 /set_change_threshold <percentage> - Set percentage change threshold\n`,
+			);
+			message.push(`⏰ /set_interval <seconds> - Set monitoring interval\n`);
+			message.push(`👛 /wallet add|remove|list - Manage monitored wallets\n`);
+			message.push(
+				`🎯 /watch_config <address> <threshold> [interval] - Configure token monitoring\n`,
+			);
+			message.push(`⚙️ /config - View complete configuration overview\n`);
+			message.push(`📊 /history <token> [limit] - View price history\n`);
+			message.push(
+				`📈 /metrics <token> [limit] - View market cap, holders and inference history\n`,
+			);
+			message.push(`🚨 /alerts - View recent alerts\n`);
 
-			ctx.reply(message, { parse_mode: "Markdown" });
+			this.replyRendered(ctx, message);
 		});
 
 		// Help category handlers
@@ -1097,6 +3659,22 @@ class IQAgentsTelegramBot {
 					• /set_threshold (amount_usd) - Set USD threshold for portfolio alerts (e.g. /set_threshold 1000)
 					• /set_change_threshold (percentage) - Set percentage change threshold (e.g. /set_change_threshold 10)
 					• /set_interval (seconds) - Set monitoring interval in seconds (e.g. /set_interval 300)
+					• /wallet add (address) (label) [threshold_usd] [change_%] - Monitor another wallet with its own thresholds
+					• /wallet remove (address|label) - Stop monitoring a wallet
+					• /wallet list - View monitored wallets and their thresholds
+					• /portfolio_history [1d|7d|30d] [wallet] - Total value over time with high, low and change
+					• /performance [1d|7d|30d|90d] [wallet] - Compare the portfolio with an IQ-only position of equal starting value, in USD and IQ
+					• /allocation - Portfolio weights per agent and per category, flagging anything above the concentration limit
+					• /allocation limit (percentage|off) - Alert when one agent drifts above this share of the portfolio (default 40%)
+					• /rebalance - Compare weights with your targets and list the trades (token amounts and USD) that restore them
+					• /rebalance target (address) (weight_%) - Target weight for an agent token
+					• /rebalance category (name) (weight_%) - Target weight for a whole category
+					• /rebalance remove (address|category) - Drop a target
+					• /rebalance drift (points|off) - Alert when a weight is this many percentage points off target (default 5)
+					• /cost_basis list - View cost basis per token (inferred from the price when a balance increase is first seen)
+					• /cost_basis set (address) (price_usd) [amount] - Enter or correct the cost basis for a token
+					• /cost_basis remove (address) - Forget a cost basis so it is inferred again
+					• /cost_basis export - Download cost basis as CSV
 					• /start_holdings - Begin continuous portfolio monitoring with automatic alerts
 					• /stop_holdings - Stop portfolio monitoring and alerts
 
@@ -1104,6 +3682,12 @@ class IQAgentsTelegramBot {
 					/set_threshold 1000 - Alert when portfolio changes by $1000
 					/set_change_threshold 10 - Alert on 10% portfolio changes
 					/set_interval 300 - Check every 5 minutes
+					/wallet add 0x123... treasury 50000 5 - Treasury wallet with a $50,000 threshold and 5% change alerts
+					/cost_basis set 0x123... 0.0025 - Bought at $0.0025 per token
+					/portfolio_history 30d - How the portfolio evolved over the last month
+					/performance 30d - Did the portfolio beat holding IQ this month?
+					/allocation limit 30 - Warn when one agent is more than 30% of the portfolio
+					/rebalance target 0x123... 25 - Keep a quarter of the portfolio in this agent
 				`,
 				{
 					...Markup.inlineKeyboard([
@@ -1123,6 +3707,20 @@ class IQAgentsTelegramBot {
 					• /watch_config (address) (threshold_%) [interval_seconds] - Configure token with custom settings
 					• /watch_advanced (address) (minor_%) (major_%) (critical_%) [interval_seconds] - Advanced threshold configuration
 					• /alert_config (address) (minor:on/off) (major:on/off) (critical:on/off) - Configure alert types
+					• /watch_windows (address) (15m,1h,24h|off) - Alert on change over rolling time windows
+					• /watch_adaptive (address) (sigma|off) [samples] - Alert on moves that are unusual for this token's volatility
+					• /alert_basis (address) (usd|agent) - Alert on the full USD move or only the agent's own move in IQ
+					• /target (address|iq) (above|below) (price_usd) [once|rearm] - Alert when price crosses a level
+					• /targets [address|iq] - List active price targets
+					• /untarget (target_id) - Remove a price target
+					• /trailing (address) (drawdown|rebound|both) (percentage) [lookback] - Alert on a drop from the peak or a rebound from the trough
+					• /trailing_alerts [address] - List active trailing alerts
+					• /untrailing (alert_id) - Remove a trailing alert
+					• /trailing_auto (percentage|off) - Auto-arm trailing alerts for every held token
+					• /metric_alert (address) (mcap|holders|inferences|change24h) (above|below|rise|drop|stall) [value] [window] - Market cap, holders and inference alerts
+					• /metric_alerts [address] - List active metric alerts
+					• /unmetric_alert (alert_id) - Remove a metric alert
+					• /rule add|list|remove|test - Custom alert rules over price, market cap, holders and inferences
 					• /unwatch (token_address) - Remove token from watchlist
 					• /watched - View all tokens you're monitoring with latest prices
 					• /start_price - Enable price monitoring service for all watched tokens
@@ -1132,6 +3730,13 @@ class IQAgentsTelegramBot {
 					/watch_config 0x123... 5 60 - Watch token, 5% threshold, 60s interval
 					/watch_advanced 0x123... 2 10 20 - Advanced: 2%, 10%, 20% thresholds
 					/alert_config 0x123... on off on - Enable minor & critical alerts only
+					/watch_windows 0x123... 15m,1h,24h - Catch slow grinds as well as spikes
+					/watch_adaptive 0x123... 3 - Alert on 3σ moves measured against the last 50 checks
+					/alert_basis 0x123... agent - Ignore moves that only come from the IQ/USD rate
+					/target 0x123... above 0.0042 - Alert once when price crosses $0.0042 upward
+					/trailing 0x123... drawdown 15 - Trailing stop 15% below the peak since now
+					/metric_alert 0x123... holders rise 50 1d - Alert when 50+ new holders arrive within a day
+					/rule add breakout all pct_change(currentPriceInUSD, 1h) > 5 - Custom rule for every watched token
 				`,
 				{
 					...Markup.inlineKeyboard([
@@ -1179,9 +3784,11 @@ class IQAgentsTelegramBot {
 					• /iq_alerts (minor:on/off) (major:on/off) (critical:on/off) - Configure IQ alert types
 					• /iq_status - View IQ monitoring status and configuration
 					• /iq_price - Get current IQ token price
+					• /target iq (above|below) (price_usd) [once|rearm] - Set an IQ price target
 
 					Example Usage:
 					/iq_config 2 10 20 60 - 2%/10%/20% thresholds, 60s interval
+					/target iq below 0.003 rearm - Alert every time IQ falls below $0.003
 					/iq_alerts on off on - Enable minor & critical alerts only
 
 					Note: IQ price changes often indicate market-wide agent price movements
@@ -1201,16 +3808,34 @@ class IQAgentsTelegramBot {
 					⚙️ System & Configuration
 
 					• /config - View current configuration and monitoring settings
-					• /status - System health check: monitoring status, database stats, tracked tokens
+					• /status - System health check: monitoring status, database stats, tracked tokens, outbox queue
 					• /history (token_address) [limit_count] - View price history for any token (default: last 10 records)
-					• /alerts - View your recent alert history and notifications
+					• /metrics (token_address) [limit_count] - View market cap, holders and inference history for a watched token
+					• /alerts [muted|unacked] [token=..] [severity=..] [since=..] [until=..] - Query your alert history, alerts muted by the governor, or open critical alerts
+					• /ack (alert_id|all) - Acknowledge critical alerts so they stop escalating
+					• /ack_config (minutes) (max_reminders) - How often unacknowledged critical alerts are re-sent
+					• /alert_governor (cooldown_min) (rearm_band_%) [dedup_min] - Cooldown, re-arm band and duplicate collapsing for all alerts
+					• /quiet_hours (start) (end) [timezone] | off - Only critical price alerts during quiet hours, the rest as a summary afterwards
+					• /digest on|off | time (HH:MM) [timezone] | daily | weekly [day] | sections (list) | now - Scheduled portfolio digest
+					• /currency (usd|iq|both) - Show portfolio values, prices and alerts in USD, IQ or both
+					• /webhook set (url) | off | secret [rotate] | test | log [limit] - POST every alert as signed, versioned JSON to your own tools
+					• /channel add (name) (discord|slack|email|webhook) (url|emails) [severity] | remove | severity | test - Send alerts to more places, each with its own minimum severity
+					• /template set (type) (template) | preview (type) | reset (type) - Rewrite price, IQ price and portfolio alerts with {placeholders} such as {tokenName} and {changePercentage}
+					• /snooze (token_address|iq|all) (duration) - Mute alerts temporarily, /unsnooze to resume
 					• /settings - View current configuration and available customization options
 					• /myid - Get your Telegram user ID for bot authorization setup
 
 					Example Usage:
 					/history 0x123... 20 - Last 20 price records for token
+					/alerts token=0x123... severity=critical since=7d - Critical alerts for a token this week
 					/config - See all current settings and configurations
 					/status - Check if all monitoring services are running
+					/quiet_hours 23:00 07:00 Europe/Berlin - No minor alerts overnight
+					/digest weekly mon - Weekly summary every Monday
+					/currency both - Show every value in USD with the IQ amount next to it
+					/channel add ops slack https://hooks.slack.com/... critical - Only critical alerts to a shared Slack channel
+					/template preview price - See how price alerts look with your template
+					/snooze all 2h - Mute everything for two hours
 					/myid - Shows your user ID for AUTHORIZED_USER_ID env variable
 
 					Pro Tips:
@@ -1262,15 +3887,15 @@ class IQAgentsTelegramBot {
 		this.bot.action("help_main", async (ctx) => {
 			await ctx.answerCbQuery();
 			await ctx.editMessageText(
-				dedent`
-					🤖 *IQ Agents Watcher Bot - Help Menu*
+				dedentHtml`
+					🤖 ${bold("IQ Agents Watcher Bot - Help Menu")}
 
 					Welcome! I'll help you monitor your IQ Agent investments and get notified about important changes.
 
 					Choose a category below to learn more:
-				`,
+				`.html,
 				{
-					parse_mode: "Markdown",
+					parse_mode: "HTML",
 					...Markup.inlineKeyboard([
 						[
 							Markup.button.callback(
@@ -1293,6 +3918,32 @@ class IQAgentsTelegramBot {
 			);
 		});
 
+		// Critical alert buttons
+		this.bot.action(/^ack:(\d+)$/, async (ctx) => {
+			const alertId = Number(ctx.match[1]);
+			const acknowledged = this.alertEscalator.acknowledge(alertId);
+			await ctx.answerCbQuery(
+				acknowledged ? "✅ Acknowledged" : "Already acknowledged",
+			);
+			await this.removeAcknowledgeKeyboard(ctx);
+		});
+
+		this.bot.action(/^ack_snooze:(\d+)$/, async (ctx) => {
+			const alertId = Number(ctx.match[1]);
+			const alert = database.getAlert(alertId);
+			const target =
+				alert?.type === "iq_price"
+					? IQ_TOKEN_CONTRACT
+					: alert?.tokenContract || "all";
+
+			this.alertEscalator.acknowledge(alertId);
+			this.notificationScheduler.snooze(target, 60 * 60 * 1000);
+			await ctx.answerCbQuery(
+				target === "all" ? "😴 All alerts snoozed for 1h" : "😴 Snoozed for 1h",
+			);
+			await this.removeAcknowledgeKeyboard(ctx);
+		});
+
 		// Inline query handlers for start menu
 		this.bot.action("portfolio_status", async (ctx) => {
 			await ctx.answerCbQuery();
@@ -1319,51 +3970,308 @@ class IQAgentsTelegramBot {
 		});
 	}
 
+	// Accepts a relative duration ("24h" = 24 hours ago) or a calendar date
+	// With endOfDay, a bare date such as until=2026-10-19 includes the whole day
+	private parseTimeArgument(value: string, endOfDay = false): number | null {
+		const durationMs = parseDuration(value);
+		if (durationMs !== null) return Date.now() - durationMs;
+
+		const date = Date.parse(value);
+		if (Number.isNaN(date)) return null;
+		return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)
+			? date + 24 * 60 * 60 * 1000 - 1
+			: date;
+	}
+
+	private resolveSnoozeTarget(input: string): string | null {
+		const normalized = input.toLowerCase();
+		if (normalized === "all") return "all";
+		if (normalized === "iq") return IQ_TOKEN_CONTRACT;
+		return this.priceWatcher.getTokenStatus(input) ? input : null;
+	}
+
 	private setupWatchers(): void {
 		// Holdings watcher alerts
 		this.holdingsWatcher.on("alert", (alert: HoldingsAlert) => {
-			this.broadcastMessage(alert.message);
+			const admitted = this.dispatchAlert({
+				source: "holdings",
+				...(alert.tokenContract ? { tokenContract: alert.tokenContract } : {}),
+				// Cooldowns are tracked per wallet for wallet-level alerts
+				tier: alert.walletAddress
+					? `${alert.type}:${alert.walletAddress}`
+					: alert.category
+						? `${alert.type}:${alert.category}`
+						: alert.type,
+				...(alert.type === "drawdown" ? { severity: "high" as const } : {}),
+				// Position alerts re-arm on the token amount, concentration and drift alerts on the weight
+				value:
+					alert.drift ??
+					alert.weight ??
+					alert.amount ??
+					alert.currentPrice ??
+					alert.totalValue,
+				message: alert.message,
+				...(alert.alertId !== undefined ? { alertId: alert.alertId } : {}),
+				timestamp: alert.timestamp,
+			});
+			// Receivers only see alerts that reached the user, like every other channel
+			if (admitted) this.alertWebhook.deliver("holdings", alert);
 		});
 
 		this.holdingsWatcher.on("error", (error: Error) => {
 			console.error("Holdings watcher error:", error);
-			this.broadcastMessage(`❌ Holdings monitoring error: ${error.message}`);
+			this.notify(`❌ Holdings monitoring error: ${error.message}`);
 		});
 
 		// Price watcher alerts
 		this.priceWatcher.on("alert", (alert: PriceAlert) => {
-			this.broadcastMessage(alert.message);
+			const admitted = this.dispatchAlert({
+				source: "price",
+				tokenContract: alert.tokenContract,
+				tier: this.getPriceAlertTier(alert),
+				severity: alert.severity,
+				// Metric alerts re-arm on the metric itself, not on price
+				value: alert.metricValue ?? alert.currentPrice,
+				message: alert.message,
+				...(alert.alertId !== undefined ? { alertId: alert.alertId } : {}),
+				timestamp: alert.timestamp,
+			});
+			if (admitted) this.alertWebhook.deliver("price", alert);
 		});
 
 		this.priceWatcher.on("error", (error: Error) => {
 			console.error("Price watcher error:", error);
-			this.broadcastMessage(`❌ Price monitoring error: ${error.message}`);
+			this.notify(`❌ Price monitoring error: ${error.message}`);
 		});
 
 		// IQ price watcher alerts
 		this.iqPriceWatcher.on("alert", (alert: IQPriceAlert) => {
-			this.broadcastMessage(alert.message);
+			const admitted = this.dispatchAlert({
+				source: "iq_price",
+				tokenContract: IQ_TOKEN_CONTRACT,
+				tier:
+					alert.type === "iq_price_target"
+						? `target:${alert.targetPrice}`
+						: alert.severity,
+				severity: alert.severity,
+				value: alert.currentPrice,
+				message: alert.message,
+				...(alert.alertId !== undefined ? { alertId: alert.alertId } : {}),
+				timestamp: alert.timestamp,
+			});
+			if (admitted) this.alertWebhook.deliver("iq_price", alert);
+		});
+
+		// Unacknowledged critical alerts are re-sent with escalating urgency
+		this.alertEscalator.on("escalate", (escalation: AlertEscalation) => {
+			this.broadcastMessage(
+				escalation.message,
+				"critical",
+				escalation.alert.id!,
+			);
+		});
+
+		this.alertEscalator.on("error", (error: Error) => {
+			console.error("Alert escalator error:", error);
+		});
+
+		this.outbox.on("error", (error: Error) => {
+			console.error("Outbox error:", error);
+		});
+
+		// Failed deliveries are in the webhook log, so they are not announced in the chat
+		this.alertWebhook.on("error", (error: Error) => {
+			console.error("Alert webhook error:", error.message);
+		});
+
+		// Held notifications are delivered as one summary once quiet hours end
+		this.notificationScheduler.on(
+			"summary",
+			(message: string, severity: NotificationSeverity) => {
+				this.broadcastMessage(message, severity);
+			},
+		);
+
+		this.digestScheduler.on("digest", (message: string) => {
+			this.broadcastMessage(message);
 		});
 
 		this.iqPriceWatcher.on("error", (error: Error) => {
 			console.error("IQ price watcher error:", error);
-			this.broadcastMessage(`❌ IQ price monitoring error: ${error.message}`);
+			this.notify(`❌ IQ price monitoring error: ${error.message}`);
 		});
 	}
 
-	private async broadcastMessage(message: string): Promise<void> {
+	// Every watcher alert passes through snooze, the governor and quiet hours before it reaches the chat.
+	// Returns false for alerts that were snoozed or suppressed
+	private dispatchAlert(alert: GovernedAlert): boolean {
+		if (this.notificationScheduler.isSnoozed(alert.tokenContract)) {
+			this.alertGovernor.recordSuppressed(alert, "snoozed");
+			return false;
+		}
+
+		if (!this.alertGovernor.admit(alert)) return false;
+
+		// Only critical price alerts break through quiet hours, and they stay open until acknowledged
+		if (alert.severity === "critical") {
+			const alertId = this.alertEscalator.track(alert);
+			this.broadcastMessage(alert.message, "critical", alertId);
+		} else {
+			// Alerts without a severity of their own sit in the middle of the channel filters
+			this.notify(alert.message, alert.timestamp, alert.severity ?? "medium");
+		}
+		return true;
+	}
+
+	private notify(
+		message: string,
+		timestamp: Date = new Date(),
+		severity: NotificationSeverity = "info",
+	): void {
+		if (this.notificationScheduler.isQuietTime()) {
+			this.notificationScheduler.enqueue(message, timestamp, severity);
+			return;
+		}
+		this.broadcastMessage(message, severity);
+	}
+
+	private formatAddress(address: string): string {
+		return `${address.slice(0, 6)}...${address.slice(-4)}`;
+	}
+
+	// Webhook URLs carry their secret in the path, so only the host is shown
+	private formatChannelTarget(target: string): string {
+		return URL.canParse(target) ? new URL(target).host : target;
+	}
+
+	private formatDigestSchedule(): string {
+		const { config } = this.digestScheduler.getStatus();
+		if (!config.enabled) return "Off";
+
+		const day =
+			config.frequency === "weekly"
+				? `weekly on ${WEEKDAYS[config.weekday]}`
+				: "daily";
+		return `${day} at ${config.time} (${config.timezone})`;
+	}
+
+	// Cooldowns are tracked per tier, so each kind of price alert gets its own key
+	private getPriceAlertTier(alert: PriceAlert): string {
+		switch (alert.type) {
+			case "price_target":
+				return `target:${alert.targetPrice}`;
+			case "rule":
+				return `rule:${alert.ruleName}`;
+			case "metric":
+				return `metric:${alert.metric}`;
+			case "drawdown":
+			case "rebound":
+				return `trailing:${alert.type}`;
+			default:
+				return alert.severity;
+		}
+	}
+
+	private async removeAcknowledgeKeyboard(ctx: Context): Promise<void> {
 		try {
-			if (this.userChatId) {
-				await this.bot.telegram.sendMessage(this.userChatId, message, {
-					parse_mode: "Markdown",
-				});
-				console.log("✅ Notification sent to user");
-			} else {
-				console.log("⚠️ No user chat ID available, logging message:", message);
-			}
+			await ctx.editMessageReplyMarkup(undefined);
 		} catch (error) {
-			console.error("❌ Failed to send notification:", error);
+			// Telegram rejects the edit when the keyboard is already gone, e.g. on a second tap
+			console.error("Error removing acknowledge keyboard:", error);
+		}
+	}
+
+	private acknowledgeKeyboard(alertId: number) {
+		return Markup.inlineKeyboard([
+			[
+				Markup.button.callback("✅ Acknowledge", `ack:${alertId}`),
+				Markup.button.callback("😴 Snooze 1h", `ack_snooze:${alertId}`),
+			],
+		]);
+	}
+
+	// Formatted replies are rendered as HTML, so names from the API can't break parsing
+	private replyRendered(
+		ctx: Context,
+		message: MessagePart | MessagePart[],
+		extra: Convenience.ExtraReplyMessage = {},
+	) {
+		return sendRendered(message, (text, parseMode) =>
+			ctx.reply(text, {
+				...extra,
+				...(parseMode ? { parse_mode: parseMode } : {}),
+			}),
+		);
+	}
+
+	private editRendered(
+		ctx: Context,
+		messageId: number,
+		message: MessagePart | MessagePart[],
+	) {
+		return sendRendered(message, (text, parseMode) =>
+			ctx.telegram.editMessageText(
+				ctx.chat?.id,
+				messageId,
+				undefined,
+				text,
+				parseMode ? { parse_mode: parseMode } : {},
+			),
+		);
+	}
+
+	// Fans out to Telegram and every configured channel whose severity filter allows it
+	private async broadcastMessage(
+		message: string,
+		severity: NotificationSeverity = "info",
+		alertId?: number,
+	): Promise<void> {
+		await this.notifier.send({
+			message,
+			severity,
+			...(alertId !== undefined ? { alertId } : {}),
+			timestamp: new Date(),
+		});
+	}
+
+	// Telegram messages go through the outbox, which retries them and keeps Telegram's rate limits
+	private async sendToChat(notification: Notification): Promise<void> {
+		if (!this.userChatId) {
+			console.log(
+				"⚠️ No user chat ID available yet, holding message in the outbox",
+			);
+		}
+
+		// Alert text is plain, so escaping it keeps token names from breaking the formatting
+		this.outbox.enqueue(render(notification.message).html, {
+			chatId: this.userChatId,
+			parseMode: "HTML",
+			...(notification.alertId !== undefined
+				? { alertId: notification.alertId }
+				: {}),
+		});
+	}
+
+	private async sendOutboxMessage(
+		chatId: number,
+		message: OutboxMessage,
+	): Promise<void> {
+		const extra: Convenience.ExtraReplyMessage =
+			message.alertId !== null ? this.acknowledgeKeyboard(message.alertId) : {};
+		if (message.parseMode !== "HTML") {
+			await this.bot.telegram.sendMessage(chatId, message.message, {
+				...(message.parseMode ? { parse_mode: message.parseMode } : {}),
+				...extra,
+			});
+			return;
 		}
+
+		await sendRendered(new Rendered(message.message), (text, parseMode) =>
+			this.bot.telegram.sendMessage(chatId, text, {
+				...(parseMode ? { parse_mode: parseMode } : {}),
+				...extra,
+			}),
+		);
 	}
 
 	async start(): Promise<void> {
@@ -1377,6 +4285,10 @@ class IQAgentsTelegramBot {
 		await this.holdingsWatcher.start();
 		await this.priceWatcher.start();
 		await this.iqPriceWatcher.start();
+		this.notificationScheduler.start();
+		this.alertEscalator.start();
+		this.digestScheduler.start();
+		this.outbox.start();
 
 		// Graceful shutdown
 		process.once("SIGINT", () => this.stop());
@@ -1389,6 +4301,11 @@ class IQAgentsTelegramBot {
 		await this.holdingsWatcher.stop();
 		await this.priceWatcher.stop();
 		await this.iqPriceWatcher.stop();
+		this.notificationScheduler.stop();
+		this.alertEscalator.stop();
+		this.digestScheduler.stop();
+		this.alertWebhook.stop();
+		this.outbox.stop();
 		this.bot.stop();
 
 		console.log("✅ Bot stopped successfully!");
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
 import axiosRetry from "axios-retry";
 import { env } from "../env";
+import { database } from "./database";
 
 export interface Holding {
 	tokenContract: string;
@@ -82,10 +83,20 @@ export interface TopAgentsResponse {
 
 export type SortBy = "mcap" | "holders" | "inferences";
 
+export type DisplayCurrency = "usd" | "iq" | "both";
+
 class AgentsApiService {
 	private api: AxiosInstance;
+	private displayCurrency: DisplayCurrency;
+	private iqPriceInUsd: number | null = null; // From the latest /prices response
 
 	constructor() {
+		const dbDisplayCurrency = database.getPreference("display_currency");
+		this.displayCurrency =
+			dbDisplayCurrency === "iq" || dbDisplayCurrency === "both"
+				? dbDisplayCurrency
+				: "usd";
+
 		this.api = axios.create({
 			baseURL: env.IQ_API_BASE_URL,
 			timeout: 30000,
@@ -150,6 +161,9 @@ class AgentsApiService {
 		try {
 			const response: AxiosResponse<PricesResponse> =
 				await this.api.get("/prices");
+			if (response.data.everipedia.usd > 0) {
+				this.iqPriceInUsd = response.data.everipedia.usd;
+			}
 			return response.data;
 		} catch (error) {
 			console.error("Error fetching prices:", error);
@@ -212,7 +226,23 @@ class AgentsApiService {
 		}, 0);
 	}
 
-	formatCurrency(amount: number): string {
+	// Renders a USD amount in the display currency; pass amountInIq when it is known exactly
+	formatCurrency(amount: number, amountInIq?: number): string {
+		const inIq =
+			amountInIq ??
+			(this.iqPriceInUsd !== null ? amount / this.iqPriceInUsd : null);
+		// Without an IQ price yet, fall back to USD
+		if (this.displayCurrency === "usd" || inIq === null) {
+			return this.formatUsd(amount);
+		}
+
+		return this.displayCurrency === "iq"
+			? this.formatIq(inIq)
+			: `${this.formatUsd(amount)} (${this.formatIq(inIq)})`;
+	}
+
+	// Always USD, for amounts that only make sense in dollars such as the IQ price itself
+	formatUsd(amount: number): string {
 		return new Intl.NumberFormat("en-US", {
 			style: "currency",
 			currency: "USD",
@@ -221,6 +251,22 @@ class AgentsApiService {
 		}).format(amount);
 	}
 
+	formatIq(amount: number): string {
+		return `${new Intl.NumberFormat("en-US", {
+			minimumFractionDigits: 2,
+			maximumFractionDigits: 6,
+		}).format(amount)} IQ`;
+	}
+
+	getDisplayCurrency(): DisplayCurrency {
+		return this.displayCurrency;
+	}
+
+	setDisplayCurrency(currency: DisplayCurrency): void {
+		this.displayCurrency = currency;
+		database.setPreference("display_currency", currency);
+	}
+
 	formatTokenAmount(amount: string): string {
 		const num = parseFloat(amount);
 		if (num >= 1000000) {
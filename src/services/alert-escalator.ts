@@ -0,0 +1,174 @@
+import { EventEmitter } from "node:events";
+import { formatDuration } from "../utils/duration";
+import type { GovernedAlert } from "./alert-governor";
+import { type AlertRecord, database } from "./database";
+import type { NotificationScheduler } from "./notification-scheduler";
+
+interface EscalationConfig {
+	escalationMinutes: number;
+	maxEscalations: number;
+}
+
+export interface AlertEscalation {
+	alert: AlertRecord;
+	level: number;
+	message: string;
+}
+
+export class AlertEscalator extends EventEmitter {
+	private config: EscalationConfig;
+	private notificationScheduler: NotificationScheduler;
+	private isRunning: boolean = false;
+	private intervalId: NodeJS.Timeout | null = null;
+
+	constructor(
+		notificationScheduler: NotificationScheduler,
+		config: Partial<EscalationConfig> = {},
+	) {
+		super();
+		this.notificationScheduler = notificationScheduler;
+
+		// Load preferences from database
+		const dbEscalationMinutes = database.getPreference(
+			"ack_escalation_minutes",
+		);
+		const dbMaxEscalations = database.getPreference("ack_max_escalations");
+
+		this.config = {
+			escalationMinutes:
+				config.escalationMinutes ??
+				(dbEscalationMinutes ? parseFloat(dbEscalationMinutes) : 10),
+			maxEscalations:
+				config.maxEscalations ??
+				(dbMaxEscalations ? parseInt(dbMaxEscalations) : 3),
+		};
+	}
+
+	start(): void {
+		if (this.isRunning) return;
+
+		this.isRunning = true;
+		this.intervalId = setInterval(() => {
+			try {
+				this.checkUnacknowledged();
+			} catch (error) {
+				console.error("Error checking unacknowledged alerts:", error);
+				this.emit("error", error);
+			}
+		}, 60 * 1000);
+	}
+
+	stop(): void {
+		if (!this.isRunning) return;
+
+		this.isRunning = false;
+		if (this.intervalId) {
+			clearInterval(this.intervalId);
+			this.intervalId = null;
+		}
+	}
+
+	// Open a critical alert so it is re-sent until someone acknowledges it
+	track(alert: GovernedAlert): number {
+		const now = Date.now();
+		const alertId =
+			alert.alertId ??
+			database.addAlert({
+				type: alert.source,
+				...(alert.tokenContract ? { tokenContract: alert.tokenContract } : {}),
+				message: alert.message,
+				timestamp: alert.timestamp.getTime(),
+				triggered: false,
+			});
+
+		database.requireAcknowledgement(alertId, now);
+		return alertId;
+	}
+
+	acknowledge(alertId: number): boolean {
+		const acknowledged = database.markAlertAsTriggered(alertId);
+		if (acknowledged) {
+			console.log(`✅ Alert #${alertId} acknowledged`);
+		}
+		return acknowledged;
+	}
+
+	acknowledgeAll(): number {
+		return database.markAllAlertsAsTriggered();
+	}
+
+	private checkUnacknowledged(): void {
+		const now = Date.now();
+		const due = database.getAlertsDueForEscalation(
+			now - this.config.escalationMinutes * 60 * 1000,
+			this.config.maxEscalations,
+		);
+
+		for (const alert of due) {
+			// Reminders wait while the token is snoozed and pick up again once the snooze ends
+			if (this.notificationScheduler.isSnoozed(alert.tokenContract)) continue;
+
+			const level = (alert.escalationCount ?? 0) + 1;
+			database.recordEscalation(alert.id!, now);
+
+			const escalation: AlertEscalation = {
+				alert,
+				level,
+				message: this.createEscalationMessage(alert, level, now),
+			};
+			this.emit("escalate", escalation);
+		}
+	}
+
+	private createEscalationMessage(
+		alert: AlertRecord,
+		level: number,
+		now: number,
+	): string {
+		const sirens = "🚨".repeat(Math.min(level + 1, 5));
+		const isLast = level >= this.config.maxEscalations;
+
+		return (
+			`${sirens} UNACKNOWLEDGED CRITICAL ALERT #${alert.id} (reminder ${level}/${this.config.maxEscalations})\n` +
+			`⏰ Open for ${formatDuration(now - alert.timestamp)}\n\n` +
+			`${alert.message}\n\n` +
+			(isLast
+				? "⚠️ This is the final reminder."
+				: `🔁 Next reminder in ${this.config.escalationMinutes}m unless acknowledged.`)
+		);
+	}
+
+	updateConfig(newConfig: Partial<EscalationConfig>): void {
+		this.config = { ...this.config, ...newConfig };
+
+		// Save preferences to database
+		if (newConfig.escalationMinutes !== undefined) {
+			database.setPreference(
+				"ack_escalation_minutes",
+				newConfig.escalationMinutes.toString(),
+			);
+		}
+		if (newConfig.maxEscalations !== undefined) {
+			database.setPreference(
+				"ack_max_escalations",
+				newConfig.maxEscalations.toString(),
+			);
+		}
+
+		console.log("⚙️  Alert escalation config updated:", this.config);
+	}
+
+	getStatus(): {
+		isRunning: boolean;
+		config: EscalationConfig;
+		unacknowledgedCount: number;
+	} {
+		return {
+			isRunning: this.isRunning,
+			config: this.config,
+			unacknowledgedCount: database.countAlerts({ status: "unacknowledged" }),
+		};
+	}
+}
+
+export default AlertEscalator;
@@ -0,0 +1,173 @@
+import { type AlertRecord, database } from "./database";
+
+export interface GovernedAlert {
+	source: AlertRecord["type"];
+	tokenContract?: string;
+	tier: string; // Severity or alert kind; cooldowns are tracked per token and tier
+	severity?: "low" | "medium" | "high" | "critical";
+	value: number; // Price or portfolio value the re-arm band is measured against
+	message: string;
+	alertId?: number; // Set when the watcher already stored the alert
+	timestamp: Date;
+}
+
+export type SuppressionReason =
+	| "duplicate"
+	| "cooldown"
+	| "rearm_band"
+	| "snoozed";
+
+interface GovernorConfig {
+	cooldownMinutes: number;
+	rearmBandPercentage: number;
+	dedupMinutes: number;
+}
+
+// Targets, rules, metric, trailing and threshold alerts disarm themselves after firing and only
+// fire again once they re-armed, so their next hit is always new even close to the last value
+const SELF_ARMING_TIER =
+	/^(target|rule|metric|trailing|threshold_reached|drawdown|rebound)(:|$)/;
+
+interface TierState {
+	lastFiredAt: number;
+	lastValue: number;
+}
+
+export class AlertGovernor {
+	private config: GovernorConfig;
+	private tierStates: Map<string, TierState> = new Map();
+	private recentMessages: Map<string, number> = new Map();
+
+	constructor(config: Partial<GovernorConfig> = {}) {
+		// Load preferences from database
+		const dbCooldown = database.getPreference("alert_cooldown_minutes");
+		const dbRearmBand = database.getPreference("alert_rearm_band");
+		const dbDedup = database.getPreference("alert_dedup_minutes");
+
+		this.config = {
+			cooldownMinutes:
+				config.cooldownMinutes ?? (dbCooldown ? parseFloat(dbCooldown) : 15),
+			rearmBandPercentage:
+				config.rearmBandPercentage ??
+				(dbRearmBand ? parseFloat(dbRearmBand) : 1),
+			dedupMinutes: config.dedupMinutes ?? (dbDedup ? parseFloat(dbDedup) : 60),
+		};
+	}
+
+	// Decide whether an alert should be delivered; suppressed alerts are still recorded
+	admit(alert: GovernedAlert): boolean {
+		const now = alert.timestamp.getTime();
+		const reason = this.getSuppressionReason(alert, now);
+
+		if (reason) {
+			this.recordSuppressed(alert, reason);
+			console.log(
+				`🔇 Suppressed ${alert.source} alert (${alert.tier}) for ${alert.tokenContract || "portfolio"}: ${reason}`,
+			);
+			return false;
+		}
+
+		this.tierStates.set(this.getKey(alert), {
+			lastFiredAt: now,
+			lastValue: alert.value,
+		});
+		this.recentMessages.set(alert.message, now);
+		this.pruneRecentMessages(now);
+		return true;
+	}
+
+	private getSuppressionReason(
+		alert: GovernedAlert,
+		now: number,
+	): SuppressionReason | null {
+		const selfArming = SELF_ARMING_TIER.test(alert.tier);
+		const dedupMs = this.config.dedupMinutes * 60 * 1000;
+		const lastSeen = this.recentMessages.get(alert.message);
+		if (!selfArming && lastSeen !== undefined && now - lastSeen < dedupMs) {
+			return "duplicate";
+		}
+
+		const state = this.tierStates.get(this.getKey(alert));
+		if (!state) return null;
+
+		if (now - state.lastFiredAt < this.config.cooldownMinutes * 60 * 1000) {
+			return "cooldown";
+		}
+
+		// The same tier only re-arms once the value has moved away from where it last fired
+		if (!selfArming && state.lastValue > 0) {
+			const distance =
+				(Math.abs(alert.value - state.lastValue) / state.lastValue) * 100;
+			if (distance < this.config.rearmBandPercentage) {
+				return "rearm_band";
+			}
+		}
+
+		return null;
+	}
+
+	recordSuppressed(alert: GovernedAlert, reason: SuppressionReason): void {
+		if (alert.alertId !== undefined) {
+			database.markAlertAsSuppressed(alert.alertId, reason);
+			return;
+		}
+
+		database.addAlert({
+			type: alert.source,
+			...(alert.tokenContract ? { tokenContract: alert.tokenContract } : {}),
+			message: alert.message,
+			timestamp: alert.timestamp.getTime(),
+			triggered: false,
+			suppressed: true,
+			suppressionReason: reason,
+		});
+	}
+
+	private getKey(alert: GovernedAlert): string {
+		return `${alert.source}:${alert.tokenContract || "portfolio"}:${alert.tier}`;
+	}
+
+	private pruneRecentMessages(now: number): void {
+		const dedupMs = this.config.dedupMinutes * 60 * 1000;
+		for (const [message, seenAt] of this.recentMessages) {
+			if (now - seenAt >= dedupMs) {
+				this.recentMessages.delete(message);
+			}
+		}
+	}
+
+	updateConfig(newConfig: Partial<GovernorConfig>): void {
+		this.config = { ...this.config, ...newConfig };
+
+		// Save preferences to database
+		if (newConfig.cooldownMinutes !== undefined) {
+			database.setPreference(
+				"alert_cooldown_minutes",
+				newConfig.cooldownMinutes.toString(),
+			);
+		}
+		if (newConfig.rearmBandPercentage !== undefined) {
+			database.setPreference(
+				"alert_rearm_band",
+				newConfig.rearmBandPercentage.toString(),
+			);
+		}
+		if (newConfig.dedupMinutes !== undefined) {
+			database.setPreference(
+				"alert_dedup_minutes",
+				newConfig.dedupMinutes.toString(),
+			);
+		}
+
+		console.log("⚙️  Alert governor config updated:", this.config);
+	}
+
+	getStatus(): { config: GovernorConfig; trackedTiers: number } {
+		return {
+			config: this.config,
+			trackedTiers: this.tierStates.size,
+		};
+	}
+}
+
+export default AlertGovernor;
@@ -0,0 +1,272 @@
+import {
+	collectOperands,
+	evaluateRuleExpression,
+	type MetricSnapshot,
+	type OperandResolver,
+	parseRuleExpression,
+	type RuleExpression,
+	type RuleField,
+	resolveOperand,
+} from "../utils/rule-expression";
+import { type AgentStats, agentsApi } from "./agents";
+import { type AlertRule, database, type PriceHistoryRecord } from "./database";
+
+export interface RuleTestResult {
+	tokenContract: string;
+	tokenName: string;
+	pointsEvaluated: number;
+	matches: number[]; // Timestamps where the rule would have fired
+	currentlyMatching: boolean;
+	unresolvedOperands: string[]; // Operands without a value at any point, so they never matched
+}
+
+class AlertRulesService {
+	private parsedRules: Map<string, RuleExpression> = new Map();
+
+	addRule(
+		name: string,
+		tokenContract: string | null,
+		expression: string,
+		severity: AlertRule["severity"] = "medium",
+	): AlertRule {
+		if (database.getAlertRule(name)) {
+			throw new Error(`A rule named "${name}" already exists`);
+		}
+
+		// Throws with a readable message if the expression is invalid
+		parseRuleExpression(expression);
+
+		const rule: Omit<AlertRule, "id"> = {
+			name,
+			tokenContract,
+			expression,
+			severity,
+			isActive: true,
+			lastTriggeredAt: null,
+			matchingTokens: [],
+			createdAt: Date.now(),
+		};
+		const id = database.addAlertRule(rule);
+		console.log(
+			`🧩 Added rule ${name} for ${tokenContract || "all watched tokens"}: ${expression}`,
+		);
+		return { id, ...rule };
+	}
+
+	getRules(tokenContract?: string): AlertRule[] {
+		return database.getAlertRules(tokenContract);
+	}
+
+	getRule(name: string): AlertRule | null {
+		return database.getAlertRule(name);
+	}
+
+	removeRule(name: string): boolean {
+		return database.removeAlertRule(name);
+	}
+
+	snapshotFromStats(stats: AgentStats): MetricSnapshot {
+		return {
+			currentPriceInUSD: stats.currentPriceInUSD,
+			currentPriceInIq: stats.currentPriceInIq,
+			...(stats.currentPriceInIq > 0
+				? { iqPriceInUSD: stats.currentPriceInUSD / stats.currentPriceInIq }
+				: {}),
+			marketCap: stats.marketCap,
+			changeIn24h: stats.changeIn24h,
+			holdersCount: stats.holdersCount,
+			inferenceCount: stats.inferenceCount,
+		};
+	}
+
+	// Returns the rules that started matching on this poll; the match state is stored with the
+	// rule, so a rule that keeps matching doesn't fire again after a restart
+	evaluate(
+		tokenContract: string,
+		snapshot: MetricSnapshot,
+		now: number,
+	): AlertRule[] {
+		const triggered: AlertRule[] = [];
+
+		for (const rule of database.getAlertRules(tokenContract)) {
+			const expression = this.getExpression(rule);
+			if (!expression) continue;
+
+			const matching = evaluateRuleExpression(
+				expression,
+				this.createResolver(tokenContract, snapshot, now),
+			);
+			const wasMatching = rule.matchingTokens.includes(tokenContract);
+			if (matching !== wasMatching) {
+				database.setAlertRuleMatchingTokens(
+					rule.id!,
+					matching
+						? [...rule.matchingTokens, tokenContract]
+						: rule.matchingTokens.filter((token) => token !== tokenContract),
+				);
+			}
+
+			if (matching && !wasMatching) {
+				database.updateAlertRuleTriggered(rule.id!, now);
+				triggered.push({ ...rule, lastTriggeredAt: now });
+			}
+		}
+
+		return triggered;
+	}
+
+	// Replay stored history without sending anything
+	test(
+		rule: AlertRule,
+		tokenContract: string,
+		tokenName: string,
+		lookbackMs: number,
+	): RuleTestResult {
+		const expression = parseRuleExpression(rule.expression);
+		const now = Date.now();
+		const history = database.getPriceHistoryBetween(
+			tokenContract,
+			now - lookbackMs,
+			now,
+		);
+
+		const unresolved = new Map(
+			collectOperands(expression)
+				.filter((operand) => operand.kind !== "number")
+				.map((operand) => [operand.text, operand]),
+		);
+		const matches: number[] = [];
+		let wasMatching = false;
+		for (const point of history) {
+			const resolver = this.createResolver(
+				tokenContract,
+				this.snapshotFromHistory(point),
+				point.timestamp,
+			);
+			for (const [text, operand] of unresolved) {
+				if (resolveOperand(operand, resolver) !== null) {
+					unresolved.delete(text);
+				}
+			}
+
+			const matching = evaluateRuleExpression(expression, resolver);
+			if (matching && !wasMatching) {
+				matches.push(point.timestamp);
+			}
+			wasMatching = matching;
+		}
+
+		return {
+			tokenContract,
+			tokenName,
+			pointsEvaluated: history.length,
+			matches,
+			currentlyMatching: wasMatching,
+			unresolvedOperands: history.length > 0 ? [...unresolved.keys()] : [],
+		};
+	}
+
+	createRuleMessage(
+		rule: AlertRule,
+		tokenContract: string,
+		tokenName: string,
+		snapshot: MetricSnapshot,
+		now: number,
+	): string {
+		const severityEmoji = {
+			low: "🔵",
+			medium: "🟡",
+			high: "🟠",
+			critical: "🔴",
+		};
+		const resolver = this.createResolver(tokenContract, snapshot, now);
+		const seen = new Set<string>();
+		let values = "";
+
+		for (const operand of collectOperands(this.getExpression(rule)!)) {
+			if (seen.has(operand.text)) continue;
+			seen.add(operand.text);
+
+			const value = resolveOperand(operand, resolver);
+			values += `• ${operand.text} = ${value === null ? "n/a" : this.formatValue(value)}\n`;
+		}
+
+		return (
+			`🧩 ${severityEmoji[rule.severity]} Rule ${rule.name} triggered for ${tokenName}\n\n` +
+			`📐 Condition: ${rule.expression}\n\n` +
+			`📊 Values:\n${values}\n` +
+			`💰 Current price: ${agentsApi.formatCurrency(snapshot.currentPriceInUSD ?? 0)}`
+		);
+	}
+
+	private getExpression(rule: AlertRule): RuleExpression | null {
+		const cached = this.parsedRules.get(rule.expression);
+		if (cached) return cached;
+
+		try {
+			const expression = parseRuleExpression(rule.expression);
+			this.parsedRules.set(rule.expression, expression);
+			return expression;
+		} catch (error) {
+			console.error(`❌ Rule ${rule.name} has an invalid expression:`, error);
+			return null;
+		}
+	}
+
+	private createResolver(
+		tokenContract: string,
+		snapshot: MetricSnapshot,
+		now: number,
+	): OperandResolver {
+		return (operand) => {
+			if (operand.kind === "field") {
+				return snapshot[operand.field] ?? null;
+			}
+			if (operand.kind !== "change") return null;
+
+			const current = snapshot[operand.field];
+			const reference = database.getPriceAtOrBefore(
+				tokenContract,
+				now - operand.windowMs,
+			);
+			if (current === undefined || !reference) return null;
+
+			const previous = this.snapshotFromHistory(reference)[operand.field];
+			if (previous === undefined) return null;
+
+			if (!operand.percent) return current - previous;
+			return previous === 0
+				? null
+				: agentsApi.calculatePercentageChange(previous, current);
+		};
+	}
+
+	private snapshotFromHistory(record: PriceHistoryRecord): MetricSnapshot {
+		const snapshot: MetricSnapshot = { currentPriceInUSD: record.price };
+		const fields: [RuleField, number | null | undefined][] = [
+			["currentPriceInIq", record.priceInIq],
+			["marketCap", record.marketCap],
+			["changeIn24h", record.changeIn24h],
+			["holdersCount", record.holdersCount],
+			["inferenceCount", record.inferenceCount],
+		];
+
+		for (const [field, value] of fields) {
+			if (value !== null && value !== undefined) {
+				snapshot[field] = value;
+			}
+		}
+		if (record.priceInIq) {
+			snapshot.iqPriceInUSD = record.price / record.priceInIq;
+		}
+		return snapshot;
+	}
+
+	private formatValue(value: number): string {
+		if (Number.isInteger(value)) return value.toLocaleString("en-US");
+		return Math.abs(value) >= 1 ? value.toFixed(2) : value.toPrecision(4);
+	}
+}
+
+export const alertRules = new AlertRulesService();
+export default alertRules;
@@ -0,0 +1,223 @@
+import { type AlertTemplate, database } from "./database";
+
+export type AlertTemplateType = AlertTemplate["type"];
+
+export const ALERT_TEMPLATE_TYPES: AlertTemplateType[] = [
+	"price",
+	"iq_price",
+	"holdings_change",
+	"holdings_threshold",
+];
+
+// Values are formatted by the watcher; "...Line" values are empty or end with a line break
+export type TemplateValues = Record<string, string>;
+
+interface Placeholder {
+	description: string;
+	sample: string; // Used by /template preview
+}
+
+interface TemplateDefinition {
+	description: string;
+	template: string; // Reproduces the message sent before templates could be edited
+	placeholders: Record<string, Placeholder>;
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+const DEFINITIONS: Record<AlertTemplateType, TemplateDefinition> = {
+	price: {
+		description: "Price alerts for watched tokens",
+		template:
+			"{direction} {tokenName} price alert!\n\n" +
+			"💰 Current price: {currentPrice}\n" +
+			"📊 {previousPriceLabel}: {previousPrice}\n" +
+			"🔄 Change: {change} ({changePercentage})\n" +
+			"{attributionLines}{windowLine}" +
+			"🚨 Threshold: {threshold}\n\n" +
+			"{outlook}",
+		placeholders: {
+			direction: { description: "📈 or 📉", sample: "📈" },
+			tokenName: { description: "Token name", sample: "Sample Agent" },
+			currentPrice: { description: "Current price", sample: "$0.0125" },
+			previousPrice: { description: "Price compared with", sample: "$0.0110" },
+			previousPriceLabel: {
+				description: '"Previous price", or "Price <window> ago"',
+				sample: "Previous price",
+			},
+			change: { description: "Price change with sign", sample: "+$0.0015" },
+			changePercentage: { description: "Change in percent", sample: "13.64%" },
+			threshold: { description: "Threshold that fired", sample: "10%" },
+			severity: {
+				description: "low, medium, high or critical",
+				sample: "high",
+			},
+			window: { description: "Rolling window, if any", sample: "" },
+			windowLine: { description: "Window line, if any", sample: "" },
+			attributionLines: {
+				description: "IQ/USD vs agent move split, if enabled",
+				sample: "",
+			},
+			outlook: { description: "Closing line", sample: "Price is going up! 🚀" },
+		},
+	},
+	iq_price: {
+		description: "IQ token price alerts",
+		template:
+			"{severityEmoji} {direction} IQ Token Price Alert!\n\n" +
+			"💰 Current price: {currentPrice}\n" +
+			"📊 Previous price: {previousPrice}\n" +
+			"🔄 Change: {change} ({changePercentage})\n" +
+			"🚨 Threshold: {threshold}\n\n" +
+			"🪙 Since IQ is the base token, this may affect all agent prices!\n" +
+			"{outlook}",
+		placeholders: {
+			severityEmoji: { description: "🔵, 🟡, 🟠 or 🔴", sample: "🟠" },
+			direction: { description: "📈 or 📉", sample: "📉" },
+			tokenName: {
+				description: "Always IQ (Everipedia)",
+				sample: "IQ (Everipedia)",
+			},
+			currentPrice: { description: "Current price", sample: "$0.0045" },
+			previousPrice: { description: "Previous price", sample: "$0.0050" },
+			change: { description: "Price change with sign", sample: "-$0.0005" },
+			changePercentage: { description: "Change in percent", sample: "-10.00%" },
+			threshold: { description: "Threshold that fired", sample: "10%" },
+			severity: { description: "low, high or critical", sample: "high" },
+			outlook: {
+				description: "Closing line",
+				sample: "📉 All agents may see price decreases!",
+			},
+		},
+	},
+	holdings_change: {
+		description: "Significant portfolio value changes",
+		template:
+			"{direction} Significant portfolio change detected!\n\n" +
+			"{walletLine}" +
+			"💰 Current value: {currentValue}\n" +
+			"📊 Previous value: {previousValue}\n" +
+			"🔄 Change: {change} ({changePercentage})\n" +
+			"{splitLine}{pnlLine}\n" +
+			"Time to review your positions!",
+		placeholders: {
+			direction: { description: "📈 or 📉", sample: "📈" },
+			walletLine: {
+				description: "Wallet line, with more than one wallet",
+				sample: "",
+			},
+			currentValue: { description: "Portfolio value", sample: "$1,250.00" },
+			previousValue: { description: "Previous value", sample: "$1,100.00" },
+			change: { description: "Value change with sign", sample: "+$150.00" },
+			changePercentage: { description: "Change in percent", sample: "13.64%" },
+			splitLine: {
+				description: "Price vs trade split, after buys or sells",
+				sample: "",
+			},
+			pnlLine: {
+				description: "Unrealized P&L, with a cost basis",
+				sample: "💹 Unrealized P&L: 🟢 +$250.00 (+25.00%)\n",
+			},
+		},
+	},
+	holdings_threshold: {
+		description: "Portfolio value reaching the threshold",
+		template:
+			"🎯 Holdings threshold reached!\n\n" +
+			"{walletLine}" +
+			"💰 Current value: {currentValue}\n" +
+			"🎯 Threshold: {threshold}\n" +
+			"{pnlLine}\n" +
+			"Consider reviewing your positions!",
+		placeholders: {
+			walletLine: {
+				description: "Wallet line, with more than one wallet",
+				sample: "",
+			},
+			currentValue: { description: "Portfolio value", sample: "$1,250.00" },
+			threshold: { description: "Threshold value", sample: "$1,000.00" },
+			pnlLine: {
+				description: "Unrealized P&L, with a cost basis",
+				sample: "💹 Unrealized P&L: 🟢 +$250.00 (+25.00%)\n",
+			},
+		},
+	},
+};
+
+class AlertTemplatesService {
+	isType(value: string): value is AlertTemplateType {
+		return (ALERT_TEMPLATE_TYPES as string[]).includes(value);
+	}
+
+	getDescription(type: AlertTemplateType): string {
+		return DEFINITIONS[type].description;
+	}
+
+	getPlaceholders(type: AlertTemplateType): Record<string, Placeholder> {
+		return DEFINITIONS[type].placeholders;
+	}
+
+	getDefaultTemplate(type: AlertTemplateType): string {
+		return DEFINITIONS[type].template;
+	}
+
+	// The template set with /template, or the default one
+	getTemplate(type: AlertTemplateType): string {
+		return (
+			database.getAlertTemplate(type)?.template ?? this.getDefaultTemplate(type)
+		);
+	}
+
+	isCustom(type: AlertTemplateType): boolean {
+		return database.getAlertTemplate(type) !== null;
+	}
+
+	// Placeholders without a value are left as they are, including names like {toString}
+	render(type: AlertTemplateType, values: TemplateValues): string {
+		return this.fill(this.getTemplate(type), values);
+	}
+
+	preview(type: AlertTemplateType): string {
+		const samples = Object.fromEntries(
+			Object.entries(this.getPlaceholders(type)).map(([name, placeholder]) => [
+				name,
+				placeholder.sample,
+			]),
+		);
+		return this.fill(this.getTemplate(type), samples);
+	}
+
+	// Rejects placeholders the alert type doesn't provide, so typos don't reach real alerts
+	setTemplate(type: AlertTemplateType, template: string): void {
+		if (!template.trim()) {
+			throw new Error("Template can't be empty");
+		}
+
+		const placeholders = this.getPlaceholders(type);
+		const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+			.map((match) => match[1]!)
+			.filter((name) => !Object.keys(placeholders).includes(name));
+		if (unknown.length > 0) {
+			throw new Error(
+				`Unknown placeholder(s) for ${type}: ${[...new Set(unknown)].map((name) => `{${name}}`).join(", ")}`,
+			);
+		}
+
+		database.setAlertTemplate({ type, template, updatedAt: Date.now() });
+		console.log(`📝 Updated ${type} alert template`);
+	}
+
+	resetTemplate(type: AlertTemplateType): boolean {
+		return database.removeAlertTemplate(type);
+	}
+
+	private fill(template: string, values: TemplateValues): string {
+		return template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+			Object.keys(values).includes(name) ? values[name]! : match,
+		);
+	}
+}
+
+export const alertTemplates = new AlertTemplatesService();
+
+export default alertTemplates;
@@ -0,0 +1,227 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import axios from "axios";
+import { env } from "../env";
+import { database, type WebhookDelivery } from "./database";
+import type { HoldingsAlert } from "./holdings-watcher";
+import type { IQPriceAlert } from "./iq-price-watcher";
+import type { PriceAlert } from "./price-watcher";
+
+// Bumped whenever the payload shape changes in a way receivers have to handle
+export const ALERT_WEBHOOK_VERSION = 1;
+export const SIGNATURE_HEADER = "X-IQ-Agents-Signature";
+
+export type AlertWebhookEvent = WebhookDelivery["event"];
+
+export interface AlertWebhookPayload {
+	version: typeof ALERT_WEBHOOK_VERSION;
+	deliveryId: string;
+	event: AlertWebhookEvent;
+	sentAt: string; // ISO timestamp of the first attempt
+	alert: PriceAlert | IQPriceAlert | HoldingsAlert;
+}
+
+interface AlertWebhookConfig {
+	url: string | null; // null = disabled
+	secret: string;
+	maxAttempts: number;
+	timeoutMs: number;
+}
+
+// Delay before the second attempt, doubled for every attempt after that
+const RETRY_BASE_DELAY_MS = 2000;
+
+export class AlertWebhook extends EventEmitter {
+	private config: AlertWebhookConfig;
+	// Pending retries, each with a callback that settles its delivery early on stop()
+	private retryTimers: Map<NodeJS.Timeout, () => void> = new Map();
+
+	constructor(config: Partial<AlertWebhookConfig> = {}) {
+		super();
+
+		// Load preferences from database, falling back to the environment
+		const dbUrl = database.getPreference("alert_webhook_url");
+		const dbSecret = database.getPreference("alert_webhook_secret");
+		const dbMaxAttempts = database.getPreference("alert_webhook_max_attempts");
+
+		this.config = {
+			url:
+				config.url !== undefined
+					? config.url
+					: dbUrl !== null
+						? dbUrl || null
+						: (env.ALERT_WEBHOOK_URL ?? null),
+			// A secret from the environment wins over one generated or rotated with /webhook
+			secret: config.secret ?? env.ALERT_WEBHOOK_SECRET ?? dbSecret ?? "",
+			maxAttempts:
+				config.maxAttempts ?? (dbMaxAttempts ? parseInt(dbMaxAttempts, 10) : 5),
+			timeoutMs: config.timeoutMs ?? 10000,
+		};
+
+		// Receivers need a stable secret, so a generated one is kept across restarts
+		if (!this.config.secret) {
+			this.config.secret = AlertWebhook.generateSecret();
+			database.setPreference("alert_webhook_secret", this.config.secret);
+		}
+	}
+
+	static generateSecret(): string {
+		return randomBytes(32).toString("hex");
+	}
+
+	getSecret(): string {
+		return this.config.secret;
+	}
+
+	// Cancels pending retries; deliveries that were still retrying resolve with their last failed attempt
+	stop(): void {
+		for (const [timer, cancel] of this.retryTimers) {
+			clearTimeout(timer);
+			cancel();
+		}
+		this.retryTimers.clear();
+	}
+
+	// Resolves with the last attempt once the delivery succeeded, ran out of attempts or was stopped,
+	// or with null when no webhook is set. Without retries it resolves after the first attempt.
+	deliver(
+		event: AlertWebhookEvent,
+		alert: AlertWebhookPayload["alert"],
+		options: { retry?: boolean } = {},
+	): Promise<WebhookDelivery | null> {
+		if (!this.config.url) return Promise.resolve(null);
+
+		const payload: AlertWebhookPayload = {
+			version: ALERT_WEBHOOK_VERSION,
+			deliveryId: randomUUID(),
+			event,
+			sentAt: new Date().toISOString(),
+			alert,
+		};
+		return this.attempt(
+			this.config.url,
+			JSON.stringify(payload),
+			payload,
+			1,
+			options.retry === false ? 1 : this.config.maxAttempts,
+		);
+	}
+
+	sign(body: string): string {
+		return `sha256=${createHmac("sha256", this.config.secret).update(body).digest("hex")}`;
+	}
+
+	private async attempt(
+		url: string,
+		body: string,
+		payload: AlertWebhookPayload,
+		attempt: number,
+		maxAttempts: number,
+	): Promise<WebhookDelivery> {
+		const startedAt = Date.now();
+		let statusCode: number | null = null;
+		let error: string | null = null;
+
+		try {
+			const response = await axios.post(url, body, {
+				headers: {
+					"Content-Type": "application/json",
+					[SIGNATURE_HEADER]: this.sign(body),
+					"X-IQ-Agents-Event": payload.event,
+					"X-IQ-Agents-Delivery": payload.deliveryId,
+				},
+				timeout: this.config.timeoutMs,
+				validateStatus: () => true,
+			});
+			statusCode = response.status;
+			if (statusCode < 200 || statusCode >= 300) {
+				error = `HTTP ${statusCode}`;
+			}
+		} catch (requestError) {
+			error =
+				requestError instanceof Error
+					? requestError.message
+					: String(requestError);
+		}
+
+		const delivery: WebhookDelivery = {
+			deliveryId: payload.deliveryId,
+			event: payload.event,
+			alertId: payload.alert.alertId ?? null,
+			url,
+			attempt,
+			statusCode,
+			latencyMs: Date.now() - startedAt,
+			success: error === null,
+			error,
+			createdAt: startedAt,
+		};
+		delivery.id = database.addWebhookDelivery(delivery);
+
+		if (delivery.success) return delivery;
+
+		// Other 4xx responses mean the receiver rejected the payload, so trying again won't help
+		const retryable =
+			statusCode === null ||
+			statusCode === 408 ||
+			statusCode === 429 ||
+			statusCode >= 500;
+		if (!retryable || attempt >= maxAttempts) {
+			this.emit(
+				"error",
+				new Error(
+					`Delivery ${payload.deliveryId} failed after ${attempt} attempt(s): ${error}`,
+				),
+			);
+			return delivery;
+		}
+
+		const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				this.retryTimers.delete(timer);
+				resolve(this.attempt(url, body, payload, attempt + 1, maxAttempts));
+			}, delayMs);
+			this.retryTimers.set(timer, () => resolve(delivery));
+		});
+	}
+
+	updateConfig(newConfig: Partial<AlertWebhookConfig>): void {
+		this.config = { ...this.config, ...newConfig };
+
+		// Save preferences to database
+		if (newConfig.url !== undefined) {
+			database.setPreference("alert_webhook_url", newConfig.url ?? "");
+		}
+		if (newConfig.secret !== undefined) {
+			database.setPreference("alert_webhook_secret", newConfig.secret);
+		}
+		if (newConfig.maxAttempts !== undefined) {
+			database.setPreference(
+				"alert_webhook_max_attempts",
+				newConfig.maxAttempts.toString(),
+			);
+		}
+
+		console.log("⚙️  Alert webhook config updated:", {
+			...this.config,
+			secret: "***",
+		});
+	}
+
+	getStatus(): {
+		config: Omit<AlertWebhookConfig, "secret">;
+		pendingRetries: number;
+	} {
+		return {
+			config: {
+				url: this.config.url,
+				maxAttempts: this.config.maxAttempts,
+				timeoutMs: this.config.timeoutMs,
+			},
+			pendingRetries: this.retryTimers.size,
+		};
+	}
+}
+
+export default AlertWebhook;
@@ -0,0 +1,328 @@
+import { agentsApi, type Holding } from "./agents";
+import { type AllocationTarget, database } from "./database";
+
+export interface AllocationEntry {
+	name: string;
+	tokenContract?: string; // Set for per-agent entries
+	value: number;
+	weight: number; // Percentage of the total portfolio value
+}
+
+export interface PortfolioAllocation {
+	totalValue: number;
+	agents: AllocationEntry[];
+	categories: AllocationEntry[];
+	concentrated: AllocationEntry[]; // Agents and categories above the limit
+}
+
+export interface TargetDrift {
+	target: AllocationTarget;
+	currentWeight: number;
+	drift: number; // Current minus target weight, in percentage points
+}
+
+export interface RebalanceTrade {
+	tokenContract: string;
+	name: string;
+	side: "buy" | "sell";
+	amount: number; // Tokens to trade
+	price: number;
+	value: number; // USD at the current price
+}
+
+export interface RebalancePlan {
+	totalValue: number;
+	totalAfterTrades: number; // Value the targets are sized against; differs by the net cash
+	drifts: TargetDrift[];
+	trades: RebalanceTrade[];
+	netCash: number; // Sells minus buys; negative when the buys need extra cash
+	unfilled: string[]; // Category targets without untargeted holdings to trade
+}
+
+// Trades below this USD value are left out of the plan
+const MIN_TRADE_VALUE = 0.01;
+
+class AllocationService {
+	// Agent categories rarely change, so they are fetched once per process
+	private categories: Map<string, string> = new Map();
+
+	// Weight of every holding in percent, keyed by token contract
+	getWeights(holdings: Holding[]): Map<string, number> {
+		const totalValue = agentsApi.calculateHoldingsValue(holdings);
+		const weights = new Map<string, number>();
+		if (totalValue <= 0) return weights;
+
+		for (const holding of holdings) {
+			const value = parseFloat(holding.tokenAmount) * holding.currentPriceInUsd;
+			if (Number.isNaN(value)) continue;
+			weights.set(holding.tokenContract, (value / totalValue) * 100);
+		}
+		return weights;
+	}
+
+	async calculateAllocation(
+		holdings: Holding[],
+		concentrationLimit: number,
+	): Promise<PortfolioAllocation> {
+		const totalValue = agentsApi.calculateHoldingsValue(holdings);
+		const weights = this.getWeights(holdings);
+		const agents: AllocationEntry[] = [];
+		const byCategory = new Map<string, number>();
+
+		for (const holding of holdings) {
+			const weight = weights.get(holding.tokenContract);
+			if (weight === undefined) continue;
+
+			const value = (weight / 100) * totalValue;
+			agents.push({
+				name: holding.name,
+				tokenContract: holding.tokenContract,
+				value,
+				weight,
+			});
+		}
+
+		const categoryByToken = await this.getCategories(holdings);
+		for (const entry of agents) {
+			const category = categoryByToken.get(entry.tokenContract!) ?? "Unknown";
+			byCategory.set(category, (byCategory.get(category) ?? 0) + entry.value);
+		}
+
+		const categories = Array.from(byCategory.entries()).map(
+			([name, value]) => ({
+				name,
+				value,
+				weight: totalValue > 0 ? (value / totalValue) * 100 : 0,
+			}),
+		);
+		agents.sort((a, b) => b.weight - a.weight);
+		categories.sort((a, b) => b.weight - a.weight);
+
+		return {
+			totalValue,
+			agents,
+			categories,
+			concentrated:
+				concentrationLimit > 0
+					? [...agents, ...categories].filter(
+							(entry) => entry.weight > concentrationLimit,
+						)
+					: [],
+		};
+	}
+
+	setTarget(
+		target: string,
+		kind: AllocationTarget["kind"],
+		name: string,
+		weight: number,
+	): AllocationTarget {
+		const allocationTarget: AllocationTarget = {
+			target,
+			kind,
+			name,
+			weight,
+			updatedAt: Date.now(),
+		};
+		database.setAllocationTarget(allocationTarget);
+		console.log(`🎯 Set ${kind} target for ${name}: ${weight}%`);
+		return allocationTarget;
+	}
+
+	getTargets(): AllocationTarget[] {
+		return database.getAllocationTargets();
+	}
+
+	removeTarget(target: string): boolean {
+		return database.removeAllocationTarget(target);
+	}
+
+	// Category targets cover the whole category, including tokens with their own target
+	async calculateDrifts(
+		holdings: Holding[],
+		targets: AllocationTarget[] = database.getAllocationTargets(),
+	): Promise<TargetDrift[]> {
+		const weights = this.getWeights(holdings);
+		const categoryByToken = targets.some((target) => target.kind === "category")
+			? await this.getCategories(holdings)
+			: new Map<string, string>();
+
+		return targets.map((target) => {
+			let currentWeight = 0;
+			if (target.kind === "token") {
+				currentWeight = weights.get(target.target) ?? 0;
+			} else {
+				for (const [tokenContract, weight] of weights) {
+					if (
+						categoryByToken.get(tokenContract)?.toLowerCase() ===
+						target.target.toLowerCase()
+					) {
+						currentWeight += weight;
+					}
+				}
+			}
+			return { target, currentWeight, drift: currentWeight - target.weight };
+		});
+	}
+
+	// Token targets are traded directly; the rest of a category target is spread over its
+	// untargeted holdings in proportion to their value. Holdings without a target are left alone,
+	// so targets are sized against the portfolio after proceeds leave it or extra cash comes in.
+	async calculateRebalance(
+		holdings: Holding[],
+		targets: AllocationTarget[] = database.getAllocationTargets(),
+	): Promise<RebalancePlan> {
+		const totalValue = agentsApi.calculateHoldingsValue(holdings);
+		const held = new Map(
+			holdings.map((holding) => [holding.tokenContract, holding]),
+		);
+		const holdingValue = (holding: Holding) =>
+			parseFloat(holding.tokenAmount) * holding.currentPriceInUsd;
+		const tokenTargets = targets.filter((target) => target.kind === "token");
+		const unfilled: string[] = [];
+
+		// Target weight of every traded token; category members split what is left of the
+		// category after its token targets by their current value
+		const targetWeights = new Map<string, number>();
+		for (const target of tokenTargets) {
+			targetWeights.set(target.target, target.weight);
+		}
+
+		const categoryTargets = targets.filter(
+			(target) => target.kind === "category",
+		);
+		if (categoryTargets.length > 0) {
+			const categoryByToken = await this.getCategories([
+				...holdings,
+				...tokenTargets
+					.filter((target) => !held.has(target.target))
+					.map((target) => ({
+						tokenContract: target.target,
+						tokenAmount: "0",
+						name: target.name,
+						currentPriceInUsd: 0,
+					})),
+			]);
+			const inCategory = (tokenContract: string, category: string) =>
+				categoryByToken.get(tokenContract)?.toLowerCase() ===
+				category.toLowerCase();
+
+			for (const target of categoryTargets) {
+				const poolWeight =
+					target.weight -
+					tokenTargets
+						.filter((tokenTarget) =>
+							inCategory(tokenTarget.target, target.target),
+						)
+						.reduce((sum, tokenTarget) => sum + tokenTarget.weight, 0);
+				const members = holdings.filter(
+					(holding) =>
+						inCategory(holding.tokenContract, target.target) &&
+						!targetWeights.has(holding.tokenContract) &&
+						holdingValue(holding) > 0,
+				);
+				const membersValue = members.reduce(
+					(sum, holding) => sum + holdingValue(holding),
+					0,
+				);
+
+				if (poolWeight < 0 || membersValue <= 0) {
+					unfilled.push(target.name);
+					continue;
+				}
+				for (const holding of members) {
+					targetWeights.set(
+						holding.tokenContract,
+						(poolWeight * holdingValue(holding)) / membersValue,
+					);
+				}
+			}
+		}
+
+		// Untargeted holdings keep their value, so they make up the rest of the post-trade total
+		const targetedWeight = [...targetWeights.values()].reduce(
+			(sum, weight) => sum + weight,
+			0,
+		);
+		const untargetedValue = holdings
+			.filter((holding) => !targetWeights.has(holding.tokenContract))
+			.reduce((sum, holding) => sum + (holdingValue(holding) || 0), 0);
+		const totalAfterTrades =
+			targetedWeight < 100 && untargetedValue > 0
+				? untargetedValue / (1 - targetedWeight / 100)
+				: totalValue;
+
+		const trades: RebalanceTrade[] = [];
+		for (const [tokenContract, weight] of targetWeights) {
+			const holding = held.get(tokenContract);
+			const targetValue = (weight / 100) * totalAfterTrades;
+			const difference = targetValue - (holding ? holdingValue(holding) : 0);
+			if (Math.abs(difference) < MIN_TRADE_VALUE) continue;
+
+			const price =
+				holding?.currentPriceInUsd ??
+				(await agentsApi.getAgentStats(tokenContract)).currentPriceInUSD;
+			if (price <= 0) continue;
+
+			trades.push({
+				tokenContract,
+				name:
+					holding?.name ??
+					tokenTargets.find((target) => target.target === tokenContract)
+						?.name ??
+					tokenContract,
+				side: difference > 0 ? "buy" : "sell",
+				amount: Math.abs(difference) / price,
+				price,
+				value: Math.abs(difference),
+			});
+		}
+
+		// Sells first, since they fund the buys
+		trades.sort((a, b) =>
+			a.side === b.side ? b.value - a.value : a.side === "sell" ? -1 : 1,
+		);
+
+		return {
+			totalValue,
+			totalAfterTrades,
+			drifts: await this.calculateDrifts(holdings, targets),
+			trades,
+			netCash: trades.reduce(
+				(sum, trade) =>
+					sum + (trade.side === "sell" ? trade.value : -trade.value),
+				0,
+			),
+			unfilled,
+		};
+	}
+
+	async getCategories(holdings: Holding[]): Promise<Map<string, string>> {
+		const categories = new Map<string, string>();
+		for (const holding of holdings) {
+			categories.set(
+				holding.tokenContract,
+				await this.getCategory(holding.tokenContract),
+			);
+		}
+		return categories;
+	}
+
+	private async getCategory(tokenContract: string): Promise<string> {
+		const cached = this.categories.get(tokenContract);
+		if (cached) return cached;
+
+		try {
+			const stats = await agentsApi.getAgentStats(tokenContract);
+			const category = stats.category || "Uncategorized";
+			this.categories.set(tokenContract, category);
+			return category;
+		} catch {
+			// Not cached, so the next report tries again
+			return "Unknown";
+		}
+	}
+}
+
+export const allocation = new AllocationService();
+export default allocation;
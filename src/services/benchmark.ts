@@ -0,0 +1,90 @@
+import { database } from "./database";
+import { IQ_TOKEN_CONTRACT } from "./iq-price-watcher";
+
+// IQ prices older than this before a snapshot are too stale to value it with
+const MAX_IQ_PRICE_AGE_MS = 60 * 60 * 1000;
+
+export interface BenchmarkPoint {
+	timestamp: number;
+	value: number; // Portfolio value in USD
+	iqPrice: number;
+	benchmarkValue: number; // USD value of the IQ bought with the starting portfolio value
+}
+
+export interface BenchmarkReport {
+	start: BenchmarkPoint;
+	end: BenchmarkPoint;
+	portfolioReturn: number; // Percentage, in USD terms
+	benchmarkReturn: number; // Percentage, equal to the IQ price change
+	excessReturn: number; // Percentage points the portfolio beat (or trailed) IQ by
+	startValueInIq: number;
+	endValueInIq: number;
+	points: BenchmarkPoint[]; // Evenly spaced sample, including start and end
+	skippedSnapshots: number; // Snapshots left out for lack of a recent IQ price
+}
+
+class BenchmarkService {
+	// Compares a portfolio value history with an IQ-only position of equal starting value
+	calculate(
+		history: Array<{ timestamp: number; value: number }>,
+		samples: number = 12,
+	): BenchmarkReport | null {
+		// Skip snapshots without a recent IQ price, e.g. taken before IQ prices were recorded
+		const priced = history.flatMap((point) => {
+			const iqPrice = this.getIqPrice(point.timestamp);
+			return iqPrice === null ? [] : [{ ...point, iqPrice }];
+		});
+
+		const first = priced[0];
+		const last = priced[priced.length - 1];
+		if (!first || !last || first.value <= 0) {
+			return null;
+		}
+
+		const iqAmount = first.value / first.iqPrice;
+		const toPoint = (point: (typeof priced)[number]): BenchmarkPoint => ({
+			timestamp: point.timestamp,
+			value: point.value,
+			iqPrice: point.iqPrice,
+			benchmarkValue: iqAmount * point.iqPrice,
+		});
+
+		const start = toPoint(first);
+		const end = toPoint(last);
+		const count = Math.min(priced.length, samples);
+		const points: BenchmarkPoint[] = [];
+		for (let i = 0; i < count; i++) {
+			const index =
+				count === 1 ? 0 : Math.round((i * (priced.length - 1)) / (count - 1));
+			points.push(toPoint(priced[index]!));
+		}
+
+		const portfolioReturn = ((end.value - start.value) / start.value) * 100;
+		const benchmarkReturn =
+			((end.benchmarkValue - start.benchmarkValue) / start.benchmarkValue) *
+			100;
+
+		return {
+			start,
+			end,
+			portfolioReturn,
+			benchmarkReturn,
+			excessReturn: portfolioReturn - benchmarkReturn,
+			startValueInIq: start.value / start.iqPrice,
+			endValueInIq: end.value / end.iqPrice,
+			points,
+			skippedSnapshots: history.length - priced.length,
+		};
+	}
+
+	private getIqPrice(timestamp: number): number | null {
+		const record = database.getPriceAtOrBefore(IQ_TOKEN_CONTRACT, timestamp);
+		if (!record || timestamp - record.timestamp > MAX_IQ_PRICE_AGE_MS) {
+			return null;
+		}
+		return record.price > 0 ? record.price : null;
+	}
+}
+
+export const benchmark = new BenchmarkService();
+export default benchmark;
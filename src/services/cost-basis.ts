@@ -0,0 +1,188 @@
+import { agentsApi, type Holding } from "./agents";
+import { type CostBasis, database } from "./database";
+
+export interface HoldingPnl {
+	holding: Holding;
+	costBasis: CostBasis | null;
+	value: number;
+	cost: number | null; // null when no cost basis is known for the token
+	pnl: number | null;
+	pnlPercentage: number | null;
+}
+
+export interface PortfolioPnl {
+	holdings: HoldingPnl[];
+	totalValue: number;
+	totalCost: number; // Only holdings with a known cost basis
+	pnl: number;
+	pnlPercentage: number;
+	uncoveredValue: number; // Value of holdings without a cost basis, left out of the P&L
+}
+
+class CostBasisService {
+	// Infers a cost basis for new positions and averages in later buys at the current price
+	recordHoldings(holdings: Holding[], now: number): void {
+		const held = new Set<string>();
+
+		for (const holding of holdings) {
+			const amount = parseFloat(holding.tokenAmount);
+			if (Number.isNaN(amount) || holding.currentPriceInUsd <= 0) continue;
+			held.add(holding.tokenContract);
+
+			const existing = database.getCostBasis(holding.tokenContract);
+			// A re-entered position starts from the current price unless the cost was entered manually
+			if (!existing || existing.amount <= 0) {
+				database.setCostBasis({
+					tokenContract: holding.tokenContract,
+					tokenName: holding.name,
+					averageCost:
+						existing?.source === "manual"
+							? existing.averageCost
+							: holding.currentPriceInUsd,
+					amount,
+					source: existing?.source ?? "inferred",
+					updatedAt: now,
+				});
+				if (!existing) {
+					console.log(
+						`💵 Inferred cost basis for ${holding.name}: ${agentsApi.formatCurrency(holding.currentPriceInUsd)}`,
+					);
+				}
+				continue;
+			}
+
+			if (amount > existing.amount) {
+				const bought = amount - existing.amount;
+				database.setCostBasis({
+					...existing,
+					averageCost:
+						(existing.averageCost * existing.amount +
+							holding.currentPriceInUsd * bought) /
+						amount,
+					amount,
+					updatedAt: now,
+				});
+			} else if (amount < existing.amount) {
+				// Selling realizes part of the position; the average cost of the rest is unchanged
+				database.setCostBasis({ ...existing, amount, updatedAt: now });
+			}
+		}
+
+		for (const basis of database.getCostBases()) {
+			if (!held.has(basis.tokenContract) && basis.amount > 0) {
+				database.setCostBasis({ ...basis, amount: 0, updatedAt: now });
+			}
+		}
+	}
+
+	setCostBasis(
+		tokenContract: string,
+		tokenName: string,
+		averageCost: number,
+		amount: number,
+	): CostBasis {
+		const basis: CostBasis = {
+			tokenContract,
+			tokenName,
+			averageCost,
+			amount,
+			source: "manual",
+			updatedAt: Date.now(),
+		};
+		database.setCostBasis(basis);
+		console.log(
+			`💵 Set cost basis for ${tokenName}: ${agentsApi.formatCurrency(averageCost)}`,
+		);
+		return basis;
+	}
+
+	getCostBases(): CostBasis[] {
+		return database.getCostBases();
+	}
+
+	getCostBasis(tokenContract: string): CostBasis | null {
+		return database.getCostBasis(tokenContract);
+	}
+
+	// The basis is inferred again on the next holdings check
+	removeCostBasis(tokenContract: string): boolean {
+		return database.removeCostBasis(tokenContract);
+	}
+
+	calculatePnl(holdings: Holding[]): PortfolioPnl {
+		const result: PortfolioPnl = {
+			holdings: [],
+			totalValue: 0,
+			totalCost: 0,
+			pnl: 0,
+			pnlPercentage: 0,
+			uncoveredValue: 0,
+		};
+
+		for (const holding of holdings) {
+			const amount = parseFloat(holding.tokenAmount);
+			const value = amount * holding.currentPriceInUsd;
+			const costBasis = database.getCostBasis(holding.tokenContract);
+			result.totalValue += value;
+
+			if (!costBasis) {
+				result.uncoveredValue += value;
+				result.holdings.push({
+					holding,
+					costBasis,
+					value,
+					cost: null,
+					pnl: null,
+					pnlPercentage: null,
+				});
+				continue;
+			}
+
+			const cost = amount * costBasis.averageCost;
+			result.totalCost += cost;
+			result.pnl += value - cost;
+			result.holdings.push({
+				holding,
+				costBasis,
+				value,
+				cost,
+				pnl: value - cost,
+				pnlPercentage: cost > 0 ? ((value - cost) / cost) * 100 : null,
+			});
+		}
+
+		result.pnlPercentage =
+			result.totalCost > 0 ? (result.pnl / result.totalCost) * 100 : 0;
+		return result;
+	}
+
+	formatPnl(pnl: number, pnlPercentage: number | null): string {
+		const emoji = pnl >= 0 ? "🟢" : "🔴";
+		const sign = pnl > 0 ? "+" : "";
+		const percentage =
+			pnlPercentage !== null ? ` (${sign}${pnlPercentage.toFixed(2)}%)` : "";
+		return `${emoji} ${sign}${agentsApi.formatCurrency(pnl)}${percentage}`;
+	}
+
+	toCsv(): string {
+		const rows = database
+			.getCostBases()
+			.map((basis) =>
+				[
+					basis.tokenContract,
+					`"${basis.tokenName.replace(/"/g, '""')}"`,
+					basis.averageCost,
+					basis.amount,
+					basis.source,
+					new Date(basis.updatedAt).toISOString(),
+				].join(","),
+			);
+		return [
+			"token_contract,token_name,average_cost_usd,amount,source,updated_at",
+			...rows,
+		].join("\n");
+	}
+}
+
+export const costBasis = new CostBasisService();
+export default costBasis;
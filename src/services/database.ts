@@ -1,13 +1,20 @@
 import Database from "better-sqlite3";
-import { env } from "../env";
 import { mkdirSync } from "fs";
 import { dirname } from "path";
+import { env } from "../env";
+import type { Holding } from "./agents";
 
 export interface PriceHistoryRecord {
 	id?: number;
 	tokenContract: string;
 	tokenName: string;
 	price: number;
+	// Remaining AgentStats metrics; null for IQ rows and rows recorded before they were stored
+	priceInIq?: number | null;
+	marketCap?: number | null;
+	changeIn24h?: number | null;
+	holdersCount?: number | null;
+	inferenceCount?: number | null;
 	timestamp: number;
 }
 
@@ -15,9 +22,36 @@ export interface AlertRecord {
 	id?: number;
 	type: "holdings" | "price" | "iq_price";
 	tokenContract?: string;
+	tokenName?: string;
+	tier?: string; // Watcher alert type, e.g. "major_change", "price_target", "threshold_reached"
+	severity?: "low" | "medium" | "high" | "critical";
+	threshold?: number;
+	currentPrice?: number; // Portfolio value for holdings alerts
+	previousPrice?: number;
+	change?: number;
+	changePercentage?: number;
+	payload?: string; // Full alert object as JSON
 	message: string;
 	timestamp: number;
 	triggered: boolean;
+	suppressed?: boolean; // Recorded for auditing but muted by the alert governor
+	suppressionReason?: string;
+	requiresAck?: boolean; // Critical alerts stay open until acknowledged
+	acknowledgedAt?: number;
+	escalationCount?: number;
+	lastNotifiedAt?: number;
+}
+
+export type AlertFilter = "delivered" | "suppressed" | "unacknowledged";
+
+export interface AlertQuery {
+	status?: AlertFilter;
+	type?: AlertRecord["type"];
+	tokenContract?: string;
+	severity?: AlertRecord["severity"];
+	from?: number;
+	to?: number;
+	limit?: number;
 }
 
 export interface UserPreference {
@@ -41,6 +75,149 @@ export interface WatchedToken {
 	enableMinorAlerts: boolean;
 	enableMajorAlerts: boolean;
 	enableCriticalAlerts: boolean;
+	alertWindows: string[]; // e.g. ["15m", "1h"]; empty = compare against last poll
+	adaptiveMode: boolean; // Alert on moves measured in standard deviations instead of fixed percentages
+	sigmaThreshold: number;
+	volatilityWindow: number; // Number of recent returns used for the rolling mean and deviation
+	alertBasis: "usd" | "agent"; // "agent" alerts only on the move in the agent's own IQ price
+}
+
+export interface PriceTarget {
+	id?: number;
+	tokenContract: string;
+	tokenName: string;
+	direction: "above" | "below";
+	targetPrice: number;
+	rearm: boolean; // Re-arm once price moves back across the target instead of disarming for good
+	isArmed: boolean;
+	isActive: boolean;
+	lastTriggeredAt: number | null;
+	createdAt: number;
+}
+
+export type TokenMetric =
+	| "marketCap"
+	| "holdersCount"
+	| "inferenceCount"
+	| "changeIn24h";
+
+export interface MetricAlert {
+	id?: number;
+	tokenContract: string;
+	tokenName: string;
+	metric: TokenMetric;
+	condition: "above" | "below" | "rise" | "drop" | "stall";
+	value: number; // Level for above/below, minimum change for rise/drop, unused for stall
+	lookback: string | null; // Window for rise/drop/stall, e.g. "1d"
+	isArmed: boolean;
+	isActive: boolean;
+	lastTriggeredAt: number | null;
+	createdAt: number;
+}
+
+export interface TrailingAlert {
+	id?: number;
+	tokenContract: string;
+	tokenName: string;
+	kind: "drawdown" | "rebound"; // Drop below the peak, or rise above the trough
+	percentage: number;
+	lookback: string | null; // Use the extreme over this window of price_history instead of since armed
+	extremePrice: number; // Running peak (drawdown) or trough (rebound) since armed
+	isArmed: boolean;
+	isActive: boolean;
+	autoArmed: boolean; // Created by the holdings watcher for a token in the wallet
+	lastTriggeredAt: number | null;
+	createdAt: number;
+}
+
+export interface AlertRule {
+	id?: number;
+	name: string;
+	tokenContract: string | null; // null = every watched token
+	expression: string;
+	severity: "low" | "medium" | "high" | "critical";
+	isActive: boolean;
+	lastTriggeredAt: number | null;
+	matchingTokens: string[]; // Tokens the rule matched on their last poll
+	createdAt: number;
+}
+
+export interface Wallet {
+	id?: number;
+	address: string;
+	label: string;
+	thresholdUsd: number | null; // null = use the global holdings threshold
+	significantChangePercentage: number | null; // null = use the global change threshold
+	isActive: boolean;
+	createdAt: number;
+}
+
+export interface CostBasis {
+	tokenContract: string;
+	tokenName: string;
+	averageCost: number; // USD paid per token
+	amount: number; // Tokens the average cost covers, summed across wallets
+	source: "manual" | "inferred"; // Entered with /cost_basis, or taken from the price when a balance increase was seen
+	updatedAt: number;
+}
+
+export interface AllocationTarget {
+	target: string; // Token contract, or category name for category targets
+	kind: "token" | "category";
+	name: string; // Token name, or the category name again
+	weight: number; // Target percentage of the total portfolio value
+	updatedAt: number;
+}
+
+export interface WebhookDelivery {
+	id?: number;
+	deliveryId: string; // Shared by every attempt of one delivery
+	event: "holdings" | "price" | "iq_price";
+	alertId: number | null;
+	url: string;
+	attempt: number;
+	statusCode: number | null; // null when no response came back
+	latencyMs: number;
+	success: boolean;
+	error: string | null;
+	createdAt: number;
+}
+
+export interface OutboxMessage {
+	id?: number;
+	chatId: number | null; // null = the user's chat, once it is known
+	message: string;
+	parseMode: "HTML" | "Markdown" | null; // Markdown only on rows queued by older versions
+	alertId: number | null; // Critical alerts get the acknowledge keyboard
+	status: "pending" | "sent" | "failed";
+	attempts: number;
+	nextAttemptAt: number;
+	lastError: string | null;
+	createdAt: number;
+	sentAt: number | null;
+}
+
+export interface NotificationChannelRecord {
+	name: string;
+	kind: "discord" | "slack" | "email" | "webhook";
+	target: string; // Webhook URL, or comma-separated recipients for email
+	minSeverity: "info" | "low" | "medium" | "high" | "critical";
+	createdAt: number;
+}
+
+export interface AlertTemplate {
+	type: "price" | "iq_price" | "holdings_change" | "holdings_threshold";
+	template: string;
+	updatedAt: number;
+}
+
+export interface PortfolioSnapshot {
+	id?: number;
+	walletAddress: string;
+	totalValue: number;
+	thresholdReached: boolean;
+	holdings: Holding[]; // Per-token amounts and prices at the time of the check
+	timestamp: number;
 }
 
 class DatabaseService {
@@ -64,6 +241,11 @@ class DatabaseService {
 				token_contract TEXT NOT NULL,
 				token_name TEXT NOT NULL,
 				price REAL NOT NULL,
+				price_in_iq REAL,
+				market_cap REAL,
+				change_in_24h REAL,
+				holders_count INTEGER,
+				inference_count INTEGER,
 				timestamp INTEGER NOT NULL
 			)
 		`);
@@ -74,9 +256,24 @@ class DatabaseService {
 				id INTEGER PRIMARY KEY AUTOINCREMENT,
 				type TEXT NOT NULL,
 				token_contract TEXT,
+				token_name TEXT,
+				tier TEXT,
+				severity TEXT,
+				threshold REAL,
+				current_price REAL,
+				previous_price REAL,
+				change REAL,
+				change_percentage REAL,
+				payload TEXT,
 				message TEXT NOT NULL,
 				timestamp INTEGER NOT NULL,
-				triggered BOOLEAN DEFAULT 0
+				triggered BOOLEAN DEFAULT 0,
+				suppressed BOOLEAN DEFAULT 0,
+				suppression_reason TEXT,
+				requires_ack BOOLEAN DEFAULT 0,
+				acknowledged_at INTEGER,
+				escalation_count INTEGER NOT NULL DEFAULT 0,
+				last_notified_at INTEGER
 			)
 		`);
 
@@ -106,11 +303,236 @@ class DatabaseService {
 				enable_minor_alerts BOOLEAN DEFAULT 1,
 				enable_major_alerts BOOLEAN DEFAULT 1,
 				enable_critical_alerts BOOLEAN DEFAULT 1,
+				alert_windows TEXT NOT NULL DEFAULT '',
+				adaptive_mode BOOLEAN DEFAULT 0,
+				sigma_threshold REAL NOT NULL DEFAULT 3.0,
+				volatility_window INTEGER NOT NULL DEFAULT 50,
+				alert_basis TEXT NOT NULL DEFAULT 'usd',
 				created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
 				updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
 			)
 		`);
 
+		// Absolute price targets table
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS price_targets (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				token_contract TEXT NOT NULL,
+				token_name TEXT NOT NULL,
+				direction TEXT NOT NULL CHECK (direction IN ('above', 'below')),
+				target_price REAL NOT NULL,
+				rearm BOOLEAN DEFAULT 0,
+				is_armed BOOLEAN DEFAULT 1,
+				is_active BOOLEAN DEFAULT 1,
+				last_triggered_at INTEGER,
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// Market cap, holders and inference alerts table
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS metric_alerts (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				token_contract TEXT NOT NULL,
+				token_name TEXT NOT NULL,
+				metric TEXT NOT NULL,
+				condition TEXT NOT NULL CHECK (condition IN ('above', 'below', 'rise', 'drop', 'stall')),
+				value REAL NOT NULL DEFAULT 0,
+				lookback TEXT,
+				is_armed BOOLEAN DEFAULT 1,
+				is_active BOOLEAN DEFAULT 1,
+				last_triggered_at INTEGER,
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// Drawdown-from-peak and rebound-from-trough alerts table
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS trailing_alerts (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				token_contract TEXT NOT NULL,
+				token_name TEXT NOT NULL,
+				kind TEXT NOT NULL CHECK (kind IN ('drawdown', 'rebound')),
+				percentage REAL NOT NULL,
+				lookback TEXT,
+				extreme_price REAL NOT NULL,
+				is_armed BOOLEAN DEFAULT 1,
+				is_active BOOLEAN DEFAULT 1,
+				auto_armed BOOLEAN DEFAULT 0,
+				last_triggered_at INTEGER,
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// User-defined alert rules table
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS alert_rules (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				name TEXT NOT NULL,
+				token_contract TEXT,
+				expression TEXT NOT NULL,
+				severity TEXT NOT NULL DEFAULT 'medium',
+				is_active BOOLEAN DEFAULT 1,
+				last_triggered_at INTEGER,
+				matching_tokens TEXT NOT NULL DEFAULT '',
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// Monitored wallets table
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS wallets (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				address TEXT NOT NULL UNIQUE COLLATE NOCASE,
+				label TEXT NOT NULL,
+				threshold_usd REAL,
+				significant_change_percentage REAL,
+				is_active BOOLEAN DEFAULT 1,
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// Cost basis per token table
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS cost_basis (
+				token_contract TEXT PRIMARY KEY,
+				token_name TEXT NOT NULL,
+				average_cost REAL NOT NULL,
+				amount REAL NOT NULL DEFAULT 0,
+				source TEXT NOT NULL CHECK (source IN ('manual', 'inferred')),
+				updated_at INTEGER NOT NULL
+			)
+		`);
+
+		// Holdings snapshots table, one row per wallet per holdings check
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				wallet_address TEXT NOT NULL,
+				total_value REAL NOT NULL,
+				threshold_reached BOOLEAN DEFAULT 0,
+				holdings TEXT NOT NULL,
+				timestamp INTEGER NOT NULL
+			)
+		`);
+
+		// Target allocation table, one row per token or category
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS allocation_targets (
+				target TEXT PRIMARY KEY COLLATE NOCASE,
+				kind TEXT NOT NULL CHECK (kind IN ('token', 'category')),
+				name TEXT NOT NULL,
+				weight REAL NOT NULL,
+				updated_at INTEGER NOT NULL
+			)
+		`);
+
+		// Notification channels added with /channel, on top of the ones in the environment
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS notification_channels (
+				name TEXT PRIMARY KEY COLLATE NOCASE,
+				kind TEXT NOT NULL CHECK (kind IN ('discord', 'slack', 'email', 'webhook')),
+				target TEXT NOT NULL,
+				min_severity TEXT NOT NULL DEFAULT 'info',
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// One row per alert webhook attempt
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS webhook_deliveries (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				delivery_id TEXT NOT NULL,
+				event TEXT NOT NULL,
+				alert_id INTEGER,
+				url TEXT NOT NULL,
+				attempt INTEGER NOT NULL,
+				status_code INTEGER,
+				latency_ms INTEGER NOT NULL,
+				success INTEGER NOT NULL,
+				error TEXT,
+				created_at INTEGER NOT NULL
+			)
+		`);
+
+		// Telegram messages waiting to be sent; sent rows are pruned after a day
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS outbox (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				chat_id INTEGER,
+				message TEXT NOT NULL,
+				parse_mode TEXT,
+				alert_id INTEGER,
+				status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+				attempts INTEGER NOT NULL DEFAULT 0,
+				next_attempt_at INTEGER NOT NULL,
+				last_error TEXT,
+				created_at INTEGER NOT NULL,
+				sent_at INTEGER
+			)
+		`);
+
+		// Alert message templates set with /template; types without a row use the built-in default
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS alert_templates (
+				type TEXT PRIMARY KEY,
+				template TEXT NOT NULL,
+				updated_at INTEGER NOT NULL
+			)
+		`);
+
+		// Columns added after the initial schema
+		this.ensureColumn("price_history", "price_in_iq", "REAL");
+		this.ensureColumn("price_history", "market_cap", "REAL");
+		this.ensureColumn("price_history", "change_in_24h", "REAL");
+		this.ensureColumn("price_history", "holders_count", "INTEGER");
+		this.ensureColumn("price_history", "inference_count", "INTEGER");
+		this.ensureColumn(
+			"watched_tokens",
+			"alert_windows",
+			"TEXT NOT NULL DEFAULT ''",
+		);
+		this.ensureColumn("watched_tokens", "adaptive_mode", "BOOLEAN DEFAULT 0");
+		this.ensureColumn(
+			"alert_rules",
+			"matching_tokens",
+			"TEXT NOT NULL DEFAULT ''",
+		);
+		this.ensureColumn(
+			"watched_tokens",
+			"sigma_threshold",
+			"REAL NOT NULL DEFAULT 3.0",
+		);
+		this.ensureColumn(
+			"watched_tokens",
+			"volatility_window",
+			"INTEGER NOT NULL DEFAULT 50",
+		);
+		this.ensureColumn(
+			"watched_tokens",
+			"alert_basis",
+			"TEXT NOT NULL DEFAULT 'usd'",
+		);
+		this.ensureColumn("alerts", "suppressed", "BOOLEAN DEFAULT 0");
+		this.ensureColumn("alerts", "suppression_reason", "TEXT");
+		this.ensureColumn("alerts", "requires_ack", "BOOLEAN DEFAULT 0");
+		this.ensureColumn("alerts", "acknowledged_at", "INTEGER");
+		this.ensureColumn(
+			"alerts",
+			"escalation_count",
+			"INTEGER NOT NULL DEFAULT 0",
+		);
+		this.ensureColumn("alerts", "last_notified_at", "INTEGER");
+		this.ensureColumn("alerts", "token_name", "TEXT");
+		this.ensureColumn("alerts", "tier", "TEXT");
+		this.ensureColumn("alerts", "severity", "TEXT");
+		this.ensureColumn("alerts", "threshold", "REAL");
+		this.ensureColumn("alerts", "current_price", "REAL");
+		this.ensureColumn("alerts", "previous_price", "REAL");
+		this.ensureColumn("alerts", "change", "REAL");
+		this.ensureColumn("alerts", "change_percentage", "REAL");
+		this.ensureColumn("alerts", "payload", "TEXT");
+
 		// Create indexes for better performance
 		this.db.exec(`
 			CREATE INDEX IF NOT EXISTS idx_price_history_token_time
@@ -122,10 +544,58 @@ class DatabaseService {
 			ON alerts(type, timestamp);
 		`);
 
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_alerts_token_time
+			ON alerts(token_contract, timestamp);
+		`);
+
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_alerts_open
+			ON alerts(requires_ack, triggered);
+		`);
+
 		this.db.exec(`
 			CREATE INDEX IF NOT EXISTS idx_watched_tokens_active
 			ON watched_tokens(is_active);
 		`);
+
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_price_targets_token_active
+			ON price_targets(token_contract, is_active);
+		`);
+
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_metric_alerts_token_active
+			ON metric_alerts(token_contract, is_active);
+		`);
+
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_trailing_alerts_token_active
+			ON trailing_alerts(token_contract, is_active);
+		`);
+
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_wallet_time
+			ON portfolio_snapshots(wallet_address, timestamp);
+		`);
+
+		this.db.exec(`
+			CREATE INDEX IF NOT EXISTS idx_alert_rules_active
+			ON alert_rules(is_active);
+		`);
+	}
+
+	private ensureColumn(
+		table: string,
+		column: string,
+		definition: string,
+	): void {
+		const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as {
+			name: string;
+		}[];
+		if (!columns.some((col) => col.name === column)) {
+			this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+		}
 	}
 
 	private optimizeDatabase(): void {
@@ -142,13 +612,19 @@ class DatabaseService {
 	// Price History Methods
 	addPriceHistory(record: Omit<PriceHistoryRecord, "id">): void {
 		const stmt = this.db.prepare(`
-			INSERT INTO price_history (token_contract, token_name, price, timestamp)
-			VALUES (?, ?, ?, ?)
+			INSERT INTO price_history
+			(token_contract, token_name, price, price_in_iq, market_cap, change_in_24h, holders_count, inference_count, timestamp)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`);
 		stmt.run(
 			record.tokenContract,
 			record.tokenName,
 			record.price,
+			record.priceInIq ?? null,
+			record.marketCap ?? null,
+			record.changeIn24h ?? null,
+			record.holdersCount ?? null,
+			record.inferenceCount ?? null,
 			record.timestamp,
 		);
 	}
@@ -163,7 +639,8 @@ class DatabaseService {
 			ORDER BY timestamp DESC
 			LIMIT ?
 		`);
-		return stmt.all(tokenContract, limit) as PriceHistoryRecord[];
+		const rows = stmt.all(tokenContract, limit) as any[];
+		return rows.map((row) => this.mapPriceHistoryRow(row));
 	}
 
 	getLatestPrice(tokenContract: string): PriceHistoryRecord | null {
@@ -173,7 +650,66 @@ class DatabaseService {
 			ORDER BY timestamp DESC
 			LIMIT 1
 		`);
-		return stmt.get(tokenContract) as PriceHistoryRecord | null;
+		const row = stmt.get(tokenContract) as any;
+		return row ? this.mapPriceHistoryRow(row) : null;
+	}
+
+	// Most recent price recorded at or before the given time (used for windowed comparisons)
+	getPriceAtOrBefore(
+		tokenContract: string,
+		timestamp: number,
+	): PriceHistoryRecord | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM price_history
+			WHERE token_contract = ? AND timestamp <= ?
+			ORDER BY timestamp DESC
+			LIMIT 1
+		`);
+		const row = stmt.get(tokenContract, timestamp) as any;
+		return row ? this.mapPriceHistoryRow(row) : null;
+	}
+
+	// Oldest first, used to replay history (e.g. /rule test)
+	getPriceHistoryBetween(
+		tokenContract: string,
+		from: number,
+		to: number,
+	): PriceHistoryRecord[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM price_history
+			WHERE token_contract = ? AND timestamp >= ? AND timestamp <= ?
+			ORDER BY timestamp ASC
+		`);
+		const rows = stmt.all(tokenContract, from, to) as any[];
+		return rows.map((row) => this.mapPriceHistoryRow(row));
+	}
+
+	// Highest and lowest recorded price since the given time
+	getPriceExtremes(
+		tokenContract: string,
+		from: number,
+	): { high: number | null; low: number | null } {
+		const stmt = this.db.prepare(`
+			SELECT MAX(price) as high, MIN(price) as low FROM price_history
+			WHERE token_contract = ? AND timestamp >= ?
+		`);
+		const row = stmt.get(tokenContract, from) as any;
+		return { high: row.high, low: row.low };
+	}
+
+	private mapPriceHistoryRow(row: any): PriceHistoryRecord {
+		return {
+			id: row.id,
+			tokenContract: row.token_contract,
+			tokenName: row.token_name,
+			price: row.price,
+			priceInIq: row.price_in_iq,
+			marketCap: row.market_cap,
+			changeIn24h: row.change_in_24h,
+			holdersCount: row.holders_count,
+			inferenceCount: row.inference_count,
+			timestamp: row.timestamp,
+		};
 	}
 
 	// Clean old price history (keep last 1000 records per token)
@@ -194,33 +730,192 @@ class DatabaseService {
 	// Alert Methods
 	addAlert(record: Omit<AlertRecord, "id">): number {
 		const stmt = this.db.prepare(`
-			INSERT INTO alerts (type, token_contract, message, timestamp, triggered)
-			VALUES (?, ?, ?, ?, ?)
+			INSERT INTO alerts
+			(type, token_contract, token_name, tier, severity, threshold, current_price, previous_price, change, change_percentage, payload,
+			 message, timestamp, triggered, suppressed, suppression_reason)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`);
 		const result = stmt.run(
 			record.type,
 			record.tokenContract || null,
+			record.tokenName ?? null,
+			record.tier ?? null,
+			record.severity ?? null,
+			record.threshold ?? null,
+			record.currentPrice ?? null,
+			record.previousPrice ?? null,
+			record.change ?? null,
+			record.changePercentage ?? null,
+			record.payload ?? null,
 			record.message,
 			record.timestamp,
 			record.triggered ? 1 : 0,
+			record.suppressed ? 1 : 0,
+			record.suppressionReason || null,
 		);
 		return result.lastInsertRowid as number;
 	}
 
-	getRecentAlerts(limit: number = 50): AlertRecord[] {
+	getRecentAlerts(
+		limit: number = 50,
+		filter: AlertFilter = "delivered",
+	): AlertRecord[] {
+		return this.getAlerts({ status: filter, limit });
+	}
+
+	getAlerts(query: AlertQuery = {}): AlertRecord[] {
+		const { conditions, values } = this.buildAlertConditions(query);
+
+		values.push(query.limit ?? 50);
 		const stmt = this.db.prepare(`
 			SELECT * FROM alerts
+			WHERE ${conditions.join(" AND ")}
 			ORDER BY timestamp DESC
 			LIMIT ?
 		`);
-		return stmt.all(limit) as AlertRecord[];
+		const rows = stmt.all(...values) as any[];
+		return rows.map((row) => this.mapAlertRow(row));
+	}
+
+	countAlerts(query: Omit<AlertQuery, "limit"> = {}): number {
+		const { conditions, values } = this.buildAlertConditions(query);
+		const stmt = this.db.prepare(`
+			SELECT COUNT(*) as count FROM alerts
+			WHERE ${conditions.join(" AND ")}
+		`);
+		return (stmt.get(...values) as { count: number }).count;
+	}
+
+	private buildAlertConditions(query: AlertQuery): {
+		conditions: string[];
+		values: (string | number)[];
+	} {
+		const conditions = [
+			{
+				delivered: "suppressed = 0",
+				suppressed: "suppressed = 1",
+				unacknowledged: "suppressed = 0 AND requires_ack = 1 AND triggered = 0",
+			}[query.status ?? "delivered"],
+		];
+		const values: (string | number)[] = [];
+
+		if (query.type !== undefined) {
+			conditions.push("type = ?");
+			values.push(query.type);
+		}
+		if (query.tokenContract !== undefined) {
+			conditions.push("token_contract = ? COLLATE NOCASE");
+			values.push(query.tokenContract);
+		}
+		if (query.severity !== undefined) {
+			conditions.push("severity = ?");
+			values.push(query.severity);
+		}
+		if (query.from !== undefined) {
+			conditions.push("timestamp >= ?");
+			values.push(query.from);
+		}
+		if (query.to !== undefined) {
+			conditions.push("timestamp <= ?");
+			values.push(query.to);
+		}
+
+		return { conditions, values };
+	}
+
+	getAlert(id: number): AlertRecord | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM alerts WHERE id = ?
+		`);
+		const row = stmt.get(id) as any;
+		return row ? this.mapAlertRow(row) : null;
+	}
+
+	private mapAlertRow(row: any): AlertRecord {
+		return {
+			id: row.id,
+			type: row.type,
+			...(row.token_contract ? { tokenContract: row.token_contract } : {}),
+			...(row.token_name ? { tokenName: row.token_name } : {}),
+			...(row.tier ? { tier: row.tier } : {}),
+			...(row.severity ? { severity: row.severity } : {}),
+			...(row.threshold !== null ? { threshold: row.threshold } : {}),
+			...(row.current_price !== null
+				? { currentPrice: row.current_price }
+				: {}),
+			...(row.previous_price !== null
+				? { previousPrice: row.previous_price }
+				: {}),
+			...(row.change !== null ? { change: row.change } : {}),
+			...(row.change_percentage !== null
+				? { changePercentage: row.change_percentage }
+				: {}),
+			...(row.payload ? { payload: row.payload } : {}),
+			message: row.message,
+			timestamp: row.timestamp,
+			triggered: row.triggered === 1,
+			suppressed: row.suppressed === 1,
+			...(row.suppression_reason
+				? { suppressionReason: row.suppression_reason }
+				: {}),
+			requiresAck: row.requires_ack === 1,
+			...(row.acknowledged_at ? { acknowledgedAt: row.acknowledged_at } : {}),
+			escalationCount: row.escalation_count ?? 0,
+			...(row.last_notified_at ? { lastNotifiedAt: row.last_notified_at } : {}),
+		};
+	}
+
+	markAlertAsSuppressed(id: number, reason: string): void {
+		const stmt = this.db.prepare(`
+			UPDATE alerts SET suppressed = 1, suppression_reason = ? WHERE id = ?
+		`);
+		stmt.run(reason, id);
+	}
+
+	// The triggered flag doubles as the acknowledgement flag for critical alerts
+	markAlertAsTriggered(id: number): boolean {
+		const stmt = this.db.prepare(`
+			UPDATE alerts SET triggered = 1, acknowledged_at = ?
+			WHERE id = ? AND triggered = 0
+		`);
+		return stmt.run(Date.now(), id).changes > 0;
+	}
+
+	markAllAlertsAsTriggered(): number {
+		const stmt = this.db.prepare(`
+			UPDATE alerts SET triggered = 1, acknowledged_at = ?
+			WHERE requires_ack = 1 AND triggered = 0
+		`);
+		return stmt.run(Date.now()).changes;
+	}
+
+	requireAcknowledgement(id: number, notifiedAt: number): void {
+		const stmt = this.db.prepare(`
+			UPDATE alerts SET requires_ack = 1, last_notified_at = ? WHERE id = ?
+		`);
+		stmt.run(notifiedAt, id);
+	}
+
+	getAlertsDueForEscalation(
+		notifiedBefore: number,
+		maxEscalations: number,
+	): AlertRecord[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM alerts
+			WHERE requires_ack = 1 AND triggered = 0 AND suppressed = 0
+				AND escalation_count < ? AND last_notified_at <= ?
+			ORDER BY timestamp ASC
+		`);
+		const rows = stmt.all(maxEscalations, notifiedBefore) as any[];
+		return rows.map((row) => this.mapAlertRow(row));
 	}
 
-	markAlertAsTriggered(id: number): void {
+	recordEscalation(id: number, notifiedAt: number): void {
 		const stmt = this.db.prepare(`
-			UPDATE alerts SET triggered = 1 WHERE id = ?
+			UPDATE alerts SET escalation_count = escalation_count + 1, last_notified_at = ?
+			WHERE id = ?
 		`);
-		stmt.run(id);
+		stmt.run(notifiedAt, id);
 	}
 
 	// User Preferences Methods
@@ -240,6 +935,13 @@ class DatabaseService {
 		return result?.value || null;
 	}
 
+	deletePreference(key: string): void {
+		const stmt = this.db.prepare(`
+			DELETE FROM user_preferences WHERE key = ?
+		`);
+		stmt.run(key);
+	}
+
 	getAllPreferences(): UserPreference[] {
 		const stmt = this.db.prepare(`
 			SELECT * FROM user_preferences ORDER BY key
@@ -252,8 +954,9 @@ class DatabaseService {
 		const stmt = this.db.prepare(`
 			INSERT OR REPLACE INTO watched_tokens
 			(token_contract, token_name, price_change_threshold, minor_threshold, major_threshold, critical_threshold,
-			 check_interval, last_price, last_check_time, is_active, enable_minor_alerts, enable_major_alerts, enable_critical_alerts, updated_at)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			 check_interval, last_price, last_check_time, is_active, enable_minor_alerts, enable_major_alerts, enable_critical_alerts, alert_windows,
+			 adaptive_mode, sigma_threshold, volatility_window, alert_basis, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`);
 		const result = stmt.run(
 			token.tokenContract,
@@ -269,6 +972,11 @@ class DatabaseService {
 			token.enableMinorAlerts ? 1 : 0,
 			token.enableMajorAlerts ? 1 : 0,
 			token.enableCriticalAlerts ? 1 : 0,
+			token.alertWindows.join(","),
+			token.adaptiveMode ? 1 : 0,
+			token.sigmaThreshold,
+			token.volatilityWindow,
+			token.alertBasis,
 			Date.now(),
 		);
 		return result.lastInsertRowid as number;
@@ -278,7 +986,8 @@ class DatabaseService {
 		const whereClause = activeOnly ? "WHERE is_active = 1" : "";
 		const stmt = this.db.prepare(`
 			SELECT id, token_contract, token_name, price_change_threshold, minor_threshold, major_threshold, critical_threshold,
-			       check_interval, last_price, last_check_time, is_active, enable_minor_alerts, enable_major_alerts, enable_critical_alerts
+			       check_interval, last_price, last_check_time, is_active, enable_minor_alerts, enable_major_alerts, enable_critical_alerts,
+			       alert_windows, adaptive_mode, sigma_threshold, volatility_window, alert_basis
 			FROM watched_tokens
 			${whereClause}
 			ORDER BY created_at DESC
@@ -299,6 +1008,11 @@ class DatabaseService {
 			enableMinorAlerts: row.enable_minor_alerts === 1,
 			enableMajorAlerts: row.enable_major_alerts === 1,
 			enableCriticalAlerts: row.enable_critical_alerts === 1,
+			alertWindows: row.alert_windows ? row.alert_windows.split(",") : [],
+			adaptiveMode: row.adaptive_mode === 1,
+			sigmaThreshold: row.sigma_threshold,
+			volatilityWindow: row.volatility_window,
+			alertBasis: row.alert_basis,
 		}));
 	}
 
@@ -357,6 +1071,26 @@ class DatabaseService {
 			fields.push("enable_critical_alerts = ?");
 			values.push(updates.enableCriticalAlerts ? 1 : 0);
 		}
+		if (updates.alertWindows !== undefined) {
+			fields.push("alert_windows = ?");
+			values.push(updates.alertWindows.join(","));
+		}
+		if (updates.adaptiveMode !== undefined) {
+			fields.push("adaptive_mode = ?");
+			values.push(updates.adaptiveMode ? 1 : 0);
+		}
+		if (updates.sigmaThreshold !== undefined) {
+			fields.push("sigma_threshold = ?");
+			values.push(updates.sigmaThreshold);
+		}
+		if (updates.volatilityWindow !== undefined) {
+			fields.push("volatility_window = ?");
+			values.push(updates.volatilityWindow);
+		}
+		if (updates.alertBasis !== undefined) {
+			fields.push("alert_basis = ?");
+			values.push(updates.alertBasis);
+		}
 
 		if (fields.length === 0) return;
 
@@ -388,19 +1122,827 @@ class DatabaseService {
 		return stmt.get(tokenContract) as WatchedToken | null;
 	}
 
-	// Statistics Methods
-	getStats(): {
-		totalPriceRecords: number;
-		totalAlerts: number;
-		totalWatchedTokens: number;
-		activeWatchedTokens: number;
-	} {
-		const priceCount = this.db
-			.prepare("SELECT COUNT(*) as count FROM price_history")
+	// Price Target Methods
+	addPriceTarget(target: Omit<PriceTarget, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO price_targets
+			(token_contract, token_name, direction, target_price, rearm, is_armed, is_active, last_triggered_at, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			target.tokenContract,
+			target.tokenName,
+			target.direction,
+			target.targetPrice,
+			target.rearm ? 1 : 0,
+			target.isArmed ? 1 : 0,
+			target.isActive ? 1 : 0,
+			target.lastTriggeredAt,
+			target.createdAt,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	getPriceTargets(tokenContract?: string): PriceTarget[] {
+		const whereClause = tokenContract
+			? "WHERE is_active = 1 AND token_contract = ?"
+			: "WHERE is_active = 1";
+		const stmt = this.db.prepare(`
+			SELECT * FROM price_targets
+			${whereClause}
+			ORDER BY token_contract, target_price
+		`);
+		const rows = (
+			tokenContract ? stmt.all(tokenContract) : stmt.all()
+		) as any[];
+		return rows.map((row) => ({
+			id: row.id,
+			tokenContract: row.token_contract,
+			tokenName: row.token_name,
+			direction: row.direction,
+			targetPrice: row.target_price,
+			rearm: row.rearm === 1,
+			isArmed: row.is_armed === 1,
+			isActive: row.is_active === 1,
+			lastTriggeredAt: row.last_triggered_at,
+			createdAt: row.created_at,
+		}));
+	}
+
+	updatePriceTarget(
+		id: number,
+		updates: Partial<
+			Pick<PriceTarget, "isArmed" | "isActive" | "lastTriggeredAt">
+		>,
+	): void {
+		const fields = [];
+		const values = [];
+
+		if (updates.isArmed !== undefined) {
+			fields.push("is_armed = ?");
+			values.push(updates.isArmed ? 1 : 0);
+		}
+		if (updates.isActive !== undefined) {
+			fields.push("is_active = ?");
+			values.push(updates.isActive ? 1 : 0);
+		}
+		if (updates.lastTriggeredAt !== undefined) {
+			fields.push("last_triggered_at = ?");
+			values.push(updates.lastTriggeredAt);
+		}
+
+		if (fields.length === 0) return;
+
+		values.push(id);
+		const stmt = this.db.prepare(`
+			UPDATE price_targets
+			SET ${fields.join(", ")}
+			WHERE id = ?
+		`);
+		stmt.run(...values);
+	}
+
+	removePriceTarget(id: number): boolean {
+		const stmt = this.db.prepare(`
+			UPDATE price_targets SET is_active = 0
+			WHERE id = ? AND is_active = 1
+		`);
+		return stmt.run(id).changes > 0;
+	}
+
+	// Metric Alert Methods
+	addMetricAlert(alert: Omit<MetricAlert, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO metric_alerts
+			(token_contract, token_name, metric, condition, value, lookback, is_armed, is_active, last_triggered_at, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			alert.tokenContract,
+			alert.tokenName,
+			alert.metric,
+			alert.condition,
+			alert.value,
+			alert.lookback,
+			alert.isArmed ? 1 : 0,
+			alert.isActive ? 1 : 0,
+			alert.lastTriggeredAt,
+			alert.createdAt,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	getMetricAlerts(tokenContract?: string): MetricAlert[] {
+		const whereClause = tokenContract
+			? "WHERE is_active = 1 AND token_contract = ?"
+			: "WHERE is_active = 1";
+		const stmt = this.db.prepare(`
+			SELECT * FROM metric_alerts
+			${whereClause}
+			ORDER BY token_contract, metric
+		`);
+		const rows = (
+			tokenContract ? stmt.all(tokenContract) : stmt.all()
+		) as any[];
+		return rows.map((row) => ({
+			id: row.id,
+			tokenContract: row.token_contract,
+			tokenName: row.token_name,
+			metric: row.metric,
+			condition: row.condition,
+			value: row.value,
+			lookback: row.lookback,
+			isArmed: row.is_armed === 1,
+			isActive: row.is_active === 1,
+			lastTriggeredAt: row.last_triggered_at,
+			createdAt: row.created_at,
+		}));
+	}
+
+	updateMetricAlert(
+		id: number,
+		updates: Partial<Pick<MetricAlert, "isArmed" | "lastTriggeredAt">>,
+	): void {
+		const fields = [];
+		const values = [];
+
+		if (updates.isArmed !== undefined) {
+			fields.push("is_armed = ?");
+			values.push(updates.isArmed ? 1 : 0);
+		}
+		if (updates.lastTriggeredAt !== undefined) {
+			fields.push("last_triggered_at = ?");
+			values.push(updates.lastTriggeredAt);
+		}
+
+		if (fields.length === 0) return;
+
+		values.push(id);
+		const stmt = this.db.prepare(`
+			UPDATE metric_alerts
+			SET ${fields.join(", ")}
+			WHERE id = ?
+		`);
+		stmt.run(...values);
+	}
+
+	removeMetricAlert(id: number): boolean {
+		const stmt = this.db.prepare(`
+			UPDATE metric_alerts SET is_active = 0
+			WHERE id = ? AND is_active = 1
+		`);
+		return stmt.run(id).changes > 0;
+	}
+
+	// Trailing Alert Methods
+	addTrailingAlert(alert: Omit<TrailingAlert, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO trailing_alerts
+			(token_contract, token_name, kind, percentage, lookback, extreme_price, is_armed, is_active, auto_armed, last_triggered_at, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			alert.tokenContract,
+			alert.tokenName,
+			alert.kind,
+			alert.percentage,
+			alert.lookback,
+			alert.extremePrice,
+			alert.isArmed ? 1 : 0,
+			alert.isActive ? 1 : 0,
+			alert.autoArmed ? 1 : 0,
+			alert.lastTriggeredAt,
+			alert.createdAt,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	getTrailingAlerts(tokenContract?: string): TrailingAlert[] {
+		const whereClause = tokenContract
+			? "WHERE is_active = 1 AND token_contract = ?"
+			: "WHERE is_active = 1";
+		const stmt = this.db.prepare(`
+			SELECT * FROM trailing_alerts
+			${whereClause}
+			ORDER BY token_name, kind
+		`);
+		const rows = (
+			tokenContract ? stmt.all(tokenContract) : stmt.all()
+		) as any[];
+		return rows.map((row) => ({
+			id: row.id,
+			tokenContract: row.token_contract,
+			tokenName: row.token_name,
+			kind: row.kind,
+			percentage: row.percentage,
+			lookback: row.lookback,
+			extremePrice: row.extreme_price,
+			isArmed: row.is_armed === 1,
+			isActive: row.is_active === 1,
+			autoArmed: row.auto_armed === 1,
+			lastTriggeredAt: row.last_triggered_at,
+			createdAt: row.created_at,
+		}));
+	}
+
+	updateTrailingAlert(
+		id: number,
+		updates: Partial<
+			Pick<TrailingAlert, "extremePrice" | "isArmed" | "lastTriggeredAt">
+		>,
+	): void {
+		const fields = [];
+		const values = [];
+
+		if (updates.extremePrice !== undefined) {
+			fields.push("extreme_price = ?");
+			values.push(updates.extremePrice);
+		}
+		if (updates.isArmed !== undefined) {
+			fields.push("is_armed = ?");
+			values.push(updates.isArmed ? 1 : 0);
+		}
+		if (updates.lastTriggeredAt !== undefined) {
+			fields.push("last_triggered_at = ?");
+			values.push(updates.lastTriggeredAt);
+		}
+
+		if (fields.length === 0) return;
+
+		values.push(id);
+		const stmt = this.db.prepare(`
+			UPDATE trailing_alerts
+			SET ${fields.join(", ")}
+			WHERE id = ?
+		`);
+		stmt.run(...values);
+	}
+
+	removeTrailingAlert(id: number): boolean {
+		const stmt = this.db.prepare(`
+			UPDATE trailing_alerts SET is_active = 0
+			WHERE id = ? AND is_active = 1
+		`);
+		return stmt.run(id).changes > 0;
+	}
+
+	// Deactivate auto-armed alerts, optionally only for one token
+	removeAutoArmedTrailingAlerts(tokenContract?: string): number {
+		const stmt = this.db.prepare(`
+			UPDATE trailing_alerts SET is_active = 0
+			WHERE is_active = 1 AND auto_armed = 1
+			${tokenContract ? "AND token_contract = ?" : ""}
+		`);
+		return (tokenContract ? stmt.run(tokenContract) : stmt.run()).changes;
+	}
+
+	// Alert Rule Methods
+	addAlertRule(rule: Omit<AlertRule, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO alert_rules
+			(name, token_contract, expression, severity, is_active, last_triggered_at, matching_tokens, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			rule.name,
+			rule.tokenContract,
+			rule.expression,
+			rule.severity,
+			rule.isActive ? 1 : 0,
+			rule.lastTriggeredAt,
+			rule.matchingTokens.join(","),
+			rule.createdAt,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	// Active rules; with a token, only those that apply to it (token-specific or global)
+	getAlertRules(tokenContract?: string): AlertRule[] {
+		const whereClause = tokenContract
+			? "WHERE is_active = 1 AND (token_contract = ? OR token_contract IS NULL)"
+			: "WHERE is_active = 1";
+		const stmt = this.db.prepare(`
+			SELECT * FROM alert_rules
+			${whereClause}
+			ORDER BY name
+		`);
+		const rows = (
+			tokenContract ? stmt.all(tokenContract) : stmt.all()
+		) as any[];
+		return rows.map((row) => this.mapAlertRuleRow(row));
+	}
+
+	getAlertRule(name: string): AlertRule | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM alert_rules
+			WHERE name = ? AND is_active = 1
+		`);
+		const row = stmt.get(name) as any;
+		return row ? this.mapAlertRuleRow(row) : null;
+	}
+
+	updateAlertRuleTriggered(id: number, triggeredAt: number): void {
+		const stmt = this.db.prepare(`
+			UPDATE alert_rules SET last_triggered_at = ?
+			WHERE id = ?
+		`);
+		stmt.run(triggeredAt, id);
+	}
+
+	setAlertRuleMatchingTokens(id: number, tokenContracts: string[]): void {
+		const stmt = this.db.prepare(`
+			UPDATE alert_rules SET matching_tokens = ?
+			WHERE id = ?
+		`);
+		stmt.run(tokenContracts.join(","), id);
+	}
+
+	removeAlertRule(name: string): boolean {
+		const stmt = this.db.prepare(`
+			UPDATE alert_rules SET is_active = 0
+			WHERE name = ? AND is_active = 1
+		`);
+		return stmt.run(name).changes > 0;
+	}
+
+	private mapAlertRuleRow(row: any): AlertRule {
+		return {
+			id: row.id,
+			name: row.name,
+			tokenContract: row.token_contract,
+			expression: row.expression,
+			severity: row.severity,
+			isActive: row.is_active === 1,
+			lastTriggeredAt: row.last_triggered_at,
+			matchingTokens: row.matching_tokens ? row.matching_tokens.split(",") : [],
+			createdAt: row.created_at,
+		};
+	}
+
+	// Wallet Methods
+	// Adds a wallet, or reactivates and updates it if the address was added before
+	addWallet(wallet: Omit<Wallet, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO wallets
+			(address, label, threshold_usd, significant_change_percentage, is_active, created_at)
+			VALUES (?, ?, ?, ?, ?, ?)
+			ON CONFLICT(address) DO UPDATE SET
+				label = excluded.label,
+				threshold_usd = excluded.threshold_usd,
+				significant_change_percentage = excluded.significant_change_percentage,
+				is_active = excluded.is_active
+		`);
+		stmt.run(
+			wallet.address,
+			wallet.label,
+			wallet.thresholdUsd,
+			wallet.significantChangePercentage,
+			wallet.isActive ? 1 : 0,
+			wallet.createdAt,
+		);
+		return this.getWallet(wallet.address)?.id ?? 0;
+	}
+
+	// Inserts the wallet only if the address has never been added, so a removed seed wallet stays removed
+	seedWallet(address: string, label: string): void {
+		const stmt = this.db.prepare(`
+			INSERT OR IGNORE INTO wallets (address, label, is_active, created_at)
+			VALUES (?, ?, 1, ?)
+		`);
+		stmt.run(address, label, Date.now());
+	}
+
+	getWallets(): Wallet[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM wallets
+			WHERE is_active = 1
+			ORDER BY created_at, id
+		`);
+		const rows = stmt.all() as any[];
+		return rows.map((row) => this.mapWalletRow(row));
+	}
+
+	// Looks a wallet up by address or label
+	getWallet(addressOrLabel: string): Wallet | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM wallets
+			WHERE is_active = 1 AND (address = ? OR label = ? COLLATE NOCASE)
+		`);
+		const row = stmt.get(addressOrLabel, addressOrLabel) as any;
+		return row ? this.mapWalletRow(row) : null;
+	}
+
+	removeWallet(id: number): boolean {
+		const stmt = this.db.prepare(`
+			UPDATE wallets SET is_active = 0
+			WHERE id = ? AND is_active = 1
+		`);
+		return stmt.run(id).changes > 0;
+	}
+
+	private mapWalletRow(row: any): Wallet {
+		return {
+			id: row.id,
+			address: row.address,
+			label: row.label,
+			thresholdUsd: row.threshold_usd,
+			significantChangePercentage: row.significant_change_percentage,
+			isActive: row.is_active === 1,
+			createdAt: row.created_at,
+		};
+	}
+
+	// Cost Basis Methods
+	setCostBasis(basis: CostBasis): void {
+		const stmt = this.db.prepare(`
+			INSERT OR REPLACE INTO cost_basis
+			(token_contract, token_name, average_cost, amount, source, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`);
+		stmt.run(
+			basis.tokenContract,
+			basis.tokenName,
+			basis.averageCost,
+			basis.amount,
+			basis.source,
+			basis.updatedAt,
+		);
+	}
+
+	getCostBases(): CostBasis[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM cost_basis
+			ORDER BY token_name
+		`);
+		const rows = stmt.all() as any[];
+		return rows.map((row) => this.mapCostBasisRow(row));
+	}
+
+	getCostBasis(tokenContract: string): CostBasis | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM cost_basis WHERE token_contract = ?
+		`);
+		const row = stmt.get(tokenContract) as any;
+		return row ? this.mapCostBasisRow(row) : null;
+	}
+
+	removeCostBasis(tokenContract: string): boolean {
+		const stmt = this.db.prepare(`
+			DELETE FROM cost_basis WHERE token_contract = ?
+		`);
+		return stmt.run(tokenContract).changes > 0;
+	}
+
+	private mapCostBasisRow(row: any): CostBasis {
+		return {
+			tokenContract: row.token_contract,
+			tokenName: row.token_name,
+			averageCost: row.average_cost,
+			amount: row.amount,
+			source: row.source,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	// Allocation Target Methods
+	setAllocationTarget(target: AllocationTarget): void {
+		const stmt = this.db.prepare(`
+			INSERT OR REPLACE INTO allocation_targets
+			(target, kind, name, weight, updated_at)
+			VALUES (?, ?, ?, ?, ?)
+		`);
+		stmt.run(
+			target.target,
+			target.kind,
+			target.name,
+			target.weight,
+			target.updatedAt,
+		);
+	}
+
+	getAllocationTargets(): AllocationTarget[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM allocation_targets
+			ORDER BY weight DESC
+		`);
+		const rows = stmt.all() as any[];
+		return rows.map((row) => this.mapAllocationTargetRow(row));
+	}
+
+	removeAllocationTarget(target: string): boolean {
+		const stmt = this.db.prepare(`
+			DELETE FROM allocation_targets WHERE target = ?
+		`);
+		return stmt.run(target).changes > 0;
+	}
+
+	private mapAllocationTargetRow(row: any): AllocationTarget {
+		return {
+			target: row.target,
+			kind: row.kind,
+			name: row.name,
+			weight: row.weight,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	// Notification Channel Methods
+	setNotificationChannel(channel: NotificationChannelRecord): void {
+		const stmt = this.db.prepare(`
+			INSERT OR REPLACE INTO notification_channels
+			(name, kind, target, min_severity, created_at)
+			VALUES (?, ?, ?, ?, ?)
+		`);
+		stmt.run(
+			channel.name,
+			channel.kind,
+			channel.target,
+			channel.minSeverity,
+			channel.createdAt,
+		);
+	}
+
+	getNotificationChannels(): NotificationChannelRecord[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM notification_channels
+			ORDER BY created_at
+		`);
+		const rows = stmt.all() as any[];
+		return rows.map((row) => ({
+			name: row.name,
+			kind: row.kind,
+			target: row.target,
+			minSeverity: row.min_severity,
+			createdAt: row.created_at,
+		}));
+	}
+
+	removeNotificationChannel(name: string): boolean {
+		const stmt = this.db.prepare(`
+			DELETE FROM notification_channels WHERE name = ?
+		`);
+		return stmt.run(name).changes > 0;
+	}
+
+	// Alert Template Methods
+	setAlertTemplate(template: AlertTemplate): void {
+		const stmt = this.db.prepare(`
+			INSERT OR REPLACE INTO alert_templates (type, template, updated_at)
+			VALUES (?, ?, ?)
+		`);
+		stmt.run(template.type, template.template, template.updatedAt);
+	}
+
+	getAlertTemplate(type: AlertTemplate["type"]): AlertTemplate | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM alert_templates WHERE type = ?
+		`);
+		const row = stmt.get(type) as any;
+		return row
+			? { type: row.type, template: row.template, updatedAt: row.updated_at }
+			: null;
+	}
+
+	removeAlertTemplate(type: AlertTemplate["type"]): boolean {
+		const stmt = this.db.prepare(`
+			DELETE FROM alert_templates WHERE type = ?
+		`);
+		return stmt.run(type).changes > 0;
+	}
+
+	// Outbox Methods
+	addOutboxMessage(entry: Omit<OutboxMessage, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO outbox
+			(chat_id, message, parse_mode, alert_id, status, attempts, next_attempt_at, last_error, created_at, sent_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			entry.chatId,
+			entry.message,
+			entry.parseMode,
+			entry.alertId,
+			entry.status,
+			entry.attempts,
+			entry.nextAttemptAt,
+			entry.lastError,
+			entry.createdAt,
+			entry.sentAt,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	// Oldest first, so the parts of a split message go out in order
+	getPendingOutboxMessages(): OutboxMessage[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM outbox
+			WHERE status = 'pending'
+			ORDER BY id
+		`);
+		const rows = stmt.all() as any[];
+		return rows.map((row) => this.mapOutboxRow(row));
+	}
+
+	updateOutboxMessage(
+		id: number,
+		update: Pick<
+			OutboxMessage,
+			"status" | "attempts" | "nextAttemptAt" | "lastError" | "sentAt"
+		>,
+	): void {
+		const stmt = this.db.prepare(`
+			UPDATE outbox
+			SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ?, sent_at = ?
+			WHERE id = ?
+		`);
+		stmt.run(
+			update.status,
+			update.attempts,
+			update.nextAttemptAt,
+			update.lastError,
+			update.sentAt,
+			id,
+		);
+	}
+
+	getOutboxStats(): {
+		pending: number;
+		failed: number;
+		oldestPendingAt: number | null;
+	} {
+		const row = this.db
+			.prepare(
+				`
+				SELECT
+					SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+					SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+					MIN(CASE WHEN status = 'pending' THEN created_at END) as oldest_pending_at
+				FROM outbox
+			`,
+			)
+			.get() as any;
+		return {
+			pending: row.pending ?? 0,
+			failed: row.failed ?? 0,
+			oldestPendingAt: row.oldest_pending_at ?? null,
+		};
+	}
+
+	pruneSentOutboxMessages(before: number): number {
+		const stmt = this.db.prepare(`
+			DELETE FROM outbox WHERE status = 'sent' AND sent_at < ?
+		`);
+		return stmt.run(before).changes;
+	}
+
+	private mapOutboxRow(row: any): OutboxMessage {
+		return {
+			id: row.id,
+			chatId: row.chat_id,
+			message: row.message,
+			parseMode: row.parse_mode,
+			alertId: row.alert_id,
+			status: row.status,
+			attempts: row.attempts,
+			nextAttemptAt: row.next_attempt_at,
+			lastError: row.last_error,
+			createdAt: row.created_at,
+			sentAt: row.sent_at,
+		};
+	}
+
+	// Webhook Delivery Methods
+	addWebhookDelivery(delivery: Omit<WebhookDelivery, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO webhook_deliveries
+			(delivery_id, event, alert_id, url, attempt, status_code, latency_ms, success, error, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			delivery.deliveryId,
+			delivery.event,
+			delivery.alertId,
+			delivery.url,
+			delivery.attempt,
+			delivery.statusCode,
+			delivery.latencyMs,
+			delivery.success ? 1 : 0,
+			delivery.error,
+			delivery.createdAt,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	getWebhookDeliveries(limit: number = 20): WebhookDelivery[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM webhook_deliveries
+			ORDER BY created_at DESC, id DESC
+			LIMIT ?
+		`);
+		const rows = stmt.all(limit) as any[];
+		return rows.map((row) => ({
+			id: row.id,
+			deliveryId: row.delivery_id,
+			event: row.event,
+			alertId: row.alert_id,
+			url: row.url,
+			attempt: row.attempt,
+			statusCode: row.status_code,
+			latencyMs: row.latency_ms,
+			success: row.success === 1,
+			error: row.error,
+			createdAt: row.created_at,
+		}));
+	}
+
+	// Portfolio Snapshot Methods
+	addPortfolioSnapshot(snapshot: Omit<PortfolioSnapshot, "id">): number {
+		const stmt = this.db.prepare(`
+			INSERT INTO portfolio_snapshots
+			(wallet_address, total_value, threshold_reached, holdings, timestamp)
+			VALUES (?, ?, ?, ?, ?)
+		`);
+		const result = stmt.run(
+			snapshot.walletAddress,
+			snapshot.totalValue,
+			snapshot.thresholdReached ? 1 : 0,
+			JSON.stringify(snapshot.holdings),
+			snapshot.timestamp,
+		);
+		return result.lastInsertRowid as number;
+	}
+
+	getLatestPortfolioSnapshot(walletAddress: string): PortfolioSnapshot | null {
+		const stmt = this.db.prepare(`
+			SELECT * FROM portfolio_snapshots
+			WHERE wallet_address = ?
+			ORDER BY timestamp DESC
+			LIMIT 1
+		`);
+		const row = stmt.get(walletAddress) as any;
+		return row ? this.mapPortfolioSnapshotRow(row) : null;
+	}
+
+	// Oldest first, optionally for one wallet
+	getPortfolioSnapshots(
+		from: number,
+		walletAddress?: string,
+	): PortfolioSnapshot[] {
+		const whereClause = walletAddress
+			? "WHERE timestamp >= ? AND wallet_address = ?"
+			: "WHERE timestamp >= ?";
+		const stmt = this.db.prepare(`
+			SELECT * FROM portfolio_snapshots
+			${whereClause}
+			ORDER BY timestamp ASC
+		`);
+		const rows = (
+			walletAddress ? stmt.all(from, walletAddress) : stmt.all(from)
+		) as any[];
+		return rows.map((row) => this.mapPortfolioSnapshotRow(row));
+	}
+
+	// Keeps only the last snapshot per wallet in every bucketMs slot before the cutoff
+	downsamplePortfolioSnapshots(before: number, bucketMs: number): number {
+		const stmt = this.db.prepare(`
+			DELETE FROM portfolio_snapshots
+			WHERE timestamp < ? AND id NOT IN (
+				SELECT MAX(id) FROM portfolio_snapshots
+				WHERE timestamp < ?
+				GROUP BY wallet_address, timestamp / CAST(? AS INTEGER)
+			)
+		`);
+		return stmt.run(before, before, bucketMs).changes;
+	}
+
+	private mapPortfolioSnapshotRow(row: any): PortfolioSnapshot {
+		return {
+			id: row.id,
+			walletAddress: row.wallet_address,
+			totalValue: row.total_value,
+			thresholdReached: row.threshold_reached === 1,
+			holdings: JSON.parse(row.holdings),
+			timestamp: row.timestamp,
+		};
+	}
+
+	// Statistics Methods
+	getStats(): {
+		totalPriceRecords: number;
+		totalAlerts: number;
+		suppressedAlerts: number;
+		totalWatchedTokens: number;
+		activeWatchedTokens: number;
+	} {
+		const priceCount = this.db
+			.prepare("SELECT COUNT(*) as count FROM price_history")
 			.get() as { count: number };
 		const alertCount = this.db
 			.prepare("SELECT COUNT(*) as count FROM alerts")
 			.get() as { count: number };
+		const suppressedCount = this.db
+			.prepare("SELECT COUNT(*) as count FROM alerts WHERE suppressed = 1")
+			.get() as { count: number };
 		const watchedCount = this.db
 			.prepare("SELECT COUNT(*) as count FROM watched_tokens")
 			.get() as { count: number };
@@ -413,6 +1955,7 @@ class DatabaseService {
 		return {
 			totalPriceRecords: priceCount.count,
 			totalAlerts: alertCount.count,
+			suppressedAlerts: suppressedCount.count,
 			totalWatchedTokens: watchedCount.count,
 			activeWatchedTokens: activeWatchedCount.count,
 		};
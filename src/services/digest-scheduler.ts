@@ -0,0 +1,358 @@
+import { EventEmitter } from "node:events";
+import cron, { type ScheduledTask } from "node-cron";
+import { agentsApi, type Holding } from "./agents";
+import { database } from "./database";
+import type { HoldingsWatcher } from "./holdings-watcher";
+import { IQ_TOKEN_CONTRACT } from "./iq-price-watcher";
+
+export const DIGEST_SECTIONS = [
+	"portfolio",
+	"movers",
+	"iq",
+	"watched",
+	"alerts",
+] as const;
+
+export type DigestSection = (typeof DIGEST_SECTIONS)[number];
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface DigestConfig {
+	enabled: boolean;
+	frequency: "daily" | "weekly";
+	time: string; // HH:MM
+	timezone: string;
+	weekday: number; // 0 = Sunday, only used for weekly digests
+	sections: DigestSection[];
+}
+
+interface TokenMove {
+	name: string;
+	startPrice: number;
+	currentPrice: number;
+	changePercentage: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MOVERS_LIMIT = 3;
+
+export class DigestScheduler extends EventEmitter {
+	private config: DigestConfig;
+	private holdingsWatcher: HoldingsWatcher;
+	private task: ScheduledTask | null = null;
+	private isRunning: boolean = false;
+	private lastSentAt: number | null = null;
+
+	constructor(holdingsWatcher: HoldingsWatcher) {
+		super();
+		this.holdingsWatcher = holdingsWatcher;
+
+		// Load preferences from database
+		const dbEnabled = database.getPreference("digest_enabled");
+		const dbFrequency = database.getPreference("digest_frequency");
+		const dbTime = database.getPreference("digest_time");
+		const dbTimezone = database.getPreference("digest_timezone");
+		const dbWeekday = database.getPreference("digest_weekday");
+		const dbSections = database.getPreference("digest_sections");
+
+		this.config = {
+			enabled: dbEnabled === "true",
+			frequency: dbFrequency === "weekly" ? "weekly" : "daily",
+			time: dbTime || "08:00",
+			timezone: dbTimezone || "UTC",
+			weekday: dbWeekday ? parseInt(dbWeekday, 10) : 1,
+			sections: dbSections
+				? (dbSections.split(",") as DigestSection[])
+				: [...DIGEST_SECTIONS],
+		};
+	}
+
+	start(): void {
+		if (this.isRunning) return;
+
+		this.isRunning = true;
+		this.schedule();
+	}
+
+	stop(): void {
+		if (!this.isRunning) return;
+
+		this.isRunning = false;
+		this.unschedule();
+	}
+
+	getCronExpression(): string {
+		const [hours, minutes] = this.config.time.split(":").map(Number);
+		const weekday =
+			this.config.frequency === "weekly" ? this.config.weekday : "*";
+		return `${minutes ?? 0} ${hours ?? 0} * * ${weekday}`;
+	}
+
+	// Sends a digest right away, outside the schedule
+	async sendNow(): Promise<void> {
+		const message = await this.buildDigest();
+		this.lastSentAt = Date.now();
+		this.emit("digest", message);
+	}
+
+	async buildDigest(now: number = Date.now()): Promise<string> {
+		const periodMs = this.config.frequency === "weekly" ? 7 * DAY_MS : DAY_MS;
+		const periodStart = now - periodMs;
+		const sections = new Set(this.config.sections);
+		const title =
+			this.config.frequency === "weekly" ? "Weekly digest" : "Daily digest";
+		let message = `📰 ${title}\n`;
+
+		let current: { value: number; holdings: Holding[] } | null = null;
+		if (sections.has("portfolio") || sections.has("movers")) {
+			try {
+				current = await this.holdingsWatcher.getCurrentHoldings();
+			} catch (error) {
+				console.error("❌ Error fetching holdings for digest:", error);
+			}
+		}
+
+		if (sections.has("portfolio")) {
+			message += "\n💼 Portfolio\n";
+			if (current) {
+				message += `💰 Value: ${agentsApi.formatCurrency(current.value)}\n`;
+				message += `📅 24h: ${this.formatValueChange(current.value, now - DAY_MS, DAY_MS)}\n`;
+				message += `🗓️ 7d: ${this.formatValueChange(current.value, now - 7 * DAY_MS, 7 * DAY_MS)}\n`;
+			} else {
+				message += "⚠️ Holdings are unavailable right now\n";
+			}
+		}
+
+		if (sections.has("movers")) {
+			message += "\n🏁 Top movers\n";
+			const moves = current
+				? this.getHoldingMoves(current.holdings, periodStart, periodMs)
+				: [];
+			if (moves.length === 0) {
+				message += "No price history for your holdings yet\n";
+			} else {
+				const gainers = moves
+					.filter((move) => move.changePercentage > 0)
+					.slice(0, MOVERS_LIMIT);
+				const losers = moves
+					.filter((move) => move.changePercentage < 0)
+					.reverse()
+					.slice(0, MOVERS_LIMIT);
+				for (const move of gainers) {
+					message += `🟢 ${move.name}: ${this.formatPercentage(move.changePercentage)}\n`;
+				}
+				for (const move of losers) {
+					message += `🔴 ${move.name}: ${this.formatPercentage(move.changePercentage)}\n`;
+				}
+				if (gainers.length === 0 && losers.length === 0) {
+					message += "No price changes in this period\n";
+				}
+			}
+		}
+
+		if (sections.has("iq")) {
+			message += "\n🪙 IQ token\n";
+			const move = this.getPriceMove(IQ_TOKEN_CONTRACT, "IQ", periodStart);
+			message += move
+				? `${agentsApi.formatUsd(move.currentPrice)} (${this.formatPercentage(move.changePercentage)})\n`
+				: "No price history yet\n";
+		}
+
+		if (sections.has("watched")) {
+			message += "\n👀 Watched tokens\n";
+			const tokens = database.getWatchedTokens(true);
+			if (tokens.length === 0) {
+				message += "No tokens are being watched\n";
+			}
+			for (const token of tokens) {
+				const move = this.getPriceMove(
+					token.tokenContract,
+					token.tokenName,
+					periodStart,
+				);
+				message += move
+					? `• ${token.tokenName}: ${agentsApi.formatCurrency(move.currentPrice)} (${this.formatPercentage(move.changePercentage)})\n`
+					: `• ${token.tokenName}: no price history yet\n`;
+			}
+		}
+
+		if (sections.has("alerts")) {
+			message += "\n🔔 Alerts\n";
+			const total = database.countAlerts({ from: periodStart });
+			const suppressed = database.countAlerts({
+				from: periodStart,
+				status: "suppressed",
+			});
+			message += `${total} alert${total === 1 ? "" : "s"} fired`;
+			if (total > 0) {
+				const byType = (["holdings", "price", "iq_price"] as const)
+					.map((type) => ({
+						type,
+						count: database.countAlerts({ from: periodStart, type }),
+					}))
+					.filter((entry) => entry.count > 0)
+					.map((entry) => `${entry.count} ${entry.type.replace("_", " ")}`);
+				message += ` (${byType.join(", ")})`;
+			}
+			message += "\n";
+			if (suppressed > 0) {
+				message += `🔕 ${suppressed} suppressed\n`;
+			}
+		}
+
+		return message.trimEnd();
+	}
+
+	private schedule(): void {
+		this.unschedule();
+		if (!this.config.enabled) return;
+
+		this.task = cron.schedule(
+			this.getCronExpression(),
+			async () => {
+				try {
+					await this.sendNow();
+				} catch (error) {
+					console.error("❌ Error sending digest:", error);
+				}
+			},
+			{ timezone: this.config.timezone, name: "digest", noOverlap: true },
+		);
+		console.log(
+			`📰 Digest scheduled (${this.getCronExpression()} ${this.config.timezone})`,
+		);
+	}
+
+	private unschedule(): void {
+		if (this.task) {
+			this.task.destroy();
+			this.task = null;
+		}
+	}
+
+	private formatValueChange(
+		currentValue: number,
+		from: number,
+		periodMs: number,
+	): string {
+		// Compare with the last value recorded at or before the start of the period
+		const start = this.holdingsWatcher
+			.getValueHistory(from - periodMs)
+			.filter((point) => point.timestamp <= from)
+			.pop();
+		if (!start || start.value <= 0) return "not enough history";
+
+		const change = currentValue - start.value;
+		const sign = change >= 0 ? "+" : "";
+		return `${sign}${agentsApi.formatCurrency(change)} (${this.formatPercentage((change / start.value) * 100)})`;
+	}
+
+	// Start prices come from the last snapshot at or before the period start, or the first one
+	// after it for tokens bought during the period, falling back to price history
+	private getHoldingMoves(
+		holdings: Holding[],
+		from: number,
+		periodMs: number,
+	): TokenMove[] {
+		const startPrices = new Map<string, number>();
+		for (const snapshot of database.getPortfolioSnapshots(from - periodMs)) {
+			for (const holding of snapshot.holdings) {
+				if (holding.currentPriceInUsd <= 0) continue;
+				if (
+					snapshot.timestamp <= from ||
+					!startPrices.has(holding.tokenContract)
+				) {
+					startPrices.set(holding.tokenContract, holding.currentPriceInUsd);
+				}
+			}
+		}
+
+		const moves: TokenMove[] = [];
+		for (const holding of holdings) {
+			if (holding.currentPriceInUsd <= 0) continue;
+
+			const startPrice =
+				startPrices.get(holding.tokenContract) ??
+				database.getPriceAtOrBefore(holding.tokenContract, from)?.price;
+			if (!startPrice) continue;
+
+			moves.push({
+				name: holding.name,
+				startPrice,
+				currentPrice: holding.currentPriceInUsd,
+				changePercentage:
+					((holding.currentPriceInUsd - startPrice) / startPrice) * 100,
+			});
+		}
+
+		return moves.sort((a, b) => b.changePercentage - a.changePercentage);
+	}
+
+	private getPriceMove(
+		tokenContract: string,
+		name: string,
+		from: number,
+	): TokenMove | null {
+		const latest = database.getLatestPrice(tokenContract);
+		const start = database.getPriceAtOrBefore(tokenContract, from);
+		if (!latest || !start || start.price <= 0) return null;
+
+		return {
+			name,
+			startPrice: start.price,
+			currentPrice: latest.price,
+			changePercentage: ((latest.price - start.price) / start.price) * 100,
+		};
+	}
+
+	private formatPercentage(percentage: number): string {
+		return `${percentage >= 0 ? "+" : ""}${percentage.toFixed(2)}%`;
+	}
+
+	updateConfig(newConfig: Partial<DigestConfig>): void {
+		this.config = { ...this.config, ...newConfig };
+
+		// Save preferences to database
+		if (newConfig.enabled !== undefined) {
+			database.setPreference("digest_enabled", String(newConfig.enabled));
+		}
+		if (newConfig.frequency !== undefined) {
+			database.setPreference("digest_frequency", newConfig.frequency);
+		}
+		if (newConfig.time !== undefined) {
+			database.setPreference("digest_time", newConfig.time);
+		}
+		if (newConfig.timezone !== undefined) {
+			database.setPreference("digest_timezone", newConfig.timezone);
+		}
+		if (newConfig.weekday !== undefined) {
+			database.setPreference("digest_weekday", newConfig.weekday.toString());
+		}
+		if (newConfig.sections !== undefined) {
+			database.setPreference("digest_sections", newConfig.sections.join(","));
+		}
+
+		console.log("⚙️  Digest config updated:", this.config);
+
+		// Pick up the new schedule right away
+		if (this.isRunning) {
+			this.schedule();
+		}
+	}
+
+	getStatus(): {
+		config: DigestConfig;
+		isRunning: boolean;
+		isScheduled: boolean;
+		lastSentAt: number | null;
+	} {
+		return {
+			config: this.config,
+			isRunning: this.isRunning,
+			isScheduled: this.task !== null,
+			lastSentAt: this.lastSentAt,
+		};
+	}
+}
+
+export default DigestScheduler;
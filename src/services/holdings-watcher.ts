@@ -1,33 +1,111 @@
 import { EventEmitter } from "events";
 import { env } from "../env";
 import { agentsApi, type Holding, type HoldingsResponse } from "./agents";
-import { database } from "./database";
+import { alertTemplates } from "./alert-templates";
+import { allocation } from "./allocation";
+import { costBasis } from "./cost-basis";
+import { type AlertRecord, database, type Wallet } from "./database";
+import { type TrailingAlertHit, trailingAlerts } from "./trailing-alerts";
 
 export interface HoldingsAlert {
-	type: "threshold_reached" | "significant_change";
+	type:
+		| "threshold_reached"
+		| "significant_change"
+		| "drawdown"
+		| "rebound"
+		| "position_opened"
+		| "position_increased"
+		| "position_decreased"
+		| "position_closed"
+		| "concentration"
+		| "rebalance_drift";
 	message: string;
 	totalValue: number;
+	// Set for per-wallet threshold and change alerts
+	walletAddress?: string;
+	walletLabel?: string;
+	unrealizedPnl?: number; // Over holdings with a known cost basis
+	unrealizedPnlPercentage?: number;
+	// Set for significant changes: the part of the value change caused by prices vs by trades
+	priceDrivenChange?: number;
+	quantityDrivenChange?: number;
+	// Set for position alerts
+	amount?: number;
+	amountChange?: number;
+	// Set for concentration and drift alerts: the position's share of the portfolio in percent
+	weight?: number;
+	previousWeight?: number;
+	priceDriven?: boolean;
+	// Set for drift alerts
+	targetWeight?: number;
+	drift?: number; // Percentage points away from the target
+	category?: string; // Set instead of the token for category targets
+	// Set for per-token trailing, position and concentration alerts
+	tokenContract?: string;
+	tokenName?: string;
+	currentPrice?: number;
+	threshold?: number;
 	previousValue?: number;
 	change?: number;
 	changePercentage?: number;
 	holdings: Holding[];
+	alertId?: number; // Row id in the alerts table
 	timestamp: Date;
 }
 
+export interface WalletHoldings {
+	wallet: Wallet;
+	value: number;
+	holdings: Holding[];
+}
+
+interface WalletState {
+	lastKnownValue: number;
+	thresholdReached: boolean;
+	holdings: Holding[] | null; // Snapshot from the previous check, null before the first one
+}
+
+interface PositionChange {
+	type:
+		| "position_opened"
+		| "position_increased"
+		| "position_decreased"
+		| "position_closed";
+	holding: Holding; // Last seen holding for closed positions
+	previousAmount: number;
+	currentAmount: number;
+	valueChange: number; // Estimated at the current price, or the last seen price for closed positions
+}
+
+interface HoldingsDiff {
+	positions: PositionChange[];
+	priceDrivenChange: number;
+	quantityDrivenChange: number;
+}
+
+// Older snapshots are thinned out so long histories stay small but still chart well
+const HOURLY_SNAPSHOTS_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+const DAILY_SNAPSHOTS_AFTER_MS = 90 * 24 * 60 * 60 * 1000;
+
 interface WatcherConfig {
-	address: string;
+	address: string; // Seed wallet from WALLET_ADDRESS; more are added with /wallet add
 	thresholdUsd: number;
 	checkInterval: number;
 	significantChangePercentage: number;
+	trailingAutoArmPercentage: number; // 0 = don't auto-arm trailing alerts for held tokens
+	concentrationLimit: number; // Max % of the portfolio in one agent, 0 = off
+	rebalanceDriftThreshold: number; // Percentage points a weight may drift from its target, 0 = off
 }
 
 export class HoldingsWatcher extends EventEmitter {
 	private config: WatcherConfig;
 	private isRunning: boolean = false;
 	private intervalId: NodeJS.Timeout | null = null;
-	private lastKnownValue: number = 0;
+	private walletStates: Map<string, WalletState> = new Map();
+	private mergedHoldings: Holding[] | null = null; // All wallets at the previous complete check
+	private mergedHoldingsAt: number = 0;
 	private lastCheckTime: Date = new Date();
-	private thresholdReached: boolean = false;
+	private lastPrunedAt: number = 0;
 
 	constructor(config: Partial<WatcherConfig> = {}) {
 		super();
@@ -36,6 +114,13 @@ export class HoldingsWatcher extends EventEmitter {
 		const dbThreshold = database.getPreference("holdings_threshold");
 		const dbCheckInterval = database.getPreference("holdings_check_interval");
 		const dbChangePercentage = database.getPreference("price_change_threshold");
+		const dbTrailingAutoArm = database.getPreference(
+			"trailing_auto_percentage",
+		);
+		const dbConcentrationLimit = database.getPreference("concentration_limit");
+		const dbDriftThreshold = database.getPreference(
+			"rebalance_drift_threshold",
+		);
 
 		this.config = {
 			address: config.address || env.WALLET_ADDRESS,
@@ -54,7 +139,18 @@ export class HoldingsWatcher extends EventEmitter {
 				(dbChangePercentage
 					? parseFloat(dbChangePercentage)
 					: env.DEFAULT_PRICE_CHANGE_THRESHOLD),
+			trailingAutoArmPercentage:
+				config.trailingAutoArmPercentage ??
+				(dbTrailingAutoArm ? parseFloat(dbTrailingAutoArm) : 0),
+			concentrationLimit:
+				config.concentrationLimit ??
+				(dbConcentrationLimit ? parseFloat(dbConcentrationLimit) : 40),
+			rebalanceDriftThreshold:
+				config.rebalanceDriftThreshold ??
+				(dbDriftThreshold ? parseFloat(dbDriftThreshold) : 5),
 		};
+
+		database.seedWallet(this.config.address, "Main");
 	}
 
 	async start(): Promise<void> {
@@ -63,13 +159,16 @@ export class HoldingsWatcher extends EventEmitter {
 			return;
 		}
 
-		console.log(`🚀 Starting holdings watcher for ${this.config.address}`);
+		console.log(
+			`🚀 Starting holdings watcher for ${database.getWallets().length} wallet(s)`,
+		);
 		console.log(
 			`📊 Threshold: ${agentsApi.formatCurrency(this.config.thresholdUsd)}`,
 		);
 		console.log(`⏰ Check interval: ${this.config.checkInterval}s`);
 
 		this.isRunning = true;
+		this.restoreState();
 		await this.checkHoldings();
 
 		this.intervalId = setInterval(async () => {
@@ -102,101 +201,616 @@ export class HoldingsWatcher extends EventEmitter {
 	}
 
 	private async checkHoldings(): Promise<void> {
-		try {
-			const holdingsData: HoldingsResponse = await agentsApi.getHoldings(
-				this.config.address,
-			);
-			const currentValue = agentsApi.calculateHoldingsValue(
-				holdingsData.holdings,
-			);
-			const now = new Date();
+		const wallets = database.getWallets();
+		const now = new Date();
+		const results: WalletHoldings[] = [];
 
-			console.log(
-				`📊 Current holdings value: ${agentsApi.formatCurrency(currentValue)}`,
-			);
-
-			if (this.lastKnownValue > 0) {
-				const change = currentValue - this.lastKnownValue;
-				const changePercentage = agentsApi.calculatePercentageChange(
-					this.lastKnownValue,
-					currentValue,
+		for (const wallet of wallets) {
+			try {
+				const holdingsData: HoldingsResponse = await agentsApi.getHoldings(
+					wallet.address,
 				);
+				results.push({
+					wallet,
+					value: agentsApi.calculateHoldingsValue(holdingsData.holdings),
+					holdings: holdingsData.holdings,
+				});
+			} catch (error) {
+				console.error(`Error checking holdings for ${wallet.label}:`, error);
+				this.emit("error", error);
+			}
+		}
 
-				// Only send alerts if there's actually a portfolio value change
-				if (
-					Math.abs(changePercentage) > 0 &&
-					Math.abs(changePercentage) >= this.config.significantChangePercentage
-				) {
-					const alert: HoldingsAlert = {
-						type: "significant_change",
-						message: this.createChangeMessage(
-							currentValue,
-							this.lastKnownValue,
-							change,
-							changePercentage,
-						),
-						totalValue: currentValue,
-						previousValue: this.lastKnownValue,
-						change,
-						changePercentage,
-						holdings: holdingsData.holdings,
-						timestamp: now,
-					};
-
-					// Store alert in database
-					database.addAlert({
-						type: "holdings",
-						message: alert.message,
-						timestamp: now.getTime(),
-						triggered: false,
-					});
-
-					this.emit("alert", alert);
-				}
+		// Balances are compared across all wallets, so moving tokens between them is not a buy
+		const complete = results.length === wallets.length;
+		const holdings = this.mergeHoldings(results);
+		if (complete) {
+			costBasis.recordHoldings(holdings, now.getTime());
+		}
+
+		for (const result of results) {
+			this.checkWallet(result, wallets.length > 1, now);
+		}
+
+		// Forget wallets that were removed since the last check
+		for (const address of this.walletStates.keys()) {
+			if (!wallets.some((wallet) => wallet.address === address)) {
+				this.walletStates.delete(address);
+			}
+		}
+
+		// Auto-arming removes alerts for tokens that are no longer held, so it needs every wallet
+		if (complete) {
+			const totalValue = agentsApi.calculateHoldingsValue(holdings);
+			const previous = this.mergedHoldings;
+			const previousAt = this.mergedHoldingsAt;
+			this.mergedHoldings = holdings;
+			this.mergedHoldingsAt = now.getTime();
+
+			this.checkTrailingAlerts(holdings, totalValue, now);
+			if (previous) {
+				this.checkConcentration(previous, holdings, totalValue, now);
+				await this.checkRebalanceDrift(
+					previous,
+					previousAt,
+					holdings,
+					totalValue,
+					now,
+				);
 			}
+		}
+
+		if (now.getTime() - this.lastPrunedAt > 60 * 60 * 1000) {
+			this.pruneSnapshots(now.getTime());
+		}
+
+		this.lastCheckTime = now;
+	}
 
-			if (currentValue >= this.config.thresholdUsd && !this.thresholdReached) {
-				this.thresholdReached = true;
+	private pruneSnapshots(now: number): void {
+		const hour = 60 * 60 * 1000;
+		const removed =
+			database.downsamplePortfolioSnapshots(
+				now - HOURLY_SNAPSHOTS_AFTER_MS,
+				hour,
+			) +
+			database.downsamplePortfolioSnapshots(
+				now - DAILY_SNAPSHOTS_AFTER_MS,
+				24 * hour,
+			);
+		if (removed > 0) {
+			console.log(`🧹 Downsampled ${removed} old portfolio snapshots`);
+		}
+		this.lastPrunedAt = now;
+	}
+
+	private checkWallet(
+		{ wallet, value: currentValue, holdings }: WalletHoldings,
+		showWallet: boolean,
+		now: Date,
+	): void {
+		const { thresholdUsd, significantChangePercentage } =
+			this.getWalletThresholds(wallet);
+		const state = this.walletStates.get(wallet.address) ?? {
+			lastKnownValue: 0,
+			thresholdReached: false,
+			holdings: null,
+		};
+		const pnl = costBasis.calculatePnl(holdings);
+		const hasPnl = pnl.totalCost > 0;
+		const walletFields = {
+			walletAddress: wallet.address,
+			walletLabel: wallet.label,
+			...(hasPnl
+				? {
+						unrealizedPnl: pnl.pnl,
+						unrealizedPnlPercentage: pnl.pnlPercentage,
+					}
+				: {}),
+		};
+		const walletLine = showWallet ? `👛 Wallet: ${wallet.label}\n` : "";
+		const pnlLine = hasPnl
+			? `💹 Unrealized P&L: ${costBasis.formatPnl(pnl.pnl, pnl.pnlPercentage)}\n`
+			: "";
+
+		console.log(
+			`📊 Current holdings value (${wallet.label}): ${agentsApi.formatCurrency(currentValue)}`,
+		);
+
+		const diff = state.holdings
+			? this.diffHoldings(state.holdings, holdings)
+			: null;
+		for (const position of diff?.positions ?? []) {
+			const alert = this.buildPositionAlert(
+				position,
+				currentValue,
+				holdings,
+				walletFields,
+				walletLine,
+				now,
+			);
+			alert.alertId = database.addAlert(this.toAlertRecord(alert));
+
+			this.emit("alert", alert);
+		}
+
+		if (state.lastKnownValue > 0) {
+			const change = currentValue - state.lastKnownValue;
+			const changePercentage = agentsApi.calculatePercentageChange(
+				state.lastKnownValue,
+				currentValue,
+			);
+			// Buys and sells are reported as position alerts, so only price moves count here
+			const priceDrivenChange = diff?.priceDrivenChange ?? change;
+			const quantityDrivenChange = diff?.quantityDrivenChange ?? 0;
+			const pricePercentage = (priceDrivenChange / state.lastKnownValue) * 100;
+
+			// Only send alerts if there's actually a portfolio value change
+			if (
+				Math.abs(pricePercentage) > 0 &&
+				Math.abs(pricePercentage) >= significantChangePercentage
+			) {
 				const alert: HoldingsAlert = {
-					type: "threshold_reached",
-					message: this.createThresholdMessage(
+					type: "significant_change",
+					message: this.createChangeMessage(
 						currentValue,
-						this.config.thresholdUsd,
+						state.lastKnownValue,
+						change,
+						changePercentage,
+						priceDrivenChange,
+						quantityDrivenChange,
+						walletLine,
+						pnlLine,
 					),
 					totalValue: currentValue,
-					holdings: holdingsData.holdings,
+					...walletFields,
+					previousValue: state.lastKnownValue,
+					change,
+					changePercentage,
+					priceDrivenChange,
+					quantityDrivenChange,
+					holdings,
 					timestamp: now,
 				};
 
 				// Store alert in database
-				database.addAlert({
-					type: "holdings",
-					message: alert.message,
-					timestamp: now.getTime(),
-					triggered: false,
-				});
+				alert.alertId = database.addAlert(this.toAlertRecord(alert));
 
 				this.emit("alert", alert);
-			} else if (
-				currentValue < this.config.thresholdUsd &&
-				this.thresholdReached
-			) {
-				this.thresholdReached = false;
 			}
+		}
+
+		if (currentValue >= thresholdUsd && !state.thresholdReached) {
+			state.thresholdReached = true;
+			const alert: HoldingsAlert = {
+				type: "threshold_reached",
+				message: this.createThresholdMessage(
+					currentValue,
+					thresholdUsd,
+					walletLine,
+					pnlLine,
+				),
+				totalValue: currentValue,
+				...walletFields,
+				threshold: thresholdUsd,
+				holdings,
+				timestamp: now,
+			};
+
+			// Store alert in database
+			alert.alertId = database.addAlert(this.toAlertRecord(alert));
+
+			this.emit("alert", alert);
+		} else if (currentValue < thresholdUsd && state.thresholdReached) {
+			state.thresholdReached = false;
+		}
+
+		state.lastKnownValue = currentValue;
+		state.holdings = holdings;
+		this.walletStates.set(wallet.address, state);
+
+		database.addPortfolioSnapshot({
+			walletAddress: wallet.address,
+			totalValue: currentValue,
+			thresholdReached: state.thresholdReached,
+			holdings,
+			timestamp: now.getTime(),
+		});
+	}
+
+	// Resume from the latest snapshots so the first check after a restart compares against them
+	private restoreState(): void {
+		const wallets = database.getWallets();
+		let restoredAt = 0;
+		for (const wallet of wallets) {
+			if (this.walletStates.has(wallet.address)) continue;
+
+			const snapshot = database.getLatestPortfolioSnapshot(wallet.address);
+			if (!snapshot) continue;
+
+			restoredAt = restoredAt
+				? Math.min(restoredAt, snapshot.timestamp)
+				: snapshot.timestamp;
+			this.walletStates.set(wallet.address, {
+				lastKnownValue: snapshot.totalValue,
+				thresholdReached: snapshot.thresholdReached,
+				holdings: snapshot.holdings,
+			});
+			console.log(
+				`♻️ Restored ${wallet.label} from snapshot: ${agentsApi.formatCurrency(snapshot.totalValue)}`,
+			);
+		}
+
+		// Concentration is measured across all wallets, so every wallet needs a snapshot
+		const restored: WalletHoldings[] = [];
+		for (const wallet of wallets) {
+			const state = this.walletStates.get(wallet.address);
+			if (!state?.holdings) return;
+			restored.push({
+				wallet,
+				value: state.lastKnownValue,
+				holdings: state.holdings,
+			});
+		}
+		if (!this.mergedHoldings) {
+			this.mergedHoldings = this.mergeHoldings(restored);
+			this.mergedHoldingsAt = restoredAt;
+		}
+	}
+
+	// Total value over time; wallets missing from a check keep their last known value
+	getValueHistory(
+		from: number,
+		walletAddress?: string,
+	): Array<{ timestamp: number; value: number }> {
+		const active = new Set(
+			database.getWallets().map((wallet) => wallet.address),
+		);
+		const latestByWallet = new Map<string, number>();
+		const history: Array<{ timestamp: number; value: number }> = [];
+
+		for (const snapshot of database.getPortfolioSnapshots(
+			from,
+			walletAddress,
+		)) {
+			if (!active.has(snapshot.walletAddress)) continue;
+			latestByWallet.set(snapshot.walletAddress, snapshot.totalValue);
+
+			let value = 0;
+			for (const walletValue of latestByWallet.values()) value += walletValue;
+
+			// All wallets of one check share a timestamp; keep only the full sum
+			const last = history[history.length - 1];
+			if (last && last.timestamp === snapshot.timestamp) {
+				last.value = value;
+			} else {
+				history.push({ timestamp: snapshot.timestamp, value });
+			}
+		}
+
+		return history;
+	}
+
+	// Compares token amounts with the previous snapshot of the same wallet
+	private diffHoldings(previous: Holding[], current: Holding[]): HoldingsDiff {
+		const diff: HoldingsDiff = {
+			positions: [],
+			priceDrivenChange: 0,
+			quantityDrivenChange: 0,
+		};
+		const previousByToken = new Map(
+			previous.map((holding) => [holding.tokenContract, holding]),
+		);
+
+		for (const holding of current) {
+			const before = previousByToken.get(holding.tokenContract);
+			previousByToken.delete(holding.tokenContract);
+
+			const previousAmount = before ? parseFloat(before.tokenAmount) : 0;
+			const currentAmount = parseFloat(holding.tokenAmount);
+			const valueChange =
+				(currentAmount - previousAmount) * holding.currentPriceInUsd;
+
+			if (before) {
+				diff.priceDrivenChange +=
+					previousAmount *
+					(holding.currentPriceInUsd - before.currentPriceInUsd);
+			}
+			diff.quantityDrivenChange += valueChange;
+
+			if (currentAmount === previousAmount) continue;
+			diff.positions.push({
+				type: !before
+					? "position_opened"
+					: currentAmount > previousAmount
+						? "position_increased"
+						: "position_decreased",
+				holding,
+				previousAmount,
+				currentAmount,
+				valueChange,
+			});
+		}
 
-			this.lastKnownValue = currentValue;
-			this.lastCheckTime = now;
-		} catch (error) {
-			console.error("Error checking holdings:", error);
-			this.emit("error", error);
+		// Whatever is left was sold or moved out entirely
+		for (const holding of previousByToken.values()) {
+			const previousAmount = parseFloat(holding.tokenAmount);
+			const valueChange = -previousAmount * holding.currentPriceInUsd;
+
+			diff.quantityDrivenChange += valueChange;
+			diff.positions.push({
+				type: "position_closed",
+				holding,
+				previousAmount,
+				currentAmount: 0,
+				valueChange,
+			});
 		}
+
+		return diff;
+	}
+
+	private buildPositionAlert(
+		position: PositionChange,
+		totalValue: number,
+		holdings: Holding[],
+		walletFields: Pick<HoldingsAlert, "walletAddress" | "walletLabel">,
+		walletLine: string,
+		now: Date,
+	): HoldingsAlert {
+		return {
+			type: position.type,
+			message: this.createPositionMessage(position, walletLine),
+			totalValue,
+			...walletFields,
+			tokenContract: position.holding.tokenContract,
+			tokenName: position.holding.name,
+			currentPrice: position.holding.currentPriceInUsd,
+			amount: position.currentAmount,
+			amountChange: position.currentAmount - position.previousAmount,
+			change: position.valueChange,
+			holdings,
+			timestamp: now,
+		};
+	}
+
+	// Per-wallet overrides fall back to the global holdings thresholds
+	getWalletThresholds(wallet: Wallet): {
+		thresholdUsd: number;
+		significantChangePercentage: number;
+	} {
+		return {
+			thresholdUsd: wallet.thresholdUsd ?? this.config.thresholdUsd,
+			significantChangePercentage:
+				wallet.significantChangePercentage ??
+				this.config.significantChangePercentage,
+		};
+	}
+
+	// One entry per token across all wallets, with the amounts added up
+	mergeHoldings(results: WalletHoldings[]): Holding[] {
+		const merged = new Map<string, Holding>();
+
+		for (const { holdings } of results) {
+			for (const holding of holdings) {
+				const existing = merged.get(holding.tokenContract);
+				merged.set(
+					holding.tokenContract,
+					existing
+						? {
+								...existing,
+								tokenAmount: (
+									parseFloat(existing.tokenAmount) +
+									parseFloat(holding.tokenAmount)
+								).toString(),
+							}
+						: holding,
+				);
+			}
+		}
+
+		return Array.from(merged.values());
+	}
+
+	// Trailing alerts for held tokens; watched tokens are evaluated by the price watcher with full history
+	private checkTrailingAlerts(
+		holdings: Holding[],
+		totalValue: number,
+		now: Date,
+	): void {
+		if (this.config.trailingAutoArmPercentage > 0) {
+			trailingAlerts.autoArm(holdings, this.config.trailingAutoArmPercentage);
+		}
+
+		for (const holding of holdings) {
+			if (database.getWatchedToken(holding.tokenContract)) continue;
+
+			for (const hit of trailingAlerts.evaluate(
+				holding.tokenContract,
+				holding.currentPriceInUsd,
+				now.getTime(),
+			)) {
+				const alert = this.buildTrailingAlert(hit, totalValue, holdings, now);
+				alert.alertId = database.addAlert(this.toAlertRecord(alert));
+
+				this.emit("alert", alert);
+			}
+		}
+	}
+
+	private buildTrailingAlert(
+		hit: TrailingAlertHit,
+		totalValue: number,
+		holdings: Holding[],
+		now: Date,
+	): HoldingsAlert {
+		return {
+			type: hit.alert.kind,
+			message: trailingAlerts.createAlertMessage(hit),
+			totalValue,
+			tokenContract: hit.alert.tokenContract,
+			tokenName: hit.alert.tokenName,
+			currentPrice: hit.currentPrice,
+			previousValue: hit.extremePrice,
+			change: hit.currentPrice - hit.extremePrice,
+			changePercentage: agentsApi.calculatePercentageChange(
+				hit.extremePrice,
+				hit.currentPrice,
+			),
+			threshold: hit.alert.percentage,
+			holdings,
+			timestamp: now,
+		};
+	}
+
+	// Alerts when a position moves past the concentration limit, whether through price moves or trades
+	private checkConcentration(
+		previous: Holding[],
+		holdings: Holding[],
+		totalValue: number,
+		now: Date,
+	): void {
+		const limit = this.config.concentrationLimit;
+		if (limit <= 0) return;
+
+		const weights = allocation.getWeights(holdings);
+		const previousWeights = allocation.getWeights(previous);
+		// Previous amounts at today's prices tell whether prices alone crossed the limit
+		const prices = new Map(
+			holdings.map((holding) => [
+				holding.tokenContract,
+				holding.currentPriceInUsd,
+			]),
+		);
+		const repricedWeights = allocation.getWeights(
+			previous.map((holding) => ({
+				...holding,
+				currentPriceInUsd:
+					prices.get(holding.tokenContract) ?? holding.currentPriceInUsd,
+			})),
+		);
+
+		for (const holding of holdings) {
+			const weight = weights.get(holding.tokenContract);
+			const previousWeight = previousWeights.get(holding.tokenContract) ?? 0;
+			if (weight === undefined || weight <= limit || previousWeight > limit) {
+				continue;
+			}
+
+			const priceDriven =
+				(repricedWeights.get(holding.tokenContract) ?? 0) > limit;
+			const alert: HoldingsAlert = {
+				type: "concentration",
+				message: this.createConcentrationMessage(
+					holding,
+					weight,
+					previousWeight,
+					limit,
+					totalValue,
+					priceDriven,
+				),
+				totalValue,
+				weight,
+				previousWeight,
+				priceDriven,
+				tokenContract: holding.tokenContract,
+				tokenName: holding.name,
+				currentPrice: holding.currentPriceInUsd,
+				threshold: limit,
+				holdings,
+				timestamp: now,
+			};
+			alert.alertId = database.addAlert(this.toAlertRecord(alert));
+
+			this.emit("alert", alert);
+		}
+	}
+
+	// Alerts when a token or category weight moves further than the drift threshold from its target
+	private async checkRebalanceDrift(
+		previous: Holding[],
+		previousAt: number,
+		holdings: Holding[],
+		totalValue: number,
+		now: Date,
+	): Promise<void> {
+		const threshold = this.config.rebalanceDriftThreshold;
+		const targets = allocation.getTargets();
+		if (threshold <= 0 || targets.length === 0) return;
+
+		const drifts = await allocation.calculateDrifts(holdings, targets);
+		const previousDrifts = await allocation.calculateDrifts(previous, targets);
+
+		drifts.forEach(({ target, currentWeight, drift }, index) => {
+			// Targets set since the previous check count as in band, so a portfolio that is already off alerts
+			const previousDrift =
+				target.updatedAt > previousAt ? 0 : (previousDrifts[index]?.drift ?? 0);
+			if (Math.abs(drift) <= threshold || Math.abs(previousDrift) > threshold) {
+				return;
+			}
+
+			const alert: HoldingsAlert = {
+				type: "rebalance_drift",
+				message: this.createDriftMessage(
+					target.name,
+					currentWeight,
+					target.weight,
+					drift,
+					threshold,
+				),
+				totalValue,
+				weight: currentWeight,
+				targetWeight: target.weight,
+				drift,
+				...(target.kind === "token"
+					? { tokenContract: target.target, tokenName: target.name }
+					: { category: target.name }),
+				threshold,
+				holdings,
+				timestamp: now,
+			};
+			alert.alertId = database.addAlert(this.toAlertRecord(alert));
+
+			this.emit("alert", alert);
+		});
+	}
+
+	private toAlertRecord(alert: HoldingsAlert): Omit<AlertRecord, "id"> {
+		const { message, ...payload } = alert;
+
+		return {
+			type: "holdings",
+			...(alert.tokenContract ? { tokenContract: alert.tokenContract } : {}),
+			...(alert.tokenName ? { tokenName: alert.tokenName } : {}),
+			tier: alert.type,
+			...(alert.threshold !== undefined ? { threshold: alert.threshold } : {}),
+			currentPrice: alert.currentPrice ?? alert.totalValue,
+			...(alert.previousValue !== undefined
+				? { previousPrice: alert.previousValue }
+				: {}),
+			...(alert.change !== undefined ? { change: alert.change } : {}),
+			...(alert.changePercentage !== undefined
+				? { changePercentage: alert.changePercentage }
+				: {}),
+			payload: JSON.stringify(payload),
+			message,
+			timestamp: alert.timestamp.getTime(),
+			triggered: false,
+		};
 	}
 
 	private createThresholdMessage(
 		currentValue: number,
 		threshold: number,
+		walletLine: string,
+		pnlLine: string,
 	): string {
-		return `🎯 Holdings threshold reached!\n\n💰 Current value: ${agentsApi.formatCurrency(currentValue)}\n🎯 Threshold: ${agentsApi.formatCurrency(threshold)}\n\nConsider reviewing your positions!`;
+		return alertTemplates.render("holdings_threshold", {
+			walletLine,
+			currentValue: agentsApi.formatCurrency(currentValue),
+			threshold: agentsApi.formatCurrency(threshold),
+			pnlLine,
+		});
 	}
 
 	private createChangeMessage(
@@ -204,26 +818,108 @@ export class HoldingsWatcher extends EventEmitter {
 		previousValue: number,
 		change: number,
 		changePercentage: number,
+		priceDrivenChange: number,
+		quantityDrivenChange: number,
+		walletLine: string,
+		pnlLine: string,
 	): string {
-		const direction = change > 0 ? "📈" : "📉";
 		const changeStr = change > 0 ? "+" : "";
+		const sign = (value: number) => (value > 0 ? "+" : "");
+		const splitLine =
+			quantityDrivenChange !== 0
+				? `💱 From prices: ${sign(priceDrivenChange)}${agentsApi.formatCurrency(priceDrivenChange)} · From trades: ${sign(quantityDrivenChange)}${agentsApi.formatCurrency(quantityDrivenChange)}\n`
+				: "";
+
+		return alertTemplates.render("holdings_change", {
+			direction: change > 0 ? "📈" : "📉",
+			walletLine,
+			currentValue: agentsApi.formatCurrency(currentValue),
+			previousValue: agentsApi.formatCurrency(previousValue),
+			change: `${changeStr}${agentsApi.formatCurrency(change)}`,
+			changePercentage: `${changePercentage.toFixed(2)}%`,
+			splitLine,
+			pnlLine,
+		});
+	}
+
+	private createConcentrationMessage(
+		holding: Holding,
+		weight: number,
+		previousWeight: number,
+		limit: number,
+		totalValue: number,
+		priceDriven: boolean,
+	): string {
+		const value = (weight / 100) * totalValue;
+		const cause = priceDriven
+			? "📈 Drifted past the limit on price moves"
+			: "🔀 Pushed past the limit by trades";
+
+		return `⚖️ Concentration alert: ${holding.name}!\n\n📊 Weight: ${weight.toFixed(2)}% of portfolio (was ${previousWeight.toFixed(2)}%)\n🚧 Limit: ${limit}%\n💰 Position value: ${agentsApi.formatCurrency(value)} of ${agentsApi.formatCurrency(totalValue)}\n${cause}\n\nConsider rebalancing your portfolio!`;
+	}
+
+	private createDriftMessage(
+		name: string,
+		weight: number,
+		targetWeight: number,
+		drift: number,
+		threshold: number,
+	): string {
+		const direction = drift > 0 ? "overweight" : "underweight";
+
+		return `🎯 Allocation drift: ${name} is ${direction}!\n\n📊 Weight: ${weight.toFixed(2)}% (target ${targetWeight}%)\n↔️ Drift: ${drift > 0 ? "+" : ""}${drift.toFixed(2)} points\n🚧 Drift limit: ${threshold} points\n\nUse /rebalance to see the trades that bring it back to target.`;
+	}
 
-		return `${direction} Significant portfolio change detected!\n\n💰 Current value: ${agentsApi.formatCurrency(currentValue)}\n📊 Previous value: ${agentsApi.formatCurrency(previousValue)}\n🔄 Change: ${changeStr}${agentsApi.formatCurrency(change)} (${changePercentage.toFixed(2)}%)\n\nTime to review your positions!`;
+	private createPositionMessage(
+		position: PositionChange,
+		walletLine: string,
+	): string {
+		const { holding, previousAmount, currentAmount, valueChange } = position;
+		const amountChange = currentAmount - previousAmount;
+		const amountStr = `${amountChange > 0 ? "+" : "-"}${agentsApi.formatTokenAmount(Math.abs(amountChange).toString())}`;
+		const valueStr = `${valueChange > 0 ? "+" : ""}${agentsApi.formatCurrency(valueChange)}`;
+		const price = agentsApi.formatCurrency(holding.currentPriceInUsd);
+
+		switch (position.type) {
+			case "position_opened":
+				return `🆕 New position: ${holding.name}!\n\n${walletLine}📊 Amount: ${agentsApi.formatTokenAmount(holding.tokenAmount)}\n💰 Price: ${price}\n💵 Estimated value: ${agentsApi.formatCurrency(valueChange)}`;
+			case "position_closed":
+				return `🚪 ${holding.name} position closed!\n\n${walletLine}📊 Amount: ${amountStr}\n💰 Last seen price: ${price}\n💵 Estimated value: ${valueStr}`;
+			default:
+				return `${position.type === "position_increased" ? "📥" : "📤"} ${holding.name} position ${position.type === "position_increased" ? "increased" : "decreased"}!\n\n${walletLine}📊 Amount: ${agentsApi.formatTokenAmount(previousAmount.toString())} → ${agentsApi.formatTokenAmount(currentAmount.toString())} (${amountStr})\n💰 Price: ${price}\n💵 Estimated value: ${valueStr}`;
+		}
 	}
 
 	getStatus(): {
 		isRunning: boolean;
 		config: WatcherConfig;
-		lastKnownValue: number;
+		lastKnownValue: number; // Sum over all wallets
 		lastCheckTime: Date;
-		thresholdReached: boolean;
+		thresholdReached: boolean; // True if any wallet is above its threshold
+		wallets: Array<{
+			address: string;
+			lastKnownValue: number;
+			thresholdReached: boolean;
+		}>;
 	} {
+		const wallets = Array.from(this.walletStates.entries()).map(
+			([address, state]) => ({
+				address,
+				lastKnownValue: state.lastKnownValue,
+				thresholdReached: state.thresholdReached,
+			}),
+		);
+
 		return {
 			isRunning: this.isRunning,
 			config: this.config,
-			lastKnownValue: this.lastKnownValue,
+			lastKnownValue: wallets.reduce(
+				(total, wallet) => total + wallet.lastKnownValue,
+				0,
+			),
 			lastCheckTime: this.lastCheckTime,
-			thresholdReached: this.thresholdReached,
+			thresholdReached: wallets.some((wallet) => wallet.thresholdReached),
+			wallets,
 		};
 	}
 
@@ -249,14 +945,56 @@ export class HoldingsWatcher extends EventEmitter {
 				newConfig.significantChangePercentage.toString(),
 			);
 		}
+		if (newConfig.concentrationLimit !== undefined) {
+			database.setPreference(
+				"concentration_limit",
+				newConfig.concentrationLimit.toString(),
+			);
+		}
+		if (newConfig.rebalanceDriftThreshold !== undefined) {
+			database.setPreference(
+				"rebalance_drift_threshold",
+				newConfig.rebalanceDriftThreshold.toString(),
+			);
+		}
+		if (newConfig.trailingAutoArmPercentage !== undefined) {
+			database.setPreference(
+				"trailing_auto_percentage",
+				newConfig.trailingAutoArmPercentage.toString(),
+			);
+
+			// Re-arm on the next check with the new percentage, or stop auto-arming
+			trailingAlerts.disableAutoArm();
+		}
 
 		console.log("⚙️  Holdings watcher config updated:", this.config);
 	}
 
+	// Holdings across all wallets, merged per token
 	async getCurrentHoldings(): Promise<{ value: number; holdings: Holding[] }> {
-		const holdingsData = await agentsApi.getHoldings(this.config.address);
-		const value = agentsApi.calculateHoldingsValue(holdingsData.holdings);
-		return { value, holdings: holdingsData.holdings };
+		const holdings = this.mergeHoldings(await this.getWalletHoldings());
+		const value = agentsApi.calculateHoldingsValue(holdings);
+		return { value, holdings };
+	}
+
+	async getWalletHoldings(): Promise<WalletHoldings[]> {
+		return Promise.all(
+			database.getWallets().map(async (wallet) => {
+				const holdingsData = await agentsApi.getHoldings(wallet.address);
+				return {
+					wallet,
+					value: agentsApi.calculateHoldingsValue(holdingsData.holdings),
+					holdings: holdingsData.holdings,
+				};
+			}),
+		);
+	}
+
+	// Start comparing a re-added wallet from scratch
+	resetWallet(address: string): void {
+		this.walletStates.delete(address);
+		// Adding or removing a wallet reshapes the portfolio, which is not a concentration drift
+		this.mergedHoldings = null;
 	}
 }
 
@@ -1,9 +1,18 @@
 import { EventEmitter } from "node:events";
 import { agentsApi } from "./agents";
-import { database } from "./database";
+import { alertTemplates } from "./alert-templates";
+import { type AlertRecord, database } from "./database";
+import { priceTargets } from "./price-targets";
+
+export const IQ_TOKEN_CONTRACT = "IQ_TOKEN";
+export const IQ_TOKEN_NAME = "IQ (Everipedia)";
 
 export interface IQPriceAlert {
-	type: "iq_price_increase" | "iq_price_decrease" | "iq_significant_change";
+	type:
+		| "iq_price_increase"
+		| "iq_price_decrease"
+		| "iq_significant_change"
+		| "iq_price_target";
 	severity: "low" | "medium" | "high" | "critical";
 	message: string;
 	currentPrice: number;
@@ -11,6 +20,8 @@ export interface IQPriceAlert {
 	change: number;
 	changePercentage: number;
 	threshold: number;
+	targetPrice?: number; // Set for absolute price target alerts
+	alertId?: number; // Row id in the alerts table
 	timestamp: Date;
 }
 
@@ -110,9 +121,38 @@ export class IQPriceWatcher extends EventEmitter {
 			const previousPrice = this.lastKnownPrice;
 			const now = new Date();
 
-			console.log(
-				`🪙 IQ Token Price: ${agentsApi.formatCurrency(currentPrice)}`,
-			);
+			console.log(`🪙 IQ Token Price: ${agentsApi.formatUsd(currentPrice)}`);
+
+			for (const target of priceTargets.evaluate(
+				IQ_TOKEN_CONTRACT,
+				currentPrice,
+			)) {
+				const alert: IQPriceAlert = {
+					type: "iq_price_target",
+					severity: "high",
+					// The IQ price is always shown in USD, whatever the display currency
+					message: priceTargets.createTargetMessage(
+						target,
+						currentPrice,
+						previousPrice,
+						(price) => agentsApi.formatUsd(price),
+					),
+					currentPrice,
+					previousPrice,
+					change: previousPrice > 0 ? currentPrice - previousPrice : 0,
+					changePercentage: agentsApi.calculatePercentageChange(
+						previousPrice,
+						currentPrice,
+					),
+					threshold: 0,
+					targetPrice: target.targetPrice,
+					timestamp: now,
+				};
+
+				alert.alertId = database.addAlert(this.toAlertRecord(alert));
+
+				this.emit("alert", alert);
+			}
 
 			if (previousPrice > 0) {
 				const change = currentPrice - previousPrice;
@@ -172,12 +212,7 @@ export class IQPriceWatcher extends EventEmitter {
 					};
 
 					// Store alert in database
-					database.addAlert({
-						type: "iq_price",
-						message: alert.message,
-						timestamp: now.getTime(),
-						triggered: false,
-					});
+					alert.alertId = database.addAlert(this.toAlertRecord(alert));
 
 					this.emit("alert", alert);
 				}
@@ -185,8 +220,8 @@ export class IQPriceWatcher extends EventEmitter {
 
 			// Store IQ price history in database
 			database.addPriceHistory({
-				tokenContract: "IQ_TOKEN",
-				tokenName: "IQ (Everipedia)",
+				tokenContract: IQ_TOKEN_CONTRACT,
+				tokenName: IQ_TOKEN_NAME,
 				price: currentPrice,
 				timestamp: Date.now(),
 			});
@@ -199,6 +234,27 @@ export class IQPriceWatcher extends EventEmitter {
 		}
 	}
 
+	private toAlertRecord(alert: IQPriceAlert): Omit<AlertRecord, "id"> {
+		const { message, ...payload } = alert;
+
+		return {
+			type: "iq_price",
+			tokenContract: IQ_TOKEN_CONTRACT,
+			tokenName: IQ_TOKEN_NAME,
+			tier: alert.type,
+			severity: alert.severity,
+			threshold: alert.threshold,
+			currentPrice: alert.currentPrice,
+			previousPrice: alert.previousPrice,
+			change: alert.change,
+			changePercentage: alert.changePercentage,
+			payload: JSON.stringify(payload),
+			message,
+			timestamp: alert.timestamp.getTime(),
+			triggered: false,
+		};
+	}
+
 	private createIQPriceAlertMessage(
 		currentPrice: number,
 		previousPrice: number,
@@ -207,7 +263,6 @@ export class IQPriceWatcher extends EventEmitter {
 		threshold: number,
 		severity: IQPriceAlert["severity"],
 	): string {
-		const direction = change > 0 ? "📈" : "📉";
 		const changeStr = change > 0 ? "+" : "";
 		const severityEmoji = {
 			low: "🔵",
@@ -216,15 +271,21 @@ export class IQPriceWatcher extends EventEmitter {
 			critical: "🔴",
 		}[severity];
 
-		return (
-			`${severityEmoji} ${direction} IQ Token Price Alert!\n\n` +
-			`💰 Current price: ${agentsApi.formatCurrency(currentPrice)}\n` +
-			`📊 Previous price: ${agentsApi.formatCurrency(previousPrice)}\n` +
-			`🔄 Change: ${changeStr}${agentsApi.formatCurrency(change)} (${changePercentage.toFixed(2)}%)\n` +
-			`🚨 Threshold: ${threshold}%\n\n` +
-			`🪙 Since IQ is the base token, this may affect all agent prices!\n` +
-			`${change > 0 ? "🚀 All agents may see price increases!" : "📉 All agents may see price decreases!"}`
-		);
+		return alertTemplates.render("iq_price", {
+			severityEmoji,
+			direction: change > 0 ? "📈" : "📉",
+			tokenName: IQ_TOKEN_NAME,
+			currentPrice: agentsApi.formatUsd(currentPrice),
+			previousPrice: agentsApi.formatUsd(previousPrice),
+			change: `${changeStr}${agentsApi.formatUsd(change)}`,
+			changePercentage: `${changePercentage.toFixed(2)}%`,
+			threshold: `${threshold}%`,
+			severity,
+			outlook:
+				change > 0
+					? "🚀 All agents may see price increases!"
+					: "📉 All agents may see price decreases!",
+		});
 	}
 
 	updateConfig(newConfig: Partial<IQWatcherConfig>): void {
@@ -0,0 +1,191 @@
+import { parseDuration } from "../utils/duration";
+import { type AgentStats, agentsApi } from "./agents";
+import { database, type MetricAlert, type TokenMetric } from "./database";
+
+export interface MetricAlertHit {
+	alert: MetricAlert;
+	currentValue: number;
+	referenceValue: number | null; // Value at the start of the lookback for rise/drop/stall
+}
+
+const METRIC_ALIASES: Record<string, TokenMetric> = {
+	marketcap: "marketCap",
+	holderscount: "holdersCount",
+	inferencecount: "inferenceCount",
+	changein24h: "changeIn24h",
+	mcap: "marketCap",
+	holders: "holdersCount",
+	inferences: "inferenceCount",
+	change24h: "changeIn24h",
+};
+
+const METRIC_LABELS: Record<TokenMetric, { emoji: string; label: string }> = {
+	marketCap: { emoji: "📈", label: "Market cap" },
+	holdersCount: { emoji: "👥", label: "Holders" },
+	inferenceCount: { emoji: "🧠", label: "Inferences" },
+	changeIn24h: { emoji: "📊", label: "24h change" },
+};
+
+class MetricAlertsService {
+	// Accepts field names as well as the short names used by /top (mcap, holders, inferences)
+	parseMetric(input: string): TokenMetric | null {
+		return METRIC_ALIASES[input.toLowerCase()] ?? null;
+	}
+
+	addAlert(
+		tokenContract: string,
+		tokenName: string,
+		metric: TokenMetric,
+		condition: MetricAlert["condition"],
+		value: number,
+		lookback: string | null,
+		stats: AgentStats,
+	): MetricAlert {
+		const alert: Omit<MetricAlert, "id"> = {
+			tokenContract,
+			tokenName,
+			metric,
+			condition,
+			value,
+			lookback,
+			isArmed: true,
+			isActive: true,
+			lastTriggeredAt: null,
+			createdAt: Date.now(),
+		};
+
+		// A level that is already crossed waits for the metric to cross back first
+		alert.isArmed = !this.isMatching(alert, stats[metric], null);
+
+		const id = database.addMetricAlert(alert);
+		console.log(
+			`📊 Added ${this.describeCondition(alert)} alert for ${tokenName}`,
+		);
+		return { id, ...alert };
+	}
+
+	getAlerts(tokenContract?: string): MetricAlert[] {
+		return database.getMetricAlerts(tokenContract);
+	}
+
+	removeAlert(id: number): boolean {
+		return database.removeMetricAlert(id);
+	}
+
+	// Returns the alerts whose condition started holding on this poll
+	evaluate(
+		tokenContract: string,
+		stats: AgentStats,
+		now: number,
+	): MetricAlertHit[] {
+		const hits: MetricAlertHit[] = [];
+
+		for (const alert of database.getMetricAlerts(tokenContract)) {
+			const currentValue = stats[alert.metric];
+			const referenceValue = this.getReferenceValue(alert, now);
+			const matching = this.isMatching(alert, currentValue, referenceValue);
+
+			if (matching && alert.isArmed) {
+				database.updateMetricAlert(alert.id!, {
+					isArmed: false,
+					lastTriggeredAt: now,
+				});
+				hits.push({
+					alert: { ...alert, isArmed: false, lastTriggeredAt: now },
+					currentValue,
+					referenceValue,
+				});
+			} else if (!matching && !alert.isArmed) {
+				database.updateMetricAlert(alert.id!, { isArmed: true });
+			}
+		}
+
+		return hits;
+	}
+
+	createAlertMessage(hit: MetricAlertHit): string {
+		const { alert, currentValue, referenceValue } = hit;
+		const { emoji, label } = METRIC_LABELS[alert.metric];
+		let message = `${emoji} ${alert.tokenName} ${label.toLowerCase()} alert!\n\n`;
+
+		message += `${emoji} ${label}: ${this.formatValue(alert.metric, currentValue)}\n`;
+		if (referenceValue !== null) {
+			const change = currentValue - referenceValue;
+			message += `🔄 Change over ${alert.lookback}: ${change >= 0 ? "+" : ""}${this.formatValue(alert.metric, change)}\n`;
+		}
+		message += `🎯 Condition: ${this.describeCondition(alert)}\n\n`;
+
+		message +=
+			alert.condition === "stall"
+				? `⚠️ No movement for ${alert.lookback}`
+				: "🔁 Alert re-arms once the condition clears";
+		return message;
+	}
+
+	describeCondition(
+		alert: Pick<MetricAlert, "metric" | "condition" | "value" | "lookback">,
+	): string {
+		const label = METRIC_LABELS[alert.metric].label.toLowerCase();
+		const value = this.formatValue(alert.metric, alert.value);
+
+		switch (alert.condition) {
+			case "above":
+			case "below":
+				return `${label} ${alert.condition} ${value}`;
+			case "rise":
+				return `${label} up ${value} in ${alert.lookback}`;
+			case "drop":
+				return `${label} down ${value} in ${alert.lookback}`;
+			case "stall":
+				return `${label} unchanged for ${alert.lookback}`;
+		}
+	}
+
+	formatValue(metric: TokenMetric, value: number): string {
+		if (metric === "marketCap") return agentsApi.formatCurrency(value);
+		if (metric === "changeIn24h") return `${value.toFixed(2)}%`;
+		return Math.round(value).toLocaleString("en-US");
+	}
+
+	private getReferenceValue(alert: MetricAlert, now: number): number | null {
+		if (!alert.lookback) return null;
+
+		const lookbackMs = parseDuration(alert.lookback);
+		if (lookbackMs === null) return null;
+
+		// Rows recorded before metrics were stored have no value and are treated as missing history
+		const reference = database.getPriceAtOrBefore(
+			alert.tokenContract,
+			now - lookbackMs,
+		);
+		return reference?.[alert.metric] ?? null;
+	}
+
+	private isMatching(
+		alert: Pick<MetricAlert, "condition" | "value">,
+		currentValue: number,
+		referenceValue: number | null,
+	): boolean {
+		switch (alert.condition) {
+			case "above":
+				return currentValue >= alert.value;
+			case "below":
+				return currentValue <= alert.value;
+			case "rise":
+				return (
+					referenceValue !== null &&
+					currentValue - referenceValue >= alert.value
+				);
+			case "drop":
+				return (
+					referenceValue !== null &&
+					referenceValue - currentValue >= alert.value
+				);
+			case "stall":
+				return referenceValue !== null && currentValue === referenceValue;
+		}
+	}
+}
+
+export const metricAlerts = new MetricAlertsService();
+export default metricAlerts;
@@ -0,0 +1,265 @@
+import { EventEmitter } from "node:events";
+import { formatDuration } from "../utils/duration";
+import { database } from "./database";
+import { NOTIFICATION_SEVERITIES, type NotificationSeverity } from "./notifier";
+
+interface QuietHoursConfig {
+	enabled: boolean;
+	start: string; // HH:MM
+	end: string; // HH:MM
+	timezone: string;
+}
+
+interface QueuedNotification {
+	message: string;
+	timestamp: number;
+	severity?: NotificationSeverity; // Missing for notifications queued before severities were kept
+}
+
+export interface Snooze {
+	target: string; // Token contract, IQ token id or "all"
+	until: number;
+}
+
+const SNOOZE_PREFIX = "snooze_";
+const QUEUE_KEY = "quiet_hours_queue";
+const SUMMARY_LIMIT = 20;
+
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export function isValidClockTime(value: string): boolean {
+	return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+export class NotificationScheduler extends EventEmitter {
+	private config: QuietHoursConfig;
+	private isRunning: boolean = false;
+	private intervalId: NodeJS.Timeout | null = null;
+
+	constructor() {
+		super();
+
+		// Load preferences from database
+		const dbEnabled = database.getPreference("quiet_hours_enabled");
+		const dbStart = database.getPreference("quiet_hours_start");
+		const dbEnd = database.getPreference("quiet_hours_end");
+		const dbTimezone = database.getPreference("quiet_hours_timezone");
+
+		this.config = {
+			enabled: dbEnabled === "true",
+			start: dbStart || "23:00",
+			end: dbEnd || "07:00",
+			timezone: dbTimezone || "UTC",
+		};
+	}
+
+	start(): void {
+		if (this.isRunning) return;
+
+		this.isRunning = true;
+		this.flushIfQuietHoursEnded();
+
+		// Quiet hours end on a minute boundary, so a minutely check is enough
+		this.intervalId = setInterval(() => {
+			this.flushIfQuietHoursEnded();
+		}, 60 * 1000);
+	}
+
+	stop(): void {
+		if (!this.isRunning) return;
+
+		this.isRunning = false;
+		if (this.intervalId) {
+			clearInterval(this.intervalId);
+			this.intervalId = null;
+		}
+	}
+
+	isQuietTime(now: Date = new Date()): boolean {
+		if (!this.config.enabled) return false;
+
+		const parts = new Intl.DateTimeFormat("en-US", {
+			timeZone: this.config.timezone,
+			hour: "2-digit",
+			minute: "2-digit",
+			hourCycle: "h23",
+		}).formatToParts(now);
+		const hour = Number(parts.find((part) => part.type === "hour")?.value);
+		const minute = Number(parts.find((part) => part.type === "minute")?.value);
+		const current = hour * 60 + minute;
+		const start = this.toMinutes(this.config.start);
+		const end = this.toMinutes(this.config.end);
+
+		// Windows such as 23:00-07:00 wrap around midnight
+		return start <= end
+			? current >= start && current < end
+			: current >= start || current < end;
+	}
+
+	// Hold a notification until quiet hours end
+	enqueue(
+		message: string,
+		timestamp: Date = new Date(),
+		severity: NotificationSeverity = "info",
+	): void {
+		const queue = this.getQueue();
+		queue.push({ message, timestamp: timestamp.getTime(), severity });
+		database.setPreference(QUEUE_KEY, JSON.stringify(queue));
+	}
+
+	getQueueLength(): number {
+		return this.getQueue().length;
+	}
+
+	private flushIfQuietHoursEnded(): void {
+		if (this.isQuietTime()) return;
+
+		const queue = this.getQueue();
+		if (queue.length === 0) return;
+
+		// Sent at the highest held severity, so filtered channels still hear about urgent alerts
+		const severity = queue.reduce<NotificationSeverity>(
+			(highest, item) =>
+				NOTIFICATION_SEVERITIES.indexOf(item.severity ?? "info") >
+				NOTIFICATION_SEVERITIES.indexOf(highest)
+					? (item.severity ?? "info")
+					: highest,
+			"info",
+		);
+
+		database.deletePreference(QUEUE_KEY);
+		this.emit("summary", this.createSummaryMessage(queue), severity);
+	}
+
+	private getQueue(): QueuedNotification[] {
+		const stored = database.getPreference(QUEUE_KEY);
+		if (!stored) return [];
+
+		try {
+			return JSON.parse(stored) as QueuedNotification[];
+		} catch {
+			return [];
+		}
+	}
+
+	private createSummaryMessage(queue: QueuedNotification[]): string {
+		let message = `🌙 Quiet hours summary\n\n${queue.length} notification${queue.length === 1 ? " was" : "s were"} held while quiet hours were on:\n\n`;
+
+		queue.slice(0, SUMMARY_LIMIT).forEach((item, index) => {
+			const title = item.message.split("\n")[0];
+			const time = new Date(item.timestamp).toLocaleTimeString("en-US", {
+				timeZone: this.config.timezone,
+				hour: "2-digit",
+				minute: "2-digit",
+			});
+			message += `${index + 1}. ${time} - ${title}\n`;
+		});
+
+		if (queue.length > SUMMARY_LIMIT) {
+			message += `... and ${queue.length - SUMMARY_LIMIT} more\n`;
+		}
+
+		message += "\nUse /alerts to see the full messages.";
+		return message;
+	}
+
+	// Snooze Methods
+	snooze(target: string, durationMs: number): Snooze {
+		const snooze = { target, until: Date.now() + durationMs };
+		database.setPreference(
+			`${SNOOZE_PREFIX}${target}`,
+			snooze.until.toString(),
+		);
+		console.log(`😴 Snoozed ${target} for ${formatDuration(durationMs)}`);
+		return snooze;
+	}
+
+	unsnooze(target: string): boolean {
+		const existing = database.getPreference(`${SNOOZE_PREFIX}${target}`);
+		database.deletePreference(`${SNOOZE_PREFIX}${target}`);
+		return existing !== null;
+	}
+
+	isSnoozed(tokenContract?: string): boolean {
+		return (
+			this.isTargetSnoozed("all") ||
+			(tokenContract !== undefined && this.isTargetSnoozed(tokenContract))
+		);
+	}
+
+	getSnoozes(): Snooze[] {
+		const now = Date.now();
+		return database
+			.getAllPreferences()
+			.filter((pref) => pref.key.startsWith(SNOOZE_PREFIX))
+			.map((pref) => ({
+				target: pref.key.slice(SNOOZE_PREFIX.length),
+				until: Number(pref.value),
+			}))
+			.filter((snooze) => snooze.until > now);
+	}
+
+	private isTargetSnoozed(target: string): boolean {
+		const until = database.getPreference(`${SNOOZE_PREFIX}${target}`);
+		if (!until) return false;
+
+		if (Number(until) <= Date.now()) {
+			database.deletePreference(`${SNOOZE_PREFIX}${target}`);
+			return false;
+		}
+		return true;
+	}
+
+	private toMinutes(value: string): number {
+		const [hours, minutes] = value.split(":").map(Number);
+		return (hours ?? 0) * 60 + (minutes ?? 0);
+	}
+
+	updateConfig(newConfig: Partial<QuietHoursConfig>): void {
+		this.config = { ...this.config, ...newConfig };
+
+		// Save preferences to database
+		if (newConfig.enabled !== undefined) {
+			database.setPreference("quiet_hours_enabled", String(newConfig.enabled));
+		}
+		if (newConfig.start !== undefined) {
+			database.setPreference("quiet_hours_start", newConfig.start);
+		}
+		if (newConfig.end !== undefined) {
+			database.setPreference("quiet_hours_end", newConfig.end);
+		}
+		if (newConfig.timezone !== undefined) {
+			database.setPreference("quiet_hours_timezone", newConfig.timezone);
+		}
+
+		console.log("⚙️  Quiet hours config updated:", this.config);
+
+		// Deliver anything held back right away if quiet hours were just switched off
+		if (this.isRunning) {
+			this.flushIfQuietHoursEnded();
+		}
+	}
+
+	getStatus(): {
+		config: QuietHoursConfig;
+		isQuietTime: boolean;
+		queuedCount: number;
+		snoozes: Snooze[];
+	} {
+		return {
+			config: this.config,
+			isQuietTime: this.isQuietTime(),
+			queuedCount: this.getQueueLength(),
+			snoozes: this.getSnoozes(),
+		};
+	}
+}
+
+export default NotificationScheduler;
@@ -0,0 +1,261 @@
+import axios from "axios";
+import nodemailer, { type Transporter } from "nodemailer";
+import { env } from "../env";
+import { database, type NotificationChannelRecord } from "./database";
+
+export type NotificationSeverity = NotificationChannelRecord["minSeverity"];
+
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = [
+	"info",
+	"low",
+	"medium",
+	"high",
+	"critical",
+];
+
+export interface Notification {
+	message: string;
+	severity: NotificationSeverity; // Digests and errors are "info"
+	alertId?: number; // Set for critical alerts that wait for acknowledgement
+	timestamp: Date;
+}
+
+export interface NotificationChannel {
+	name: string;
+	kind: "telegram" | NotificationChannelRecord["kind"];
+	target: string; // Webhook URL or email recipients; unused for Telegram
+	minSeverity: NotificationSeverity;
+	source: "builtin" | "env" | "database";
+}
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+	info: 0,
+	low: 1,
+	medium: 2,
+	high: 3,
+	critical: 4,
+};
+
+// Discord rejects webhook messages over 2000 characters
+const DISCORD_MAX_LENGTH = 2000;
+
+export class Notifier {
+	private channels: NotificationChannel[] = [];
+	private sendTelegram: (notification: Notification) => Promise<void>;
+	private transporter: Transporter | null = null;
+
+	// Telegram delivery stays with the bot, which owns the chat and the keyboards
+	constructor(sendTelegram: (notification: Notification) => Promise<void>) {
+		this.sendTelegram = sendTelegram;
+		this.loadChannels();
+	}
+
+	// Delivers to every channel whose severity filter lets the notification through
+	async send(notification: Notification): Promise<void> {
+		const channels = this.channels.filter(
+			(channel) =>
+				SEVERITY_RANK[notification.severity] >=
+				SEVERITY_RANK[channel.minSeverity],
+		);
+
+		await Promise.all(
+			channels.map(async (channel) => {
+				try {
+					await this.deliver(channel, notification);
+				} catch (error) {
+					console.error(
+						`❌ Failed to send notification to ${channel.name}:`,
+						error instanceof Error ? error.message : error,
+					);
+				}
+			}),
+		);
+	}
+
+	// Sends a test message to one channel, ignoring its severity filter
+	async test(name: string): Promise<void> {
+		const channel = this.getChannel(name);
+		if (!channel) {
+			throw new Error(`Channel ${name} not found`);
+		}
+		await this.deliver(channel, {
+			message: "🔔 Test notification from the IQ Agents bot",
+			severity: "info",
+			timestamp: new Date(),
+		});
+	}
+
+	addChannel(
+		name: string,
+		kind: NotificationChannelRecord["kind"],
+		target: string,
+		minSeverity: NotificationSeverity,
+	): NotificationChannel {
+		const existing = this.getChannel(name);
+		if (existing && existing.source !== "database") {
+			throw new Error(
+				`Channel ${existing.name} is configured in the environment`,
+			);
+		}
+		if (kind === "email" && !env.SMTP_HOST) {
+			throw new Error("Email channels need SMTP_HOST in the environment");
+		}
+
+		database.setNotificationChannel({
+			name,
+			kind,
+			target,
+			minSeverity,
+			createdAt: Date.now(),
+		});
+		this.loadChannels();
+		console.log(`📣 Added ${kind} channel ${name} (${minSeverity} and above)`);
+		return this.getChannel(name)!;
+	}
+
+	removeChannel(name: string): boolean {
+		const channel = this.getChannel(name);
+		if (channel?.source !== "database") return false;
+
+		const removed = database.removeNotificationChannel(channel.name);
+		this.loadChannels();
+		return removed;
+	}
+
+	// Environment channels keep the severity from their *_MIN_SEVERITY variable
+	setMinSeverity(name: string, minSeverity: NotificationSeverity): boolean {
+		const channel = this.getChannel(name);
+		if (!channel || channel.source === "env") return false;
+
+		if (channel.source === "builtin") {
+			database.setPreference("telegram_min_severity", minSeverity);
+		} else {
+			const record = database
+				.getNotificationChannels()
+				.find((entry) => entry.name === channel.name);
+			if (!record) return false;
+			database.setNotificationChannel({ ...record, minSeverity });
+		}
+
+		channel.minSeverity = minSeverity;
+		return true;
+	}
+
+	getChannel(name: string): NotificationChannel | undefined {
+		return this.channels.find(
+			(channel) => channel.name.toLowerCase() === name.toLowerCase(),
+		);
+	}
+
+	getChannels(): NotificationChannel[] {
+		return this.channels;
+	}
+
+	isSeverity(value: string): value is NotificationSeverity {
+		return (NOTIFICATION_SEVERITIES as string[]).includes(value);
+	}
+
+	private async deliver(
+		channel: NotificationChannel,
+		notification: Notification,
+	): Promise<void> {
+		switch (channel.kind) {
+			case "telegram":
+				await this.sendTelegram(notification);
+				break;
+			case "discord":
+				await axios.post(channel.target, {
+					content: notification.message.slice(0, DISCORD_MAX_LENGTH),
+				});
+				break;
+			case "slack":
+				await axios.post(channel.target, { text: notification.message });
+				break;
+			case "email":
+				await this.getTransporter().sendMail({
+					from: env.SMTP_FROM ?? env.SMTP_USER,
+					to: channel.target,
+					subject: `[${notification.severity}] ${notification.message.split("\n")[0]?.trim() || "IQ Agents"}`,
+					text: notification.message,
+				});
+				break;
+			case "webhook":
+				await axios.post(channel.target, {
+					text: notification.message,
+					severity: notification.severity,
+					timestamp: notification.timestamp.toISOString(),
+				});
+				break;
+		}
+	}
+
+	// One SMTP transport is shared by every email channel
+	private getTransporter(): Transporter {
+		if (!this.transporter) {
+			this.transporter = nodemailer.createTransport({
+				host: env.SMTP_HOST,
+				port: env.SMTP_PORT,
+				secure: env.SMTP_SECURE,
+				...(env.SMTP_USER
+					? { auth: { user: env.SMTP_USER, pass: env.SMTP_PASS } }
+					: {}),
+			});
+		}
+		return this.transporter;
+	}
+
+	private loadChannels(): void {
+		const channels: NotificationChannel[] = [
+			{
+				name: "telegram",
+				kind: "telegram",
+				target: "",
+				minSeverity:
+					(database.getPreference(
+						"telegram_min_severity",
+					) as NotificationSeverity | null) ?? env.TELEGRAM_MIN_SEVERITY,
+				source: "builtin",
+			},
+		];
+
+		const fromEnv: [
+			NotificationChannel["kind"],
+			string | undefined,
+			NotificationSeverity,
+		][] = [
+			["discord", env.DISCORD_WEBHOOK_URL, env.DISCORD_MIN_SEVERITY],
+			["slack", env.SLACK_WEBHOOK_URL, env.SLACK_MIN_SEVERITY],
+			["webhook", env.WEBHOOK_URL, env.WEBHOOK_MIN_SEVERITY],
+			[
+				"email",
+				env.SMTP_HOST ? env.EMAIL_TO : undefined,
+				env.EMAIL_MIN_SEVERITY,
+			],
+		];
+		for (const [kind, target, minSeverity] of fromEnv) {
+			if (!target) continue;
+			channels.push({ name: kind, kind, target, minSeverity, source: "env" });
+		}
+
+		// Environment channels win over a database channel with the same name
+		for (const record of database.getNotificationChannels()) {
+			if (
+				!channels.some(
+					(channel) => channel.name.toLowerCase() === record.name.toLowerCase(),
+				)
+			) {
+				channels.push({
+					name: record.name,
+					kind: record.kind,
+					target: record.target,
+					minSeverity: record.minSeverity,
+					source: "database",
+				});
+			}
+		}
+
+		this.channels = channels;
+	}
+}
+
+export default Notifier;
@@ -0,0 +1,107 @@
+import { agentsApi } from "./agents";
+import { database, type PriceTarget } from "./database";
+
+class PriceTargetsService {
+	addTarget(
+		tokenContract: string,
+		tokenName: string,
+		direction: PriceTarget["direction"],
+		targetPrice: number,
+		currentPrice: number,
+		rearm: boolean = false,
+	): PriceTarget {
+		const target: Omit<PriceTarget, "id"> = {
+			tokenContract,
+			tokenName,
+			direction,
+			targetPrice,
+			rearm,
+			// A target that is already satisfied waits for the price to cross back first
+			isArmed: !this.isReached(direction, targetPrice, currentPrice),
+			isActive: true,
+			lastTriggeredAt: null,
+			createdAt: Date.now(),
+		};
+		const id = database.addPriceTarget(target);
+		console.log(
+			`🎯 Added ${direction} ${agentsApi.formatCurrency(targetPrice)} target for ${tokenName}`,
+		);
+		return { id, ...target };
+	}
+
+	getTargets(tokenContract?: string): PriceTarget[] {
+		return database.getPriceTargets(tokenContract);
+	}
+
+	removeTarget(id: number): boolean {
+		return database.removePriceTarget(id);
+	}
+
+	// Returns the targets crossed by the current price and updates their armed state
+	evaluate(tokenContract: string, currentPrice: number): PriceTarget[] {
+		const triggered: PriceTarget[] = [];
+		const now = Date.now();
+
+		for (const target of database.getPriceTargets(tokenContract)) {
+			const reached = this.isReached(
+				target.direction,
+				target.targetPrice,
+				currentPrice,
+			);
+
+			if (reached && target.isArmed) {
+				database.updatePriceTarget(target.id!, {
+					isArmed: false,
+					isActive: target.rearm,
+					lastTriggeredAt: now,
+				});
+				triggered.push({ ...target, isArmed: false, lastTriggeredAt: now });
+			} else if (
+				!reached &&
+				!target.isArmed &&
+				(target.rearm || target.lastTriggeredAt === null)
+			) {
+				database.updatePriceTarget(target.id!, { isArmed: true });
+			}
+		}
+
+		return triggered;
+	}
+
+	createTargetMessage(
+		target: PriceTarget,
+		currentPrice: number,
+		previousPrice: number,
+		formatPrice: (price: number) => string = (price) =>
+			agentsApi.formatCurrency(price),
+	): string {
+		const direction = target.direction === "above" ? "📈" : "📉";
+		const crossed = target.direction === "above" ? "above" : "below";
+		const opposite = target.direction === "above" ? "below" : "above";
+
+		return (
+			`🎯 ${direction} ${target.tokenName} price target hit!\n\n` +
+			`💰 Current price: ${formatPrice(currentPrice)}\n` +
+			(previousPrice > 0
+				? `📊 Previous price: ${formatPrice(previousPrice)}\n`
+				: "") +
+			`🎯 Target: ${crossed} ${formatPrice(target.targetPrice)}\n\n` +
+			(target.rearm
+				? `🔁 Target re-arms once price moves back ${opposite} ${formatPrice(target.targetPrice)}`
+				: "✅ Target disarmed")
+		);
+	}
+
+	private isReached(
+		direction: PriceTarget["direction"],
+		targetPrice: number,
+		currentPrice: number,
+	): boolean {
+		return direction === "above"
+			? currentPrice >= targetPrice
+			: currentPrice <= targetPrice;
+	}
+}
+
+export const priceTargets = new PriceTargetsService();
+export default priceTargets;
@@ -1,7 +1,19 @@
 import { EventEmitter } from "node:events";
 import { env } from "../env";
+import { parseDuration } from "../utils/duration";
+import type { MetricSnapshot } from "../utils/rule-expression";
 import { agentsApi } from "./agents";
-import { database } from "./database";
+import { alertRules } from "./alert-rules";
+import { alertTemplates } from "./alert-templates";
+import {
+	type AlertRule,
+	database,
+	type PriceTarget,
+	type TokenMetric,
+} from "./database";
+import { type MetricAlertHit, metricAlerts } from "./metric-alerts";
+import { priceTargets } from "./price-targets";
+import { type TrailingAlertHit, trailingAlerts } from "./trailing-alerts";
 
 export interface PriceAlert {
 	type:
@@ -10,7 +22,13 @@ export interface PriceAlert {
 		| "significant_change"
 		| "minor_change"
 		| "major_change"
-		| "critical_change";
+		| "critical_change"
+		| "price_target"
+		| "rule"
+		| "metric"
+		| "drawdown"
+		| "rebound"
+		| "volatility_spike";
 	severity: "low" | "medium" | "high" | "critical";
 	message: string;
 	tokenContract: string;
@@ -20,9 +38,25 @@ export interface PriceAlert {
 	change: number;
 	changePercentage: number;
 	threshold: number;
+	window?: string; // Set when the alert came from a rolling window instead of the last poll
+	targetPrice?: number; // Set for absolute price target alerts
+	ruleName?: string; // Set for user-defined rule alerts
+	metric?: TokenMetric; // Set for market cap, holders and inference alerts
+	metricValue?: number;
+	sigma?: number; // Set for adaptive-mode alerts: the move in standard deviations
+	attribution?: PriceAttribution; // Set when both prices have an IQ-denominated reference
+	alertId?: number; // Row id in the alerts table
 	timestamp: Date;
 }
 
+// Agent prices are quoted in IQ, so a USD move splits into the IQ/USD rate and the agent's own IQ price
+export interface PriceAttribution {
+	iqChangePercentage: number; // Change in the USD value of one IQ
+	agentChangePercentage: number; // Change in the agent's price in IQ
+	iqDrivenChange: number; // USD change explained by the IQ/USD rate alone
+	agentDrivenChange: number; // Remaining USD change from the agent's own price
+}
+
 interface ThresholdConfig {
 	minor: number; // 1-5% changes
 	major: number; // 5-15% changes
@@ -37,15 +71,53 @@ interface TokenWatchConfig {
 	enableMinorAlerts: boolean;
 	enableMajorAlerts: boolean;
 	enableCriticalAlerts: boolean;
+	alertWindows: string[];
+	adaptiveMode: boolean;
+	sigmaThreshold: number;
+	volatilityWindow: number;
+	alertBasis: "usd" | "agent";
+}
+
+interface TierMatch {
+	type: PriceAlert["type"];
+	severity: PriceAlert["severity"];
+	threshold: number;
+	enabled: boolean;
+}
+
+interface Volatility {
+	mean: number; // Mean return per poll, in percent
+	stdDev: number; // Standard deviation of returns per poll, in percent
+	samples: number;
+}
+
+interface WindowState {
+	severity: PriceAlert["severity"];
+	direction: 1 | -1;
 }
 
 interface TrackedToken {
 	config: TokenWatchConfig;
 	lastPrice: number;
+	lastPriceInIq: number; // 0 until a price in IQ has been recorded
 	lastCheckTime: Date;
 	intervalId: NodeJS.Timeout | null;
+	// Highest tier already reported per window, so a sustained move only alerts once
+	windowStates: Map<string, WindowState>;
 }
 
+const DEFAULT_SIGMA_THRESHOLD = 3;
+const DEFAULT_VOLATILITY_WINDOW = 50;
+// Below this many returns the deviation is too noisy; fixed thresholds are used instead
+const MIN_VOLATILITY_SAMPLES = 10;
+
+const SEVERITY_RANK: Record<PriceAlert["severity"], number> = {
+	low: 1,
+	medium: 2,
+	high: 3,
+	critical: 4,
+};
+
 export class PriceWatcher extends EventEmitter {
 	private trackedTokens: Map<string, TrackedToken> = new Map();
 	private isRunning: boolean = false;
@@ -79,10 +151,18 @@ export class PriceWatcher extends EventEmitter {
 					enableMinorAlerts: dbToken.enableMinorAlerts,
 					enableMajorAlerts: dbToken.enableMajorAlerts,
 					enableCriticalAlerts: dbToken.enableCriticalAlerts,
+					alertWindows: dbToken.alertWindows,
+					adaptiveMode: dbToken.adaptiveMode,
+					sigmaThreshold: dbToken.sigmaThreshold,
+					volatilityWindow: dbToken.volatilityWindow,
+					alertBasis: dbToken.alertBasis,
 				},
 				lastPrice: dbToken.lastPrice,
+				lastPriceInIq:
+					database.getLatestPrice(dbToken.tokenContract)?.priceInIq ?? 0,
 				lastCheckTime: new Date(dbToken.lastCheckTime),
 				intervalId: null,
+				windowStates: new Map(),
 			};
 			this.trackedTokens.set(dbToken.tokenContract, trackedToken);
 		}
@@ -134,6 +214,11 @@ export class PriceWatcher extends EventEmitter {
 			enableMinorAlerts: true,
 			enableMajorAlerts: true,
 			enableCriticalAlerts: true,
+			alertWindows: [],
+			adaptiveMode: false,
+			sigmaThreshold: DEFAULT_SIGMA_THRESHOLD,
+			volatilityWindow: DEFAULT_VOLATILITY_WINDOW,
+			alertBasis: "usd",
 		};
 
 		try {
@@ -141,8 +226,10 @@ export class PriceWatcher extends EventEmitter {
 			const trackedToken: TrackedToken = {
 				config,
 				lastPrice: stats.currentPriceInUSD,
+				lastPriceInIq: stats.currentPriceInIq,
 				lastCheckTime: new Date(),
 				intervalId: null,
+				windowStates: new Map(),
 			};
 
 			this.trackedTokens.set(tokenContract, trackedToken);
@@ -162,6 +249,11 @@ export class PriceWatcher extends EventEmitter {
 				enableMinorAlerts: true,
 				enableMajorAlerts: true,
 				enableCriticalAlerts: true,
+				alertWindows: [],
+				adaptiveMode: false,
+				sigmaThreshold: DEFAULT_SIGMA_THRESHOLD,
+				volatilityWindow: DEFAULT_VOLATILITY_WINDOW,
+				alertBasis: "usd",
 			});
 
 			console.log(`✅ Added token ${tokenName} to tracking list`);
@@ -203,6 +295,11 @@ export class PriceWatcher extends EventEmitter {
 			enableMinorAlerts: true,
 			enableMajorAlerts: true,
 			enableCriticalAlerts: true,
+			alertWindows: [],
+			adaptiveMode: false,
+			sigmaThreshold: DEFAULT_SIGMA_THRESHOLD,
+			volatilityWindow: DEFAULT_VOLATILITY_WINDOW,
+			alertBasis: "usd",
 		};
 
 		try {
@@ -210,8 +307,10 @@ export class PriceWatcher extends EventEmitter {
 			const trackedToken: TrackedToken = {
 				config,
 				lastPrice: stats.currentPriceInUSD,
+				lastPriceInIq: stats.currentPriceInIq,
 				lastCheckTime: new Date(),
 				intervalId: null,
+				windowStates: new Map(),
 			};
 
 			this.trackedTokens.set(tokenContract, trackedToken);
@@ -231,6 +330,11 @@ export class PriceWatcher extends EventEmitter {
 				enableMinorAlerts: true,
 				enableMajorAlerts: true,
 				enableCriticalAlerts: true,
+				alertWindows: [],
+				adaptiveMode: false,
+				sigmaThreshold: DEFAULT_SIGMA_THRESHOLD,
+				volatilityWindow: DEFAULT_VOLATILITY_WINDOW,
+				alertBasis: "usd",
 			});
 
 			console.log(
@@ -324,69 +428,54 @@ export class PriceWatcher extends EventEmitter {
 		try {
 			const stats = await agentsApi.getAgentStats(tokenContract);
 			const currentPrice = stats.currentPriceInUSD;
-			const previousPrice = token.lastPrice;
-			const change = currentPrice - previousPrice;
-			const changePercentage = agentsApi.calculatePercentageChange(
-				previousPrice,
-				currentPrice,
-			);
+			const currentPriceInIq = stats.currentPriceInIq;
+			const now = Date.now();
 
 			console.log(
-				`📊 ${token.config.tokenName}: ${agentsApi.formatCurrency(currentPrice)} (${changePercentage.toFixed(2)}%)`,
+				`📊 ${token.config.tokenName}: ${agentsApi.formatCurrency(currentPrice)} (${agentsApi.calculatePercentageChange(token.lastPrice, currentPrice).toFixed(2)}%)`,
 			);
 
-			// Only send alerts if there's actually a price change
-			if (Math.abs(changePercentage) === 0) {
-				// No price change, skip alert
-				return;
+			const volatility = token.config.adaptiveMode
+				? this.getVolatility(
+						tokenContract,
+						token.config.volatilityWindow,
+						token.config.alertBasis,
+					)
+				: null;
+			const alert = volatility
+				? this.evaluateAdaptive(
+						token,
+						currentPrice,
+						currentPriceInIq,
+						volatility,
+					)
+				: token.config.alertWindows.length > 0
+					? this.evaluateWindows(token, currentPrice, currentPriceInIq, now)
+					: this.evaluateLastPoll(token, currentPrice, currentPriceInIq);
+
+			if (alert) {
+				this.emitAlert(alert);
 			}
 
-			let alertType: PriceAlert["type"] = "significant_change";
-			let alertSeverity: PriceAlert["severity"] = "medium";
-			let threshold = 0;
-			let shouldAlert = false;
-
-			// Determine alert type based on threshold exceeded
-			if (Math.abs(changePercentage) >= token.config.thresholds.critical) {
-				alertType = "critical_change";
-				alertSeverity = "critical";
-				threshold = token.config.thresholds.critical;
-				shouldAlert = token.config.enableCriticalAlerts;
-			} else if (Math.abs(changePercentage) >= token.config.thresholds.major) {
-				alertType = "major_change";
-				alertSeverity = "high";
-				threshold = token.config.thresholds.major;
-				shouldAlert = token.config.enableMajorAlerts;
-			} else if (Math.abs(changePercentage) >= token.config.thresholds.minor) {
-				alertType = "minor_change";
-				alertSeverity = "low";
-				threshold = token.config.thresholds.minor;
-				shouldAlert = token.config.enableMinorAlerts;
+			for (const target of priceTargets.evaluate(tokenContract, currentPrice)) {
+				this.emitAlert(this.buildTargetAlert(token, target, currentPrice));
 			}
 
-			// Only send alert if threshold is exceeded and alerts are enabled
-			if (shouldAlert && threshold > 0) {
-				const alert: PriceAlert = {
-					type: alertType,
-					severity: alertSeverity,
-					message: this.createPriceAlertMessage(
-						token.config.tokenName,
-						currentPrice,
-						previousPrice,
-						change,
-						changePercentage,
-						threshold,
-					),
-					tokenContract,
-					tokenName: token.config.tokenName,
-					currentPrice,
-					previousPrice,
-					change,
-					changePercentage,
-					threshold,
-					timestamp: new Date(),
-				};
-				this.emit("alert", alert);
+			const snapshot = alertRules.snapshotFromStats(stats);
+			for (const rule of alertRules.evaluate(tokenContract, snapshot, now)) {
+				this.emitAlert(this.buildRuleAlert(token, rule, snapshot, now));
+			}
+
+			for (const hit of metricAlerts.evaluate(tokenContract, stats, now)) {
+				this.emitAlert(this.buildMetricAlert(token, hit, currentPrice, now));
+			}
+
+			for (const hit of trailingAlerts.evaluate(
+				tokenContract,
+				currentPrice,
+				now,
+			)) {
+				this.emitAlert(this.buildTrailingAlert(token, hit, now));
 			}
 
 			// Store price history in database
@@ -394,16 +483,22 @@ export class PriceWatcher extends EventEmitter {
 				tokenContract,
 				tokenName: token.config.tokenName,
 				price: currentPrice,
-				timestamp: Date.now(),
+				priceInIq: stats.currentPriceInIq,
+				marketCap: stats.marketCap,
+				changeIn24h: stats.changeIn24h,
+				holdersCount: stats.holdersCount,
+				inferenceCount: stats.inferenceCount,
+				timestamp: now,
 			});
 
 			// Update token state and database
 			token.lastPrice = currentPrice;
-			token.lastCheckTime = new Date();
+			token.lastPriceInIq = currentPriceInIq;
+			token.lastCheckTime = new Date(now);
 
 			database.updateWatchedToken(tokenContract, {
 				lastPrice: currentPrice,
-				lastCheckTime: Date.now(),
+				lastCheckTime: now,
 			});
 		} catch (error) {
 			console.error(
@@ -414,6 +509,474 @@ export class PriceWatcher extends EventEmitter {
 		}
 	}
 
+	private emitAlert(alert: PriceAlert): void {
+		const { message, ...payload } = alert;
+
+		// Store alert in database
+		alert.alertId = database.addAlert({
+			type: "price",
+			tokenContract: alert.tokenContract,
+			tokenName: alert.tokenName,
+			tier: alert.type,
+			severity: alert.severity,
+			threshold: alert.threshold,
+			currentPrice: alert.currentPrice,
+			previousPrice: alert.previousPrice,
+			change: alert.change,
+			changePercentage: alert.changePercentage,
+			payload: JSON.stringify(payload),
+			message,
+			timestamp: alert.timestamp.getTime(),
+			triggered: false,
+		});
+
+		this.emit("alert", alert);
+	}
+
+	// Tick-to-tick comparison against the previous poll
+	private evaluateLastPoll(
+		token: TrackedToken,
+		currentPrice: number,
+		currentPriceInIq: number,
+	): PriceAlert | null {
+		const previousPrice = token.lastPrice;
+		const changePercentage = agentsApi.calculatePercentageChange(
+			previousPrice,
+			currentPrice,
+		);
+		const attribution = this.attributeChange(
+			previousPrice,
+			token.lastPriceInIq,
+			currentPrice,
+			currentPriceInIq,
+		);
+		const alertPercentage = this.getAlertPercentage(
+			token.config,
+			changePercentage,
+			attribution,
+		);
+
+		// Only send alerts if there's actually a price change
+		if (alertPercentage === null || Math.abs(alertPercentage) === 0) {
+			return null;
+		}
+
+		const tier = this.matchTier(token.config, alertPercentage);
+		if (!tier || !tier.enabled) return null;
+
+		return this.buildAlert(
+			token,
+			tier,
+			currentPrice,
+			previousPrice,
+			changePercentage,
+			attribution,
+		);
+	}
+
+	// Rolling mean and standard deviation of poll-to-poll returns from price history
+	private getVolatility(
+		tokenContract: string,
+		window: number,
+		basis: TokenWatchConfig["alertBasis"],
+	): Volatility | null {
+		const prices = database
+			.getPriceHistory(tokenContract, window + 1)
+			.reverse()
+			.map((record) => (basis === "agent" ? record.priceInIq : record.price));
+
+		const returns: number[] = [];
+		for (let i = 1; i < prices.length; i++) {
+			const previous = prices[i - 1];
+			const current = prices[i];
+			// Rows recorded before IQ prices were stored have no agent price
+			if (previous && previous > 0 && current != null) {
+				returns.push(agentsApi.calculatePercentageChange(previous, current));
+			}
+		}
+		if (returns.length < MIN_VOLATILITY_SAMPLES) return null;
+
+		const mean =
+			returns.reduce((sum, value) => sum + value, 0) / returns.length;
+		const variance =
+			returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+			(returns.length - 1);
+		const stdDev = Math.sqrt(variance);
+
+		// A flat price history has no deviation to measure against
+		if (stdDev === 0) return null;
+
+		return { mean, stdDev, samples: returns.length };
+	}
+
+	// Alert when the latest move is unusually large for this token's own volatility
+	private evaluateAdaptive(
+		token: TrackedToken,
+		currentPrice: number,
+		currentPriceInIq: number,
+		volatility: Volatility,
+	): PriceAlert | null {
+		const previousPrice = token.lastPrice;
+		if (previousPrice <= 0) return null;
+
+		const changePercentage = agentsApi.calculatePercentageChange(
+			previousPrice,
+			currentPrice,
+		);
+		const attribution = this.attributeChange(
+			previousPrice,
+			token.lastPriceInIq,
+			currentPrice,
+			currentPriceInIq,
+		);
+		const alertPercentage = this.getAlertPercentage(
+			token.config,
+			changePercentage,
+			attribution,
+		);
+		if (alertPercentage === null) return null;
+
+		const sigma = (alertPercentage - volatility.mean) / volatility.stdDev;
+		const threshold = token.config.sigmaThreshold;
+		if (Math.abs(sigma) < threshold) return null;
+
+		const severity: PriceAlert["severity"] =
+			Math.abs(sigma) >= threshold * 2
+				? "critical"
+				: Math.abs(sigma) >= threshold * 1.5
+					? "high"
+					: "medium";
+		const change = currentPrice - previousPrice;
+
+		return {
+			type: "volatility_spike",
+			severity,
+			message: this.createVolatilityAlertMessage(
+				token.config.tokenName,
+				currentPrice,
+				previousPrice,
+				change,
+				changePercentage,
+				sigma,
+				threshold,
+				volatility,
+				attribution,
+				token.config.alertBasis,
+			),
+			tokenContract: token.config.tokenContract,
+			tokenName: token.config.tokenName,
+			currentPrice,
+			previousPrice,
+			change,
+			changePercentage,
+			threshold,
+			sigma,
+			...(attribution ? { attribution } : {}),
+			timestamp: new Date(),
+		};
+	}
+
+	// Compare against the recorded price at the start of each configured window
+	private evaluateWindows(
+		token: TrackedToken,
+		currentPrice: number,
+		currentPriceInIq: number,
+		now: number,
+	): PriceAlert | null {
+		let best: PriceAlert | null = null;
+
+		for (const window of token.config.alertWindows) {
+			const windowMs = parseDuration(window);
+			if (windowMs === null) continue;
+
+			// Not enough history yet to cover this window
+			const reference = database.getPriceAtOrBefore(
+				token.config.tokenContract,
+				now - windowMs,
+			);
+			if (!reference || reference.price <= 0) continue;
+
+			const changePercentage = agentsApi.calculatePercentageChange(
+				reference.price,
+				currentPrice,
+			);
+			const attribution = this.attributeChange(
+				reference.price,
+				reference.priceInIq ?? 0,
+				currentPrice,
+				currentPriceInIq,
+			);
+			const alertPercentage = this.getAlertPercentage(
+				token.config,
+				changePercentage,
+				attribution,
+			);
+			if (alertPercentage === null) continue;
+
+			const tier = this.matchTier(token.config, alertPercentage);
+			if (!tier) {
+				token.windowStates.delete(window);
+				continue;
+			}
+
+			const direction = alertPercentage > 0 ? 1 : -1;
+			const previous = token.windowStates.get(window);
+			token.windowStates.set(window, { severity: tier.severity, direction });
+
+			const alreadyReported =
+				previous !== undefined &&
+				previous.direction === direction &&
+				SEVERITY_RANK[previous.severity] >= SEVERITY_RANK[tier.severity];
+			if (alreadyReported || !tier.enabled) continue;
+
+			// Several windows can fire on the same poll; report the most severe one
+			if (
+				!best ||
+				SEVERITY_RANK[tier.severity] > SEVERITY_RANK[best.severity]
+			) {
+				best = this.buildAlert(
+					token,
+					tier,
+					currentPrice,
+					reference.price,
+					changePercentage,
+					attribution,
+					window,
+				);
+			}
+		}
+
+		return best;
+	}
+
+	// Splits a USD move using R = price / priceInIq, the USD value of one IQ implied by the agent's quote
+	private attributeChange(
+		previousPrice: number,
+		previousPriceInIq: number,
+		currentPrice: number,
+		currentPriceInIq: number,
+	): PriceAttribution | null {
+		if (previousPrice <= 0 || previousPriceInIq <= 0 || currentPriceInIq <= 0) {
+			return null;
+		}
+
+		const previousRate = previousPrice / previousPriceInIq;
+		const currentRate = currentPrice / currentPriceInIq;
+		const iqDrivenChange = previousPriceInIq * (currentRate - previousRate);
+
+		return {
+			iqChangePercentage: agentsApi.calculatePercentageChange(
+				previousRate,
+				currentRate,
+			),
+			agentChangePercentage: agentsApi.calculatePercentageChange(
+				previousPriceInIq,
+				currentPriceInIq,
+			),
+			iqDrivenChange,
+			agentDrivenChange: currentPrice - previousPrice - iqDrivenChange,
+		};
+	}
+
+	// The move thresholds are compared against; null when the agent basis has no IQ history yet
+	private getAlertPercentage(
+		config: TokenWatchConfig,
+		changePercentage: number,
+		attribution: PriceAttribution | null,
+	): number | null {
+		if (config.alertBasis === "usd") return changePercentage;
+		return attribution ? attribution.agentChangePercentage : null;
+	}
+
+	private matchTier(
+		config: TokenWatchConfig,
+		changePercentage: number,
+	): TierMatch | null {
+		const absChange = Math.abs(changePercentage);
+
+		if (absChange >= config.thresholds.critical) {
+			return {
+				type: "critical_change",
+				severity: "critical",
+				threshold: config.thresholds.critical,
+				enabled: config.enableCriticalAlerts,
+			};
+		}
+		if (absChange >= config.thresholds.major) {
+			return {
+				type: "major_change",
+				severity: "high",
+				threshold: config.thresholds.major,
+				enabled: config.enableMajorAlerts,
+			};
+		}
+		if (absChange >= config.thresholds.minor) {
+			return {
+				type: "minor_change",
+				severity: "low",
+				threshold: config.thresholds.minor,
+				enabled: config.enableMinorAlerts,
+			};
+		}
+		return null;
+	}
+
+	private buildAlert(
+		token: TrackedToken,
+		tier: TierMatch,
+		currentPrice: number,
+		previousPrice: number,
+		changePercentage: number,
+		attribution: PriceAttribution | null,
+		window?: string,
+	): PriceAlert {
+		const change = currentPrice - previousPrice;
+
+		return {
+			type: tier.type,
+			severity: tier.severity,
+			message: this.createPriceAlertMessage(
+				token.config.tokenName,
+				currentPrice,
+				previousPrice,
+				change,
+				changePercentage,
+				tier.threshold,
+				tier.severity,
+				attribution,
+				token.config.alertBasis,
+				window,
+			),
+			tokenContract: token.config.tokenContract,
+			tokenName: token.config.tokenName,
+			currentPrice,
+			previousPrice,
+			change,
+			changePercentage,
+			threshold: tier.threshold,
+			...(window ? { window } : {}),
+			...(attribution ? { attribution } : {}),
+			timestamp: new Date(),
+		};
+	}
+
+	private buildTargetAlert(
+		token: TrackedToken,
+		target: PriceTarget,
+		currentPrice: number,
+	): PriceAlert {
+		const previousPrice = token.lastPrice;
+
+		return {
+			type: "price_target",
+			severity: "high",
+			message: priceTargets.createTargetMessage(
+				target,
+				currentPrice,
+				previousPrice,
+			),
+			tokenContract: token.config.tokenContract,
+			tokenName: token.config.tokenName,
+			currentPrice,
+			previousPrice,
+			change: currentPrice - previousPrice,
+			changePercentage: agentsApi.calculatePercentageChange(
+				previousPrice,
+				currentPrice,
+			),
+			threshold: 0,
+			targetPrice: target.targetPrice,
+			timestamp: new Date(),
+		};
+	}
+
+	private buildRuleAlert(
+		token: TrackedToken,
+		rule: AlertRule,
+		snapshot: MetricSnapshot,
+		now: number,
+	): PriceAlert {
+		const currentPrice = snapshot.currentPriceInUSD ?? 0;
+		const previousPrice = token.lastPrice;
+
+		return {
+			type: "rule",
+			severity: rule.severity,
+			message: alertRules.createRuleMessage(
+				rule,
+				token.config.tokenContract,
+				token.config.tokenName,
+				snapshot,
+				now,
+			),
+			tokenContract: token.config.tokenContract,
+			tokenName: token.config.tokenName,
+			currentPrice,
+			previousPrice,
+			change: currentPrice - previousPrice,
+			changePercentage: agentsApi.calculatePercentageChange(
+				previousPrice,
+				currentPrice,
+			),
+			threshold: 0,
+			ruleName: rule.name,
+			timestamp: new Date(now),
+		};
+	}
+
+	private buildMetricAlert(
+		token: TrackedToken,
+		hit: MetricAlertHit,
+		currentPrice: number,
+		now: number,
+	): PriceAlert {
+		const previousPrice = token.lastPrice;
+
+		return {
+			type: "metric",
+			severity: "medium",
+			message: metricAlerts.createAlertMessage(hit),
+			tokenContract: token.config.tokenContract,
+			tokenName: token.config.tokenName,
+			currentPrice,
+			previousPrice,
+			change: currentPrice - previousPrice,
+			changePercentage: agentsApi.calculatePercentageChange(
+				previousPrice,
+				currentPrice,
+			),
+			threshold: hit.alert.value,
+			metric: hit.alert.metric,
+			metricValue: hit.currentValue,
+			timestamp: new Date(now),
+		};
+	}
+
+	private buildTrailingAlert(
+		token: TrackedToken,
+		hit: TrailingAlertHit,
+		now: number,
+	): PriceAlert {
+		const change = hit.currentPrice - hit.extremePrice;
+
+		return {
+			type: hit.alert.kind,
+			severity: hit.alert.kind === "drawdown" ? "high" : "medium",
+			message: trailingAlerts.createAlertMessage(hit),
+			tokenContract: token.config.tokenContract,
+			tokenName: token.config.tokenName,
+			currentPrice: hit.currentPrice,
+			previousPrice: hit.extremePrice,
+			change,
+			changePercentage: agentsApi.calculatePercentageChange(
+				hit.extremePrice,
+				hit.currentPrice,
+			),
+			threshold: hit.alert.percentage,
+			timestamp: new Date(now),
+		};
+	}
+
 	private createPriceAlertMessage(
 		tokenName: string,
 		currentPrice: number,
@@ -421,24 +984,76 @@ export class PriceWatcher extends EventEmitter {
 		change: number,
 		changePercentage: number,
 		threshold: number,
+		severity: PriceAlert["severity"],
+		attribution: PriceAttribution | null,
+		basis: TokenWatchConfig["alertBasis"],
+		window?: string,
+	): string {
+		const changeStr = change > 0 ? "+" : "";
+
+		return alertTemplates.render("price", {
+			direction: change > 0 ? "📈" : "📉",
+			tokenName,
+			currentPrice: agentsApi.formatCurrency(currentPrice),
+			previousPrice: agentsApi.formatCurrency(previousPrice),
+			previousPriceLabel: window ? `Price ${window} ago` : "Previous price",
+			change: `${changeStr}${agentsApi.formatCurrency(change)}`,
+			changePercentage: `${changePercentage.toFixed(2)}%`,
+			threshold: `${threshold}%`,
+			severity,
+			window: window ?? "",
+			windowLine: window ? `⏱️ Window: ${window}\n` : "",
+			attributionLines: this.formatAttribution(attribution, basis),
+			outlook: change > 0 ? "Price is going up! 🚀" : "Price is going down! 📉",
+		});
+	}
+
+	private createVolatilityAlertMessage(
+		tokenName: string,
+		currentPrice: number,
+		previousPrice: number,
+		change: number,
+		changePercentage: number,
+		sigma: number,
+		threshold: number,
+		volatility: Volatility,
+		attribution: PriceAttribution | null,
+		basis: TokenWatchConfig["alertBasis"],
 	): string {
 		const direction = change > 0 ? "📈" : "📉";
 		const changeStr = change > 0 ? "+" : "";
 
 		return (
-			`${direction} ${tokenName} price alert!\n\n` +
+			`${direction} ${tokenName} unusual price move!\n\n` +
 			`💰 Current price: ${agentsApi.formatCurrency(currentPrice)}\n` +
 			`📊 Previous price: ${agentsApi.formatCurrency(previousPrice)}\n` +
 			`🔄 Change: ${changeStr}${agentsApi.formatCurrency(change)} (${changePercentage.toFixed(2)}%)\n` +
-			`🚨 Threshold: ${threshold}%\n\n` +
+			this.formatAttribution(attribution, basis) +
+			`📐 Size: ${sigma > 0 ? "+" : ""}${sigma.toFixed(1)}σ (typical move ±${volatility.stdDev.toFixed(2)}% over the last ${volatility.samples} checks)\n` +
+			`🚨 Threshold: ${threshold}σ\n\n` +
 			`${change > 0 ? "Price is going up! 🚀" : "Price is going down! 📉"}`
 		);
 	}
 
+	private formatAttribution(
+		attribution: PriceAttribution | null,
+		basis: TokenWatchConfig["alertBasis"],
+	): string {
+		if (!attribution) return "";
+
+		const sign = (value: number) => (value > 0 ? "+" : "");
+		return (
+			`🧮 IQ/USD: ${sign(attribution.iqChangePercentage)}${attribution.iqChangePercentage.toFixed(2)}% (${sign(attribution.iqDrivenChange)}${agentsApi.formatUsd(attribution.iqDrivenChange)})` +
+			` · Agent in IQ: ${sign(attribution.agentChangePercentage)}${attribution.agentChangePercentage.toFixed(2)}% (${sign(attribution.agentDrivenChange)}${agentsApi.formatUsd(attribution.agentDrivenChange)})\n` +
+			(basis === "agent" ? "🎯 Alerting on the agent-specific move only\n" : "")
+		);
+	}
+
 	getTrackedTokens(): Array<{
 		tokenContract: string;
 		tokenName: string;
 		lastPrice: number;
+		lastPriceInIq: number;
 		lastCheckTime: Date;
 		config: TokenWatchConfig;
 	}> {
@@ -447,6 +1062,7 @@ export class PriceWatcher extends EventEmitter {
 				tokenContract,
 				tokenName: token.config.tokenName,
 				lastPrice: token.lastPrice,
+				lastPriceInIq: token.lastPriceInIq,
 				lastCheckTime: token.lastCheckTime,
 				config: token.config,
 			}),
@@ -533,6 +1149,64 @@ export class PriceWatcher extends EventEmitter {
 		);
 	}
 
+	updateTokenWindows(tokenContract: string, alertWindows: string[]): void {
+		const token = this.trackedTokens.get(tokenContract);
+		if (!token) {
+			throw new Error(`Token ${tokenContract} is not being tracked`);
+		}
+
+		token.config.alertWindows = alertWindows;
+		token.windowStates.clear();
+
+		database.updateWatchedToken(tokenContract, { alertWindows });
+
+		console.log(
+			`⚙️  Updated alert windows for ${token.config.tokenName}: ${alertWindows.join(", ") || "last poll"}`,
+		);
+	}
+
+	updateTokenAdaptive(
+		tokenContract: string,
+		adaptive: Pick<
+			TokenWatchConfig,
+			"adaptiveMode" | "sigmaThreshold" | "volatilityWindow"
+		>,
+	): void {
+		const token = this.trackedTokens.get(tokenContract);
+		if (!token) {
+			throw new Error(`Token ${tokenContract} is not being tracked`);
+		}
+
+		token.config = { ...token.config, ...adaptive };
+
+		database.updateWatchedToken(tokenContract, adaptive);
+
+		console.log(
+			`⚙️  Updated adaptive mode for ${token.config.tokenName}:`,
+			adaptive,
+		);
+	}
+
+	updateTokenAlertBasis(
+		tokenContract: string,
+		alertBasis: TokenWatchConfig["alertBasis"],
+	): void {
+		const token = this.trackedTokens.get(tokenContract);
+		if (!token) {
+			throw new Error(`Token ${tokenContract} is not being tracked`);
+		}
+
+		token.config.alertBasis = alertBasis;
+		// Window states were tracked against the old basis
+		token.windowStates.clear();
+
+		database.updateWatchedToken(tokenContract, { alertBasis });
+
+		console.log(
+			`⚙️  Updated alert basis for ${token.config.tokenName}: ${alertBasis}`,
+		);
+	}
+
 	async getCurrentPrice(tokenContract: string): Promise<number> {
 		const stats = await agentsApi.getAgentStats(tokenContract);
 		return stats.currentPriceInUSD;
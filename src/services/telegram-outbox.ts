@@ -0,0 +1,255 @@
+import { EventEmitter } from "node:events";
+import { TelegramError } from "telegraf";
+import { database, type OutboxMessage } from "./database";
+
+export type OutboxSender = (
+	chatId: number,
+	message: OutboxMessage,
+) => Promise<void>;
+
+interface OutboxConfig {
+	tickMs: number;
+	chatIntervalMs: number; // Telegram allows about one message per second per chat
+	maxAttempts: number;
+}
+
+// Telegram rejects messages longer than this
+export const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
+
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+const SENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Splits on line breaks where possible, so formatting tags rarely straddle two parts
+export function splitMessage(
+	message: string,
+	limit: number = TELEGRAM_MAX_MESSAGE_LENGTH,
+): string[] {
+	if (message.length <= limit) return [message];
+
+	const parts: string[] = [];
+	let current = "";
+	for (const line of message.split("\n")) {
+		const candidate = current ? `${current}\n${line}` : line;
+		if (candidate.length <= limit) {
+			current = candidate;
+			continue;
+		}
+
+		if (current) parts.push(current);
+		current = line;
+		while (current.length > limit) {
+			parts.push(current.slice(0, limit));
+			current = current.slice(limit);
+		}
+	}
+	if (current) parts.push(current);
+	return parts;
+}
+
+export class TelegramOutbox extends EventEmitter {
+	private config: OutboxConfig;
+	private send: OutboxSender;
+	private getChatId: () => number | null;
+	private isRunning: boolean = false;
+	private isDraining: boolean = false;
+	private intervalId: NodeJS.Timeout | null = null;
+	private lastSentAt: Map<number, number> = new Map();
+	private pausedUntil: number = 0; // Set from Telegram's retry_after
+	private lastPrunedAt: number = 0;
+
+	constructor(
+		send: OutboxSender,
+		getChatId: () => number | null,
+		config: Partial<OutboxConfig> = {},
+	) {
+		super();
+		this.send = send;
+		this.getChatId = getChatId;
+		this.config = {
+			tickMs: config.tickMs ?? 1000,
+			chatIntervalMs: config.chatIntervalMs ?? 1000,
+			maxAttempts: config.maxAttempts ?? 8,
+		};
+	}
+
+	start(): void {
+		if (this.isRunning) return;
+
+		this.isRunning = true;
+		this.intervalId = setInterval(() => {
+			this.drain();
+		}, this.config.tickMs);
+		this.drain();
+	}
+
+	stop(): void {
+		if (!this.isRunning) return;
+
+		this.isRunning = false;
+		if (this.intervalId) {
+			clearInterval(this.intervalId);
+			this.intervalId = null;
+		}
+	}
+
+	// Persists the message before anything is sent, so it survives a restart or a Telegram outage
+	enqueue(
+		message: string,
+		options: {
+			chatId?: number | null;
+			parseMode?: OutboxMessage["parseMode"];
+			alertId?: number;
+		} = {},
+	): void {
+		const now = Date.now();
+		const parts = splitMessage(message);
+
+		database.transaction(() => {
+			parts.forEach((part, index) => {
+				database.addOutboxMessage({
+					chatId: options.chatId ?? null,
+					message: part,
+					parseMode: options.parseMode ?? null,
+					// The keyboard goes on the last part, under the whole alert
+					alertId:
+						index === parts.length - 1 ? (options.alertId ?? null) : null,
+					status: "pending",
+					attempts: 0,
+					nextAttemptAt: now,
+					lastError: null,
+					createdAt: now,
+					sentAt: null,
+				});
+			});
+		});
+
+		if (this.isRunning) {
+			this.drain();
+		}
+	}
+
+	// Sends the oldest pending message of every chat that is due, one per chat per tick
+	async drain(): Promise<void> {
+		if (this.isDraining) return;
+		this.isDraining = true;
+
+		try {
+			const now = Date.now();
+			if (now - this.lastPrunedAt > 60 * 60 * 1000) {
+				database.pruneSentOutboxMessages(now - SENT_RETENTION_MS);
+				this.lastPrunedAt = now;
+			}
+			if (now < this.pausedUntil) return;
+
+			const heads = new Map<number, OutboxMessage>();
+			for (const message of database.getPendingOutboxMessages()) {
+				const chatId = message.chatId ?? this.getChatId();
+				// Held until the user's chat is known
+				if (chatId === null || heads.has(chatId)) continue;
+				heads.set(chatId, message);
+			}
+
+			for (const [chatId, message] of heads) {
+				if (Date.now() < this.pausedUntil) break;
+				if (message.nextAttemptAt > Date.now()) continue;
+				if (
+					Date.now() - (this.lastSentAt.get(chatId) ?? 0) <
+					this.config.chatIntervalMs
+				) {
+					continue;
+				}
+
+				await this.deliver(chatId, message);
+			}
+		} catch (error) {
+			console.error("❌ Error draining outbox:", error);
+			this.emit("error", error);
+		} finally {
+			this.isDraining = false;
+		}
+	}
+
+	private async deliver(chatId: number, message: OutboxMessage): Promise<void> {
+		try {
+			await this.send(chatId, message);
+			this.lastSentAt.set(chatId, Date.now());
+			database.updateOutboxMessage(message.id!, {
+				status: "sent",
+				attempts: message.attempts + 1,
+				nextAttemptAt: message.nextAttemptAt,
+				lastError: null,
+				sentAt: Date.now(),
+			});
+			console.log("✅ Notification sent to user");
+		} catch (error) {
+			this.lastSentAt.set(chatId, Date.now());
+			const description =
+				error instanceof Error ? error.message : String(error);
+
+			// Flood control: wait as long as Telegram asks, without using up an attempt
+			const retryAfter =
+				error instanceof TelegramError
+					? error.parameters?.retry_after
+					: undefined;
+			if (retryAfter !== undefined) {
+				this.pausedUntil = Date.now() + retryAfter * 1000;
+				database.updateOutboxMessage(message.id!, {
+					status: "pending",
+					attempts: message.attempts,
+					nextAttemptAt: this.pausedUntil,
+					lastError: description,
+					sentAt: null,
+				});
+				console.warn(`⏳ Telegram rate limit, retrying in ${retryAfter}s`);
+				return;
+			}
+
+			// Other 4xx errors (bad request, blocked bot) will fail the same way again
+			const permanent =
+				error instanceof TelegramError && error.code >= 400 && error.code < 500;
+			const attempts = message.attempts + 1;
+			const failed = permanent || attempts >= this.config.maxAttempts;
+			database.updateOutboxMessage(message.id!, {
+				status: failed ? "failed" : "pending",
+				attempts,
+				nextAttemptAt:
+					Date.now() +
+					Math.min(
+						RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+						RETRY_MAX_DELAY_MS,
+					),
+				lastError: description,
+				sentAt: null,
+			});
+
+			if (failed) {
+				console.error(
+					`❌ Failed to send notification after ${attempts} attempt(s):`,
+					description,
+				);
+			} else {
+				console.warn(
+					`⚠️ Failed to send notification (attempt ${attempts}), retrying:`,
+					description,
+				);
+			}
+		}
+	}
+
+	getStatus(): {
+		isRunning: boolean;
+		pending: number;
+		failed: number;
+		oldestPendingAt: number | null;
+		pausedUntil: number | null;
+	} {
+		return {
+			isRunning: this.isRunning,
+			...database.getOutboxStats(),
+			pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+		};
+	}
+}
+
+export default TelegramOutbox;
@@ -0,0 +1,186 @@
+import { parseDuration } from "../utils/duration";
+import { agentsApi, type Holding } from "./agents";
+import { database, type TrailingAlert } from "./database";
+
+export interface TrailingAlertHit {
+	alert: TrailingAlert;
+	currentPrice: number;
+	extremePrice: number; // Peak for drawdowns, trough for rebounds
+	movePercentage: number; // Distance from the extreme, always positive
+}
+
+class TrailingAlertsService {
+	addAlert(
+		tokenContract: string,
+		tokenName: string,
+		kind: TrailingAlert["kind"],
+		percentage: number,
+		lookback: string | null,
+		currentPrice: number,
+		autoArmed: boolean = false,
+	): TrailingAlert {
+		const alert: Omit<TrailingAlert, "id"> = {
+			tokenContract,
+			tokenName,
+			kind,
+			percentage,
+			lookback,
+			extremePrice: currentPrice,
+			isArmed: true,
+			isActive: true,
+			autoArmed,
+			lastTriggeredAt: null,
+			createdAt: Date.now(),
+		};
+		const id = database.addTrailingAlert(alert);
+		console.log(
+			`📉 Added ${percentage}% ${kind} alert for ${tokenName}${autoArmed ? " (auto-armed)" : ""}`,
+		);
+		return { id, ...alert };
+	}
+
+	getAlerts(tokenContract?: string): TrailingAlert[] {
+		return database.getTrailingAlerts(tokenContract);
+	}
+
+	removeAlert(id: number): boolean {
+		return database.removeTrailingAlert(id);
+	}
+
+	// Keep a drawdown and rebound alert armed for every token held in the wallet
+	autoArm(holdings: Holding[], percentage: number): number {
+		const held = new Set<string>();
+		let armed = 0;
+
+		for (const holding of holdings) {
+			if (holding.currentPriceInUsd <= 0) continue;
+			held.add(holding.tokenContract);
+
+			const existing = database
+				.getTrailingAlerts(holding.tokenContract)
+				.filter((alert) => alert.autoArmed);
+			for (const kind of ["drawdown", "rebound"] as const) {
+				if (existing.some((alert) => alert.kind === kind)) continue;
+
+				this.addAlert(
+					holding.tokenContract,
+					holding.name,
+					kind,
+					percentage,
+					null,
+					holding.currentPriceInUsd,
+					true,
+				);
+				armed++;
+			}
+		}
+
+		// Positions that were sold no longer need trailing alerts
+		for (const alert of database.getTrailingAlerts()) {
+			if (alert.autoArmed && !held.has(alert.tokenContract)) {
+				database.removeTrailingAlert(alert.id!);
+			}
+		}
+
+		return armed;
+	}
+
+	disableAutoArm(): number {
+		return database.removeAutoArmedTrailingAlerts();
+	}
+
+	// Updates the tracked extremes and returns the alerts that fired on this price
+	evaluate(
+		tokenContract: string,
+		currentPrice: number,
+		now: number,
+	): TrailingAlertHit[] {
+		const hits: TrailingAlertHit[] = [];
+		if (currentPrice <= 0) return hits;
+
+		for (const alert of database.getTrailingAlerts(tokenContract)) {
+			const extremePrice = this.getExtreme(alert, currentPrice, now);
+			const movePercentage =
+				alert.kind === "drawdown"
+					? ((extremePrice - currentPrice) / extremePrice) * 100
+					: ((currentPrice - extremePrice) / extremePrice) * 100;
+			const matching = movePercentage >= alert.percentage;
+
+			if (matching && alert.isArmed) {
+				// Since-armed alerts start tracking a fresh extreme from the price that fired them
+				const nextExtreme = alert.lookback ? extremePrice : currentPrice;
+				database.updateTrailingAlert(alert.id!, {
+					extremePrice: nextExtreme,
+					isArmed: false,
+					lastTriggeredAt: now,
+				});
+				hits.push({
+					alert: { ...alert, isArmed: false, lastTriggeredAt: now },
+					currentPrice,
+					extremePrice,
+					movePercentage,
+				});
+			} else if (!matching && !alert.isArmed) {
+				database.updateTrailingAlert(alert.id!, {
+					extremePrice,
+					isArmed: true,
+				});
+			} else if (extremePrice !== alert.extremePrice) {
+				database.updateTrailingAlert(alert.id!, { extremePrice });
+			}
+		}
+
+		return hits;
+	}
+
+	createAlertMessage(hit: TrailingAlertHit): string {
+		const { alert, currentPrice, extremePrice, movePercentage } = hit;
+		const period = alert.lookback
+			? `over the last ${alert.lookback}`
+			: "since armed";
+
+		if (alert.kind === "drawdown") {
+			return (
+				`📉 ${alert.tokenName} drawdown alert!\n\n` +
+				`💰 Current price: ${agentsApi.formatCurrency(currentPrice)}\n` +
+				`🏔️ Peak ${period}: ${agentsApi.formatCurrency(extremePrice)}\n` +
+				`🔻 Drawdown: -${movePercentage.toFixed(2)}%\n` +
+				`🚨 Trailing stop: ${alert.percentage}%\n\n` +
+				"Price has fallen well below its recent high! 📉"
+			);
+		}
+
+		return (
+			`📈 ${alert.tokenName} rebound alert!\n\n` +
+			`💰 Current price: ${agentsApi.formatCurrency(currentPrice)}\n` +
+			`🕳️ Trough ${period}: ${agentsApi.formatCurrency(extremePrice)}\n` +
+			`🔺 Rebound: +${movePercentage.toFixed(2)}%\n` +
+			`🚨 Threshold: ${alert.percentage}%\n\n` +
+			"Price is bouncing back from its recent low! 🚀"
+		);
+	}
+
+	private getExtreme(
+		alert: TrailingAlert,
+		currentPrice: number,
+		now: number,
+	): number {
+		let extreme = alert.extremePrice > 0 ? alert.extremePrice : currentPrice;
+
+		const lookbackMs = alert.lookback ? parseDuration(alert.lookback) : null;
+		if (lookbackMs !== null) {
+			const { high, low } = database.getPriceExtremes(
+				alert.tokenContract,
+				now - lookbackMs,
+			);
+			extreme = (alert.kind === "drawdown" ? high : low) ?? currentPrice;
+		}
+
+		return alert.kind === "drawdown"
+			? Math.max(extreme, currentPrice)
+			: Math.min(extreme, currentPrice);
+	}
+}
+
+export const trailingAlerts = new TrailingAlertsService();
+export default trailingAlerts;
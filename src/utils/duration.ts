@@ -0,0 +1,39 @@
+const UNIT_MS: Record<string, number> = {
+	s: 1000,
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Parse a compact duration such as "15m", "1h" or "7d" into milliseconds
+export function parseDuration(input: string): number | null {
+	const match = /^(\d+(?:\.\d+)?)([smhdw])$/i.exec(input.trim());
+	if (!match) return null;
+
+	const value = parseFloat(match[1]!);
+	const unitMs = UNIT_MS[match[2]!.toLowerCase()];
+	if (!unitMs || Number.isNaN(value) || value <= 0) return null;
+
+	return value * unitMs;
+}
+
+// Render milliseconds back into a short human readable form, e.g. "1h 30m"
+export function formatDuration(ms: number): string {
+	const parts: string[] = [];
+	let remaining = Math.max(0, Math.round(ms / 1000));
+
+	for (const [unit, seconds] of [
+		["d", 86400],
+		["h", 3600],
+		["m", 60],
+		["s", 1],
+	] as const) {
+		if (remaining >= seconds) {
+			parts.push(`${Math.floor(remaining / seconds)}${unit}`);
+			remaining %= seconds;
+		}
+	}
+
+	return parts.length > 0 ? parts.slice(0, 2).join(" ") : "0s";
+}
@@ -0,0 +1,110 @@
+import dedent from "dedent";
+import { TelegramError } from "telegraf";
+
+// Telegram HTML whose text is already escaped; plain strings are always treated as text
+export class Rendered {
+	readonly html: string;
+
+	constructor(html: string) {
+		this.html = html;
+	}
+}
+
+export type MessagePart = string | number | Rendered;
+
+const HTML_ENTITIES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+};
+
+// Telegram HTML only needs these escaped, so names with _, * or [ pass through untouched
+export function escapeHtml(text: string): string {
+	return text.replace(/[&<>"]/g, (char) => HTML_ENTITIES[char] ?? char);
+}
+
+function toHtml(part: MessagePart): string {
+	return part instanceof Rendered ? part.html : escapeHtml(String(part));
+}
+
+// Escapes every interpolated value unless it was rendered already
+export function html(
+	strings: TemplateStringsArray,
+	...values: MessagePart[]
+): Rendered {
+	let result = strings[0] ?? "";
+	values.forEach((value, index) => {
+		result += toHtml(value) + (strings[index + 1] ?? "");
+	});
+	return new Rendered(result);
+}
+
+// Same as html, with the common indentation removed like dedent does for plain strings
+export function dedentHtml(
+	strings: TemplateStringsArray,
+	...values: MessagePart[]
+): Rendered {
+	return new Rendered(dedent(html(strings, ...values).html));
+}
+
+export function bold(text: MessagePart): Rendered {
+	return new Rendered(`<b>${toHtml(text)}</b>`);
+}
+
+export function italic(text: MessagePart): Rendered {
+	return new Rendered(`<i>${toHtml(text)}</i>`);
+}
+
+export function code(text: MessagePart): Rendered {
+	return new Rendered(`<code>${toHtml(text)}</code>`);
+}
+
+export function link(text: MessagePart, url: string): Rendered {
+	return new Rendered(`<a href="${escapeHtml(url)}">${toHtml(text)}</a>`);
+}
+
+export function render(message: MessagePart | MessagePart[]): Rendered {
+	const parts = Array.isArray(message) ? message : [message];
+	return new Rendered(parts.map(toHtml).join(""));
+}
+
+// What the user would have seen, minus the formatting
+export function toPlainText(htmlText: string): string {
+	return htmlText
+		.replace(/<a href="([^"]*)">(.*?)<\/a>/g, "$2 ($1)")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&quot;/g, '"')
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&amp;/g, "&");
+}
+
+export function isFormattingError(error: unknown): boolean {
+	return (
+		error instanceof TelegramError &&
+		error.code === 400 &&
+		/can't parse entities|unsupported start tag|can't find end tag/i.test(
+			error.description,
+		)
+	);
+}
+
+// Sends as HTML, and again as plain text if Telegram rejects the formatting
+export async function sendRendered<T>(
+	message: MessagePart | MessagePart[],
+	send: (text: string, parseMode?: "HTML") => Promise<T>,
+): Promise<T> {
+	const { html: text } = render(message);
+	try {
+		return await send(text, "HTML");
+	} catch (error) {
+		if (!isFormattingError(error)) throw error;
+
+		console.warn(
+			"⚠️ Telegram rejected the message formatting, sending it as plain text:",
+			(error as TelegramError).description,
+		);
+		return send(toPlainText(text));
+	}
+}
@@ -0,0 +1,355 @@
+import { parseDuration } from "./duration";
+
+// Fields a rule can reference; all of them come from AgentStats or are derived from it
+export const RULE_FIELDS = [
+	"currentPriceInUSD",
+	"currentPriceInIq",
+	"iqPriceInUSD",
+	"marketCap",
+	"changeIn24h",
+	"holdersCount",
+	"inferenceCount",
+] as const;
+
+export type RuleField = (typeof RULE_FIELDS)[number];
+
+export type MetricSnapshot = Partial<Record<RuleField, number>>;
+
+export type ComparisonOperator = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+export type RuleOperand =
+	| { kind: "number"; value: number; text: string }
+	| { kind: "field"; field: RuleField; text: string }
+	| {
+			kind: "change";
+			field: RuleField;
+			window: string;
+			windowMs: number;
+			percent: boolean; // pct_change() instead of change()
+			text: string;
+	  }
+	| { kind: "abs"; operand: RuleOperand; text: string };
+
+export type RuleExpression =
+	| {
+			kind: "compare";
+			operator: ComparisonOperator;
+			left: RuleOperand;
+			right: RuleOperand;
+	  }
+	| { kind: "and" | "or"; left: RuleExpression; right: RuleExpression }
+	| { kind: "not"; expression: RuleExpression };
+
+// Resolves an operand to a value; null means the data is missing (e.g. not enough history yet)
+export type OperandResolver = (operand: RuleOperand) => number | null;
+
+interface Token {
+	type: "number" | "word" | "operator" | "paren" | "comma";
+	value: string;
+}
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+	">=",
+	"<=",
+	"==",
+	"!=",
+	">",
+	"<",
+];
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let index = 0;
+
+	while (index < input.length) {
+		const rest = input.slice(index);
+
+		const whitespace = /^\s+/.exec(rest);
+		if (whitespace) {
+			index += whitespace[0].length;
+			continue;
+		}
+
+		// Numbers may carry a unit suffix so durations such as "1h" stay one token
+		const number = /^\d+(?:\.\d+)?[a-z]*/i.exec(rest);
+		if (number) {
+			tokens.push({ type: "number", value: number[0] });
+			index += number[0].length;
+			continue;
+		}
+
+		const word = /^[a-z_][a-z0-9_]*/i.exec(rest);
+		if (word) {
+			tokens.push({ type: "word", value: word[0] });
+			index += word[0].length;
+			continue;
+		}
+
+		const operator = /^(>=|<=|==|!=|&&|\|\||[<>!-])/.exec(rest);
+		if (operator) {
+			tokens.push({ type: "operator", value: operator[0] });
+			index += operator[0].length;
+			continue;
+		}
+
+		const char = rest[0]!;
+		if (char === "(" || char === ")") {
+			tokens.push({ type: "paren", value: char });
+		} else if (char === ",") {
+			tokens.push({ type: "comma", value: char });
+		} else {
+			throw new Error(`Unexpected character "${char}"`);
+		}
+		index++;
+	}
+
+	return tokens;
+}
+
+class RuleParser {
+	private position = 0;
+
+	constructor(private tokens: Token[]) {}
+
+	parse(): RuleExpression {
+		if (this.tokens.length === 0) {
+			throw new Error("Rule expression is empty");
+		}
+
+		const expression = this.parseOr();
+		const leftover = this.peek();
+		if (leftover) {
+			throw new Error(`Unexpected "${leftover.value}"`);
+		}
+		return expression;
+	}
+
+	private parseOr(): RuleExpression {
+		let left = this.parseAnd();
+		while (this.matchKeyword("or", "||")) {
+			left = { kind: "or", left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): RuleExpression {
+		let left = this.parseNot();
+		while (this.matchKeyword("and", "&&")) {
+			left = { kind: "and", left, right: this.parseNot() };
+		}
+		return left;
+	}
+
+	private parseNot(): RuleExpression {
+		if (this.matchKeyword("not", "!")) {
+			return { kind: "not", expression: this.parseNot() };
+		}
+
+		// Operands never start with a parenthesis, so this is always a group
+		if (this.peek()?.value === "(") {
+			this.position++;
+			const expression = this.parseOr();
+			this.expect(")");
+			return expression;
+		}
+
+		return this.parseComparison();
+	}
+
+	private parseComparison(): RuleExpression {
+		const left = this.parseOperand();
+		const token = this.next("a comparison operator");
+		const operator = COMPARISON_OPERATORS.find((op) => op === token.value);
+		if (!operator) {
+			throw new Error(
+				`Expected a comparison operator after ${left.text}, got "${token.value}"`,
+			);
+		}
+		return { kind: "compare", operator, left, right: this.parseOperand() };
+	}
+
+	private parseOperand(): RuleOperand {
+		const token = this.next("a field, function or number");
+
+		if (token.value === "-") {
+			const operand = this.parseOperand();
+			if (operand.kind !== "number") {
+				throw new Error(`"-" is only supported in front of numbers`);
+			}
+			return {
+				kind: "number",
+				value: -operand.value,
+				text: `-${operand.text}`,
+			};
+		}
+
+		if (token.type === "number") {
+			const value = Number(token.value);
+			if (Number.isNaN(value)) {
+				throw new Error(`Invalid number "${token.value}"`);
+			}
+			return { kind: "number", value, text: token.value };
+		}
+
+		if (token.type !== "word") {
+			throw new Error(
+				`Expected a field, function or number, got "${token.value}"`,
+			);
+		}
+
+		const name = token.value.toLowerCase();
+		if (name === "abs") {
+			this.expect("(");
+			const operand = this.parseOperand();
+			this.expect(")");
+			return { kind: "abs", operand, text: `abs(${operand.text})` };
+		}
+
+		if (name === "change" || name === "pct_change") {
+			this.expect("(");
+			const field = this.parseField(this.next("a field"));
+			this.expect(",");
+			const window = this.next("a window such as 1h").value;
+			const windowMs = parseDuration(window);
+			if (windowMs === null) {
+				throw new Error(`Invalid window "${window}", use e.g. 15m, 1h or 1d`);
+			}
+			this.expect(")");
+			return {
+				kind: "change",
+				field,
+				window,
+				windowMs,
+				percent: name === "pct_change",
+				text: `${name}(${field}, ${window})`,
+			};
+		}
+
+		const field = this.parseField(token);
+		return { kind: "field", field, text: field };
+	}
+
+	private parseField(token: Token): RuleField {
+		const field = RULE_FIELDS.find(
+			(candidate) => candidate.toLowerCase() === token.value.toLowerCase(),
+		);
+		if (!field) {
+			throw new Error(
+				`Unknown field "${token.value}". Available: ${RULE_FIELDS.join(", ")}`,
+			);
+		}
+		return field;
+	}
+
+	private matchKeyword(...keywords: string[]): boolean {
+		const token = this.peek();
+		if (token && keywords.includes(token.value.toLowerCase())) {
+			this.position++;
+			return true;
+		}
+		return false;
+	}
+
+	private expect(value: string): void {
+		const token = this.next(`"${value}"`);
+		if (token.value !== value) {
+			throw new Error(`Expected "${value}", got "${token.value}"`);
+		}
+	}
+
+	private next(expected: string): Token {
+		const token = this.tokens[this.position];
+		if (!token) {
+			throw new Error(`Expected ${expected} but the rule ended`);
+		}
+		this.position++;
+		return token;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.position];
+	}
+}
+
+// Parse e.g. "pct_change(currentPriceInUSD, 1h) > 5 AND change(holdersCount, 1d) >= 20"
+export function parseRuleExpression(input: string): RuleExpression {
+	return new RuleParser(tokenize(input)).parse();
+}
+
+// Comparisons with missing data evaluate to false
+export function evaluateRuleExpression(
+	expression: RuleExpression,
+	resolve: OperandResolver,
+): boolean {
+	switch (expression.kind) {
+		case "and":
+			return (
+				evaluateRuleExpression(expression.left, resolve) &&
+				evaluateRuleExpression(expression.right, resolve)
+			);
+		case "or":
+			return (
+				evaluateRuleExpression(expression.left, resolve) ||
+				evaluateRuleExpression(expression.right, resolve)
+			);
+		case "not":
+			return !evaluateRuleExpression(expression.expression, resolve);
+		case "compare": {
+			const left = resolveOperand(expression.left, resolve);
+			const right = resolveOperand(expression.right, resolve);
+			if (left === null || right === null) return false;
+			return compare(left, expression.operator, right);
+		}
+	}
+}
+
+export function resolveOperand(
+	operand: RuleOperand,
+	resolve: OperandResolver,
+): number | null {
+	if (operand.kind === "number") return operand.value;
+	if (operand.kind === "abs") {
+		const value = resolveOperand(operand.operand, resolve);
+		return value === null ? null : Math.abs(value);
+	}
+	return resolve(operand);
+}
+
+// Non-constant operands, used to show the values behind a triggered rule
+export function collectOperands(expression: RuleExpression): RuleOperand[] {
+	switch (expression.kind) {
+		case "and":
+		case "or":
+			return [
+				...collectOperands(expression.left),
+				...collectOperands(expression.right),
+			];
+		case "not":
+			return collectOperands(expression.expression);
+		case "compare":
+			return [expression.left, expression.right].filter(
+				(operand) => operand.kind !== "number",
+			);
+	}
+}
+
+function compare(
+	left: number,
+	operator: ComparisonOperator,
+	right: number,
+): boolean {
+	switch (operator) {
+		case ">":
+			return left > right;
+		case ">=":
+			return left >= right;
+		case "<":
+			return left < right;
+		case "<=":
+			return left <= right;
+		case "==":
+			return left === right;
+		case "!=":
+			return left !== right;
+	}
+}